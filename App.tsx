@@ -5,6 +5,13 @@ import { Toaster } from './components/ui';
 
 // Lazy load Viewer component - only loads when needed
 const Viewer = lazy(() => import('./components/Viewer').then(m => ({ default: m.Viewer })));
+const DiffView = lazy(() => import('./components/DiffView').then(m => ({ default: m.DiffView })));
+
+const PageFallback = (
+  <div className="h-screen w-full flex items-center justify-center text-[var(--accent-primary)] bg-[var(--bg-primary)]">
+    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-current"></div>
+  </div>
+);
 
 // Main Layout Container
 const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -26,16 +33,21 @@ const Home = () => {
 // View Route (Read-only) - with loading fallback
 const ViewPage = () => {
   return (
-    <Suspense fallback={
-      <div className="h-screen w-full flex items-center justify-center text-[var(--accent-primary)] bg-[var(--bg-primary)]">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-current"></div>
-      </div>
-    }>
+    <Suspense fallback={PageFallback}>
       <Viewer />
     </Suspense>
   );
 };
 
+// Compare Route - diff between two versions of a document
+const DiffPage = () => {
+  return (
+    <Suspense fallback={PageFallback}>
+      <DiffView />
+    </Suspense>
+  );
+};
+
 export default function App() {
   // Theme Management
   useEffect(() => {
@@ -49,6 +61,7 @@ export default function App() {
         <Routes>
           <Route path="/" element={<Home />} />
           <Route path="/view" element={<ViewPage />} />
+          <Route path="/diff" element={<DiffPage />} />
         </Routes>
       </Layout>
     </HashRouter>
@@ -1,9 +1,77 @@
-import React, { useMemo, useState, useEffect, useRef } from 'react';
-import Editor from 'react-simple-code-editor';
-import Prism from 'prismjs';
-import 'prismjs/components/prism-markdown';
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import {
+  Annotation,
+  Compartment,
+  EditorState,
+  StateEffect,
+  StateField,
+  Transaction,
+  type Range,
+} from '@codemirror/state';
+import {
+  crosshairCursor,
+  Decoration,
+  drawSelection,
+  dropCursor,
+  EditorView,
+  gutter,
+  GutterMarker,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+  rectangularSelection,
+  WidgetType,
+  type DecorationSet,
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import {
+  bracketMatching,
+  foldGutter,
+  foldKeymap,
+  HighlightStyle,
+  indentOnInput,
+  syntaxHighlighting,
+} from '@codemirror/language';
+import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
+import { closeBrackets, closeBracketsKeymap, snippet } from '@codemirror/autocomplete';
+import { tags } from '@lezer/highlight';
 import { WrapText } from 'lucide-react';
 import { cn } from '../utils';
+import { htmlToMarkdown, isRichHtml } from '../lib/importers';
+import { insertImageAssets, isImageFile } from '../lib/assets';
+import { loadKeymapExtension, type EditorKeymapId, type SubstituteCommand } from '../lib/editorKeymaps';
+
+// Another participant's cursor in a collaboration session
+export interface RemoteSelection {
+  id: number;
+  name: string;
+  color: string;
+  anchor: number;
+  head: number;
+}
+
+// Commented range of the text, marked in the gutter
+export interface CommentMarker {
+  id: string;
+  start: number;
+  end: number;
+}
+
+/** Imperative access to the editor, for toolbar actions and scroll sync. */
+export interface CodeEditorHandle {
+  // The scrolling element
+  readonly scrollDOM: HTMLElement | null;
+  focus: () => void;
+  getSelection: () => { start: number; end: number };
+  // Focuses the editor and selects the range, scrolling it into view
+  setSelection: (start: number, end?: number) => void;
+  // Replaces text as a user edit, so it can be undone
+  replaceRange: (from: number, to: number, text: string, cursor?: number) => void;
+  // Inserts a template in place of the selection; Tab and Shift+Tab move between its ${1:field}s
+  insertTemplate: (template: string) => void;
+}
 
 interface CodeEditorProps {
   value: string;
@@ -11,139 +79,545 @@ interface CodeEditorProps {
   className?: string;
   currentMatchIndex?: number;
   matches?: { start: number; end: number }[];
-  onScroll?: (e: React.UIEvent<HTMLDivElement>) => void;
+  onScroll?: (e: Event) => void;
+  remoteSelections?: RemoteSelection[];
+  onSelectionChange?: (selection: { anchor: number; head: number }) => void;
+  comments?: CommentMarker[];
+  activeCommentId?: string | null;
+  onCommentClick?: (id: string) => void;
+  keymap?: EditorKeymapId;
+  // Vim's current mode, or null for keymaps without modes
+  onKeymapModeChange?: (mode: string | null) => void;
+  onSubstitute?: (command: SubstituteCommand) => void;
 }
 
-const SearchDecorations = ({ 
-  value, 
-  matches, 
-  currentIndex, 
-  wordWrap 
-}: { 
-  value: string; 
-  matches: { start: number; end: number }[]; 
-  currentIndex: number;
-  wordWrap: boolean;
-}) => {
-  const renderedMatches = useMemo(() => {
-    if (!matches || matches.length === 0) return value;
-
-    const result: React.ReactNode[] = [];
-    let lastIndex = 0;
+// Changes that come from the `value` prop rather than from typing
+const External = Annotation.define<boolean>();
 
-    matches.forEach((match, i) => {
-      if (match.start < lastIndex || match.start > value.length) return;
-
-      result.push(value.substring(lastIndex, match.start));
-      result.push(
-        <span 
-          key={i} 
-          id={i === currentIndex ? 'current-editor-match' : undefined}
-          className={cn(
-            "rounded-sm transition-all duration-200 inline-block",
-            i === currentIndex 
-              ? "bg-[var(--accent-primary)] ring-2 ring-[var(--accent-primary)] text-black font-bold z-20 shadow-[0_0_15px_rgba(215,153,33,0.4)]" 
-              : "bg-yellow-500/30 border-b-2 border-yellow-500 z-10"
-          )}
-        >
-          {value.substring(match.start, match.end)}
-        </span>
-      );
-      lastIndex = match.end;
-    });
+/**
+ * Decorations computed from props. Edits move them along until the props
+ * catch up with the new text.
+ */
+const propDecorations = () => {
+  const update = StateEffect.define<DecorationSet>();
+  const field = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update: (decorations, tr) => {
+      for (const effect of tr.effects) if (effect.is(update)) return effect.value;
+      return decorations.map(tr.changes);
+    },
+    provide: (f) => EditorView.decorations.from(f),
+  });
+  return { update, field };
+};
 
-    result.push(value.substring(lastIndex));
-    return result;
-  }, [value, matches, currentIndex]);
+const searchDecorations = propDecorations();
+const commentDecorations = propDecorations();
+const remoteDecorations = propDecorations();
 
-  return (
-    <div className="absolute top-0 left-0 w-full h-full pointer-events-none select-none z-0" aria-hidden="true">
-      <pre
-        className="font-mono text-base leading-relaxed m-0"
-        style={{
-          fontFamily: '"JetBrains Mono", monospace',
-          fontSize: '1rem',
-          lineHeight: '1.625',
-          padding: '16px',
-          whiteSpace: wordWrap ? 'pre-wrap' : 'pre',
-          wordBreak: wordWrap ? 'break-word' : 'normal',
-          color: 'transparent',
-          border: 'none',
-        }}
-      >
-        {renderedMatches}
-      </pre>
-    </div>
-  );
+// Ranges are clamped to the text, which can be ahead of the props while typing
+const clampedRange = (length: number, start: number, end: number) => {
+  const from = Math.min(Math.max(start, 0), length);
+  return { from, to: Math.min(Math.max(end, from), length) };
 };
 
-export const CodeEditor = React.forwardRef<HTMLDivElement, CodeEditorProps>(({ 
-  value, 
-  onChange, 
+class RemoteCaretWidget extends WidgetType {
+  constructor(readonly name: string, readonly color: string) {
+    super();
+  }
+
+  eq(other: RemoteCaretWidget) {
+    return other.name === this.name && other.color === this.color;
+  }
+
+  toDOM() {
+    const caret = document.createElement('span');
+    caret.className = 'cm-remote-caret';
+    caret.style.borderLeftColor = this.color;
+    const label = document.createElement('span');
+    label.className = 'cm-remote-caret-label';
+    label.style.backgroundColor = this.color;
+    label.textContent = this.name;
+    caret.appendChild(label);
+    return caret;
+  }
+
+  ignoreEvent() {
+    return true;
+  }
+}
+
+// lucide's MessageSquare, drawn directly since gutter markers are plain DOM
+const MESSAGE_SQUARE_PATH = 'M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z';
+
+class CommentGutterMarker extends GutterMarker {
+  constructor(readonly id: string, readonly active: boolean) {
+    super();
+  }
+
+  eq(other: CommentGutterMarker) {
+    return other.id === this.id && other.active === this.active;
+  }
+
+  toDOM() {
+    const button = document.createElement('button');
+    button.className = cn('cm-comment-marker', this.active && 'cm-comment-marker-active');
+    button.title = 'Show comment';
+    button.dataset.commentId = this.id;
+    button.innerHTML = `<svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="${MESSAGE_SQUARE_PATH}"/></svg>`;
+    return button;
+  }
+}
+
+// Markers on the line each comment starts on; the first comment wins
+const commentGutter = (onClick: (id: string) => void) =>
+  gutter({
+    class: 'cm-comment-gutter',
+    lineMarker(view, line) {
+      let marker: CommentGutterMarker | null = null;
+      view.state.field(commentDecorations.field).between(line.from, line.to, (from, _to, decoration) => {
+        if (from < line.from) return;
+        marker = new CommentGutterMarker(decoration.spec.commentId, decoration.spec.active);
+        return false;
+      });
+      return marker;
+    },
+    lineMarkerChange: (update) =>
+      update.transactions.some((tr) => tr.effects.some((effect) => effect.is(commentDecorations.update))),
+    domEventHandlers: {
+      mousedown(_view, _line, event) {
+        const id = (event.target as HTMLElement).closest<HTMLElement>('[data-comment-id]')?.dataset.commentId;
+        if (!id) return false;
+        onClick(id);
+        return true;
+      },
+    },
+  });
+
+// Typing `**` adds the closing pair, and typing over it steps past instead of
+// doubling it. Brackets and backticks are handled by closeBrackets.
+const closeStrongEmphasis = EditorView.inputHandler.of((view, from, to, text) => {
+  const { state } = view;
+  if (text !== '*' || from !== to || state.selection.ranges.length > 1) return false;
+  const before = state.doc.sliceString(Math.max(0, from - 2), from);
+  const after = state.doc.sliceString(from, from + 2);
+  const stepOver =
+    (after === '**' && /[^\s*]$/.test(before)) || (after[0] === '*' && /[^*]\*$/.test(before));
+  if (stepOver) {
+    view.dispatch({ selection: { anchor: from + 1 }, userEvent: 'input' });
+    return true;
+  }
+  if (before.endsWith('*') && !before.endsWith('**') && after[0] !== '*') {
+    view.dispatch({
+      changes: { from, insert: '***' },
+      selection: { anchor: from + 1 },
+      userEvent: 'input.type',
+    });
+    return true;
+  }
+  return false;
+});
+
+const markdownHighlighting = HighlightStyle.define([
+  { tag: tags.heading, class: 'tok-heading' },
+  { tag: tags.strong, class: 'tok-strong' },
+  { tag: tags.emphasis, class: 'tok-emphasis' },
+  { tag: tags.strikethrough, class: 'tok-strikethrough' },
+  { tag: tags.processingInstruction, class: 'tok-mark' },
+  { tag: [tags.link, tags.labelName], class: 'tok-link' },
+  { tag: [tags.url, tags.monospace, tags.string], class: 'tok-string' },
+  { tag: [tags.quote, tags.comment], class: 'tok-comment' },
+  { tag: [tags.contentSeparator, tags.escape, tags.atom], class: 'tok-keyword' },
+]);
+
+const editorTheme = EditorView.theme({
+  '&': {
+    height: '100%',
+    backgroundColor: 'var(--bg-primary)',
+    color: 'var(--fg-primary)',
+    fontSize: '1rem',
+  },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': { fontFamily: '"JetBrains Mono", monospace', lineHeight: '1.625' },
+  '.cm-content': { padding: '16px 0', caretColor: 'var(--accent-primary)' },
+  '.cm-line': { padding: '0 16px' },
+  '.cm-cursor, .cm-dropCursor': { borderLeftColor: 'var(--accent-primary)', borderLeftWidth: '2px' },
+  '&.cm-focused > .cm-scroller > .cm-selectionLayer .cm-selectionBackground, .cm-selectionBackground':
+    { backgroundColor: 'color-mix(in srgb, var(--accent-primary) 30%, transparent)' },
+  '.cm-activeLine, .cm-activeLineGutter': {
+    backgroundColor: 'color-mix(in srgb, var(--bg-tertiary) 40%, transparent)',
+  },
+  '.cm-gutters': {
+    backgroundColor: 'var(--bg-secondary)',
+    color: 'var(--fg-secondary)',
+    borderRight: '1px solid var(--border-primary)',
+  },
+  '.cm-lineNumbers .cm-gutterElement': { padding: '0 8px 0 12px', minWidth: '3ch', opacity: '0.6' },
+  '.cm-foldGutter .cm-gutterElement': { padding: '0 4px', cursor: 'pointer', opacity: '0.6' },
+  '.cm-foldPlaceholder': {
+    backgroundColor: 'var(--bg-tertiary)',
+    border: '1px solid var(--border-primary)',
+    color: 'var(--fg-secondary)',
+    padding: '0 6px',
+  },
+  '&.cm-focused .cm-matchingBracket': {
+    backgroundColor: 'color-mix(in srgb, var(--accent-primary) 25%, transparent)',
+    outline: '1px solid color-mix(in srgb, var(--accent-primary) 60%, transparent)',
+  },
+  '.cm-search-match': {
+    backgroundColor: 'rgb(234 179 8 / 0.3)',
+    borderBottom: '2px solid rgb(234 179 8)',
+    borderRadius: '2px',
+  },
+  '.cm-search-match-current': {
+    backgroundColor: 'var(--accent-primary)',
+    color: 'black',
+    fontWeight: 'bold',
+    borderRadius: '2px',
+    boxShadow: '0 0 15px rgba(215,153,33,0.4)',
+  },
+  '.cm-comment-range': {
+    backgroundColor: 'color-mix(in srgb, var(--accent-primary) 10%, transparent)',
+    borderBottom: '2px solid color-mix(in srgb, var(--accent-primary) 50%, transparent)',
+  },
+  '.cm-comment-range-active': {
+    backgroundColor: 'color-mix(in srgb, var(--accent-primary) 25%, transparent)',
+    borderBottomColor: 'var(--accent-primary)',
+  },
+  '.cm-comment-gutter .cm-gutterElement': { width: '18px', display: 'flex', alignItems: 'center' },
+  '.cm-comment-marker': { color: 'var(--fg-secondary)', paddingLeft: '4px', cursor: 'pointer' },
+  '.cm-comment-marker:hover, .cm-comment-marker-active': { color: 'var(--accent-primary)' },
+  '.cm-remote-caret': {
+    position: 'relative',
+    borderLeft: '2px solid',
+    marginLeft: '-1px',
+    marginRight: '-1px',
+  },
+  '.cm-remote-caret-label': {
+    position: 'absolute',
+    left: '-2px',
+    bottom: '100%',
+    padding: '0 4px',
+    borderRadius: '2px',
+    fontSize: '10px',
+    lineHeight: '1.4',
+    fontFamily: 'sans-serif',
+    fontWeight: 'bold',
+    color: 'black',
+    whiteSpace: 'nowrap',
+    pointerEvents: 'none',
+  },
+});
+
+export const CodeEditor = React.forwardRef<CodeEditorHandle, CodeEditorProps>(({
+  value,
+  onChange,
   className,
   currentMatchIndex = 0,
   matches = [],
-  onScroll
+  onScroll,
+  remoteSelections = [],
+  onSelectionChange,
+  comments = [],
+  activeCommentId = null,
+  onCommentClick,
+  keymap: keymapId = 'default',
+  onKeymapModeChange,
+  onSubstitute,
 }, ref) => {
   const [wordWrap, setWordWrap] = useState(true);
-  const editorRef = useRef<any>(null);
-
-  const highlight = (code: string) => {
-    return Prism.highlight(
-      code,
-      Prism.languages.markdown || Prism.languages.extend('markdown', {}),
-      'markdown'
-    );
+  const hostRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const wrapCompartment = useRef(new Compartment());
+  const keymapCompartment = useRef(new Compartment());
+  // The view is created once; its listeners read the latest props from here
+  const propsRef = useRef({ onChange, onScroll, onSelectionChange, onCommentClick, onKeymapModeChange, onSubstitute });
+  propsRef.current = { onChange, onScroll, onSelectionChange, onCommentClick, onKeymapModeChange, onSubstitute };
+
+  useImperativeHandle(ref, () => ({
+    get scrollDOM() {
+      return viewRef.current?.scrollDOM ?? null;
+    },
+    focus: () => viewRef.current?.focus(),
+    getSelection: () => {
+      const main = viewRef.current?.state.selection.main;
+      return main ? { start: main.from, end: main.to } : { start: 0, end: 0 };
+    },
+    setSelection: (start, end = start) => {
+      const view = viewRef.current;
+      if (!view) return;
+      const range = clampedRange(view.state.doc.length, start, end);
+      view.focus();
+      view.dispatch({
+        selection: { anchor: range.from, head: range.to },
+        effects: EditorView.scrollIntoView(range.from, { y: 'center' }),
+      });
+    },
+    replaceRange: (from, to, text, cursor = from + text.length) => {
+      const view = viewRef.current;
+      if (!view) return;
+      view.focus();
+      view.dispatch({
+        changes: { from, to, insert: text },
+        selection: { anchor: cursor },
+        scrollIntoView: true,
+        userEvent: 'input',
+      });
+    },
+    insertTemplate: (template) => {
+      const view = viewRef.current;
+      if (!view) return;
+      const { from, to } = view.state.selection.main;
+      view.focus();
+      snippet(template)(view, null, from, to);
+    },
+  }), []);
+
+  // Pasted screenshots are stored as local assets. Rich text (Google Docs, web
+  // pages, Word) is converted to markdown; code editors such as VS Code also put
+  // HTML on the clipboard, which is kept as plain text.
+  const handlePaste = (event: ClipboardEvent, view: EditorView) => {
+    const clipboard = event.clipboardData;
+    if (!clipboard) return false;
+    const { from, to } = view.state.selection.main;
+    const plainText = clipboard.getData('text/plain');
+    const insertAt = (text: string) => {
+      const range = clampedRange(view.state.doc.length, from, to);
+      view.dispatch({
+        changes: { ...range, insert: text },
+        selection: { anchor: range.from + text.length },
+        scrollIntoView: true,
+        userEvent: 'input.paste',
+      });
+      view.focus();
+    };
+
+    const images = Array.from(clipboard.files).filter(isImageFile);
+    if (images.length > 0 && !plainText) {
+      event.preventDefault();
+      insertImageAssets(images)
+        .then(insertAt)
+        .catch((err) => console.error('Failed to store pasted image', err));
+      return true;
+    }
+
+    const html = clipboard.getData('text/html');
+    if (!html || !isRichHtml(html) || clipboard.types.includes('vscode-editor-data')) {
+      return false;
+    }
+
+    event.preventDefault();
+    htmlToMarkdown(html)
+      .catch((err) => {
+        console.error('Failed to convert pasted HTML', err);
+        return plainText;
+      })
+      .then((markdown) => insertAt(markdown.trimEnd()));
+    return true;
   };
 
   useEffect(() => {
-    if (matches.length > 0 && currentMatchIndex >= 0) {
-      const timer = setTimeout(() => {
-        const currentElement = document.getElementById('current-editor-match');
-        if (currentElement) {
-          currentElement.scrollIntoView({ 
-            behavior: 'smooth', 
-            block: 'center',
-            inline: 'nearest'
-          });
-        }
-      }, 50);
-      return () => clearTimeout(timer);
+    const view = new EditorView({
+      parent: hostRef.current!,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          // First, so Vim and Emacs see keys before the default bindings
+          keymapCompartment.current.of([]),
+          commentGutter((id) => propsRef.current.onCommentClick?.(id)),
+          lineNumbers(),
+          foldGutter(),
+          highlightActiveLineGutter(),
+          highlightSpecialChars(),
+          history(),
+          drawSelection(),
+          dropCursor(),
+          EditorState.allowMultipleSelections.of(true),
+          rectangularSelection(),
+          crosshairCursor(),
+          highlightActiveLine(),
+          indentOnInput(),
+          bracketMatching(),
+          closeBrackets(),
+          closeStrongEmphasis,
+          markdown({ base: markdownLanguage }),
+          markdownLanguage.data.of({ closeBrackets: { brackets: ['(', '[', '{', '`'] } }),
+          syntaxHighlighting(markdownHighlighting),
+          keymap.of([
+            ...closeBracketsKeymap,
+            ...defaultKeymap,
+            ...historyKeymap,
+            ...foldKeymap,
+            indentWithTab,
+          ]),
+          wrapCompartment.current.of(EditorView.lineWrapping),
+          searchDecorations.field,
+          commentDecorations.field,
+          remoteDecorations.field,
+          editorTheme,
+          EditorView.domEventHandlers({ paste: handlePaste }),
+          EditorView.updateListener.of((update) => {
+            const { onChange, onSelectionChange } = propsRef.current;
+            if (update.docChanged && !update.transactions.some((tr) => tr.annotation(External))) {
+              onChange(update.state.doc.toString());
+            }
+            if ((update.selectionSet || update.focusChanged) && update.view.hasFocus) {
+              const { anchor, head } = update.state.selection.main;
+              onSelectionChange?.({ anchor, head });
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    const handleScroll = (e: Event) => propsRef.current.onScroll?.(e);
+    view.scrollDOM.addEventListener('scroll', handleScroll);
+    return () => {
+      view.scrollDOM.removeEventListener('scroll', handleScroll);
+      view.destroy();
+      viewRef.current = null;
+    };
+    // Created with the initial value; later values are synced below
+  }, []);
+
+  // Replaces only the part that differs, so selections around it stay put
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const current = view.state.doc.toString();
+    if (current === value) return;
+    let start = 0;
+    while (start < current.length && start < value.length && current[start] === value[start]) start++;
+    let end = 0;
+    while (
+      end < current.length - start &&
+      end < value.length - start &&
+      current[current.length - 1 - end] === value[value.length - 1 - end]
+    ) {
+      end++;
     }
+    view.dispatch({
+      changes: { from: start, to: current.length - end, insert: value.slice(start, value.length - end) },
+      annotations: [External.of(true), Transaction.addToHistory.of(false)],
+    });
+  }, [value]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadKeymapExtension(keymapId, {
+      onModeChange: (mode) => propsRef.current.onKeymapModeChange?.(mode),
+      onSubstitute: (command) => propsRef.current.onSubstitute?.(command),
+    })
+      .then((extension) => {
+        if (cancelled) return;
+        viewRef.current?.dispatch({ effects: keymapCompartment.current.reconfigure(extension) });
+      })
+      .catch((err) => console.error('Failed to load keymap', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [keymapId]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: wrapCompartment.current.reconfigure(wordWrap ? EditorView.lineWrapping : []),
+    });
+  }, [wordWrap]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const length = view.state.doc.length;
+    const ranges: Range<Decoration>[] = [];
+    matches.forEach((match, i) => {
+      const { from, to } = clampedRange(length, match.start, match.end);
+      if (from === to) return;
+      const className = i === currentMatchIndex ? 'cm-search-match-current' : 'cm-search-match';
+      ranges.push(Decoration.mark({ class: className }).range(from, to));
+    });
+    const current = matches[currentMatchIndex];
+    view.dispatch({
+      effects: [
+        searchDecorations.update.of(Decoration.set(ranges, true)),
+        ...(current && currentMatchIndex >= 0
+          ? [EditorView.scrollIntoView(Math.min(current.start, length), { y: 'center' })]
+          : []),
+      ],
+    });
   }, [currentMatchIndex, matches]);
 
-  const lineCount = useMemo(() => value.split('\n').length, [value]);
-  const lines = useMemo(() => Array.from({ length: lineCount }, (_, i) => i + 1), [lineCount]);
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const length = view.state.doc.length;
+    const ranges = comments.flatMap((comment) => {
+      const { from, to } = clampedRange(length, comment.start, comment.end);
+      const active = comment.id === activeCommentId;
+      return from === to
+        ? []
+        : [
+            Decoration.mark({
+              class: cn('cm-comment-range', active && 'cm-comment-range-active'),
+              commentId: comment.id,
+              active,
+            }).range(from, to),
+          ];
+    });
+    view.dispatch({ effects: commentDecorations.update.of(Decoration.set(ranges, true)) });
+  }, [comments, activeCommentId]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    const active = comments.find((comment) => comment.id === activeCommentId);
+    if (!view || !active) return;
+    view.dispatch({
+      effects: EditorView.scrollIntoView(Math.min(active.start, view.state.doc.length), { y: 'center' }),
+    });
+    // Only when another thread is selected, not while its range moves
+  }, [activeCommentId]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const length = view.state.doc.length;
+    const ranges = remoteSelections.flatMap((selection) => {
+      const { from, to } = clampedRange(
+        length,
+        Math.min(selection.anchor, selection.head),
+        Math.max(selection.anchor, selection.head)
+      );
+      const caret = Decoration.widget({
+        widget: new RemoteCaretWidget(selection.name, selection.color),
+        side: selection.head > selection.anchor ? 1 : -1,
+      }).range(Math.min(selection.head, length));
+      return from === to
+        ? [caret]
+        : [
+            Decoration.mark({ attributes: { style: `background-color: ${selection.color}40` } }).range(from, to),
+            caret,
+          ];
+    });
+    view.dispatch({ effects: remoteDecorations.update.of(Decoration.set(ranges, true)) });
+  }, [remoteSelections]);
 
   return (
-    <div className="flex h-full bg-[var(--bg-primary)] relative font-mono text-base group/editor overflow-hidden">
+    <div className={cn("flex h-full bg-[var(--bg-primary)] relative font-mono text-base group/editor overflow-hidden", className)}>
       <style>{`
-        .token.comment { color: #928374; font-style: italic; }
-        .token.punctuation { color: #abb2bf; opacity: 0.8; }
-        .token.property, .token.tag, .token.boolean, .token.number { color: #d3869b; }
-        .token.string { color: #b8bb26; }
-        .token.operator, .token.keyword { color: #fb4934; font-weight: bold; }
-        .token.function { color: #fabd2f; }
-        .token.title.important { color: #fe8019; font-weight: bold; }
-        .token.bold { font-weight: bold; }
-        .token.italic { font-style: italic; }
-        
-        [data-theme="one-dark"] .token.comment { color: #5c6370; }
-        [data-theme="one-dark"] .token.string { color: #98c379; }
-        [data-theme="one-dark"] .token.keyword { color: #c678dd; }
-        [data-theme="one-dark"] .token.function { color: #61afef; }
-        [data-theme="one-dark"] .token.title.important { color: #e06c75; }
-
-        .editor-container pre { background-color: transparent !important; }
-        .editor-container textarea { caret-color: var(--accent-primary); }
-        
-        .no-horizontal-scrollbar::-webkit-scrollbar:horizontal {
-          display: none;
-        }
-        .no-horizontal-scrollbar {
-          scrollbar-width: none;
-          -ms-overflow-style: none;
-        }
+        .tok-comment { color: #928374; font-style: italic; }
+        .tok-mark { color: #abb2bf; opacity: 0.8; }
+        .tok-string { color: #b8bb26; }
+        .tok-keyword { color: #fb4934; font-weight: bold; }
+        .tok-link { color: #fabd2f; }
+        .tok-heading { color: #fe8019; font-weight: bold; }
+        .tok-strong { font-weight: bold; }
+        .tok-emphasis { font-style: italic; }
+        .tok-strikethrough { text-decoration: line-through; }
+
+        [data-theme="one-dark"] .tok-comment { color: #5c6370; }
+        [data-theme="one-dark"] .tok-string { color: #98c379; }
+        [data-theme="one-dark"] .tok-keyword { color: #c678dd; }
+        [data-theme="one-dark"] .tok-link { color: #61afef; }
+        [data-theme="one-dark"] .tok-heading { color: #e06c75; }
       `}</style>
 
       <button
@@ -159,50 +633,9 @@ export const CodeEditor = React.forwardRef<HTMLDivElement, CodeEditorProps>(({
         <WrapText className="w-4 h-4" />
       </button>
 
-      {!wordWrap && (
-        <div 
-          className="flex-shrink-0 flex flex-col items-end bg-[var(--bg-secondary)] text-[var(--fg-secondary)] select-none pt-4 pr-4 pl-2 text-right sticky left-0 z-20 border-r border-[var(--border-primary)] opacity-50 h-full overflow-hidden"
-          style={{ fontFamily: '"JetBrains Mono", monospace', fontSize: '1rem', lineHeight: '1.625', minWidth: '3.5rem' }}
-        >
-          {lines.map(line => <div key={line} className="hover:text-[var(--fg-primary)] transition-colors cursor-default">{line}</div>)}
-        </div>
-      )}
-
-      <div 
-        ref={ref}
-        onScroll={onScroll}
-        className="flex-1 min-w-0 relative editor-container overflow-y-auto overflow-x-auto custom-scrollbar no-horizontal-scrollbar h-full"
-      >
-        <div className="relative">
-          <SearchDecorations 
-            value={value} 
-            matches={matches} 
-            currentIndex={currentMatchIndex} 
-            wordWrap={wordWrap}
-          />
-
-          <Editor
-            ref={editorRef}
-            value={value}
-            onValueChange={onChange}
-            highlight={highlight}
-            padding={16}
-            className="font-mono text-base leading-relaxed relative z-10"
-            style={{
-              fontFamily: '"JetBrains Mono", monospace',
-              fontSize: '1rem',
-              lineHeight: '1.625',
-              backgroundColor: 'transparent',
-              color: 'var(--fg-primary)',
-              whiteSpace: wordWrap ? 'pre-wrap' : 'pre',
-              wordBreak: wordWrap ? 'break-word' : 'normal',
-            }}
-            textareaClassName="focus:outline-none z-10 selection:bg-[var(--accent-primary)]/30"
-          />
-        </div>
-      </div>
+      <div ref={hostRef} className="flex-1 min-w-0 h-full" />
     </div>
   );
 });
 
-CodeEditor.displayName = 'CodeEditor';
\ No newline at end of file
+CodeEditor.displayName = 'CodeEditor';
@@ -0,0 +1,204 @@
+import React, { useState } from "react";
+import { cn } from "../utils";
+import {
+  buildInviteUrl,
+  COLLAB_COLORS,
+  type CollabPeer,
+  type CollabSettings,
+} from "../lib/collab";
+import { COLLAB_TRANSPORTS, type CollabStatus, type CollabTransportId } from "../lib/collabTransports";
+import { Button, toast } from "./ui";
+import { Check, Copy, LogOut, Users, X } from "lucide-react";
+
+interface CollabModalProps {
+  settings: CollabSettings;
+  // Room of the active session, or of the invitation being accepted
+  room: string | null;
+  inSession: boolean;
+  status: CollabStatus;
+  peers: CollabPeer[];
+  onStart: (settings: CollabSettings) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-3 py-2 rounded text-xs outline-none focus:border-[var(--accent-primary)]";
+
+const labelClass =
+  "text-[10px] font-bold text-[var(--fg-secondary)] uppercase tracking-widest ml-1";
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  connecting: "Connecting…",
+  connected: "Connected",
+  disconnected: "Reconnecting…",
+};
+
+export const CollabModal: React.FC<CollabModalProps> = ({
+  settings: initialSettings,
+  room,
+  inSession,
+  status,
+  peers,
+  onStart,
+  onLeave,
+  onClose,
+}) => {
+  const [settings, setSettings] = useState(initialSettings);
+  const [copied, setCopied] = useState(false);
+
+  const update = <K extends keyof CollabSettings>(key: K, value: CollabSettings[K]) =>
+    setSettings((s) => ({ ...s, [key]: value }));
+
+  const handleStart = () => {
+    try {
+      const url = new URL(settings.serverUrl);
+      if (url.protocol !== "ws:" && url.protocol !== "wss:") throw new Error();
+    } catch {
+      toast.error("Enter a ws:// or wss:// server URL.");
+      return;
+    }
+    onStart(settings);
+  };
+
+  const inviteUrl = room && inSession ? buildInviteUrl(room, initialSettings) : "";
+
+  const copyInvite = async () => {
+    await navigator.clipboard.writeText(inviteUrl);
+    setCopied(true);
+    toast.success("Invite link copied!");
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-md z-[100] flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-[var(--bg-secondary)] border border-[var(--border-primary)] p-6 rounded-xl w-full max-w-md shadow-2xl animate-in zoom-in-95 duration-200 max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Users className="w-5 h-5 text-[var(--accent-primary)]" />
+            Collaborate
+          </h3>
+          <button onClick={onClose} className="text-[var(--fg-secondary)] hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {inSession ? (
+          <div className="flex flex-col gap-4">
+            <div className="flex items-center gap-2 text-xs">
+              <span
+                className={cn(
+                  "w-2 h-2 rounded-full",
+                  status === "connected" ? "bg-green-500" : "bg-yellow-500 animate-pulse"
+                )}
+              />
+              <span className="text-[var(--fg-secondary)]">{STATUS_LABELS[status]}</span>
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>Invite Link</label>
+              <div className="flex gap-2">
+                <input readOnly value={inviteUrl} className={cn(inputClass, "font-mono")} onFocus={(e) => e.target.select()} />
+                <Button variant="secondary" size="sm" onClick={copyInvite} title="Copy invite link">
+                  {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                </Button>
+              </div>
+              <p className="text-[10px] text-[var(--fg-secondary)] ml-1">
+                Anyone with this link can read and edit the document while the session is open.
+              </p>
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>Participants</label>
+              <div className="flex flex-col gap-1 text-xs">
+                <div className="flex items-center gap-2 px-1">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: initialSettings.color }} />
+                  {initialSettings.name.trim() || "Anonymous"}
+                  <span className="text-[var(--fg-secondary)]">(you)</span>
+                </div>
+                {peers.map((peer) => (
+                  <div key={peer.clientId} className="flex items-center gap-2 px-1">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: peer.color }} />
+                    {peer.name}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Button variant="secondary" className="w-full" onClick={onLeave}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave Session
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            {room && (
+              <p className="text-xs text-[var(--fg-secondary)]">
+                You were invited to a collaboration session. The shared document opens as a new file.
+              </p>
+            )}
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>Your Name</label>
+              <input
+                value={settings.name}
+                placeholder="Anonymous"
+                onChange={(e) => update("name", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>Cursor Color</label>
+              <div className="flex gap-2 ml-1">
+                {COLLAB_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => update("color", color)}
+                    title={color}
+                    className={cn(
+                      "w-6 h-6 rounded-full border-2 transition-transform",
+                      settings.color === color ? "border-white scale-110" : "border-transparent"
+                    )}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>Connection</label>
+              <select
+                value={settings.transport}
+                onChange={(e) => update("transport", e.target.value as CollabTransportId)}
+                className={inputClass}
+              >
+                {COLLAB_TRANSPORTS.map((transport) => (
+                  <option key={transport.id} value={transport.id}>
+                    {transport.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>
+                {settings.transport === "webrtc" ? "Signaling Server" : "Relay Server"}
+              </label>
+              <input
+                value={settings.serverUrl}
+                placeholder="ws://localhost:4444"
+                onChange={(e) => update("serverUrl", e.target.value)}
+                className={cn(inputClass, "font-mono")}
+              />
+              <p className="text-[10px] text-[var(--fg-secondary)] ml-1">
+                Run your own with <code className="font-mono">npm run relay</code>. It only forwards
+                messages and stores nothing.
+              </p>
+            </div>
+            <Button variant="primary" className="w-full mt-2" onClick={handleStart}>
+              <Users className="w-4 h-4 mr-2" />
+              {room ? "Join Session" : "Start Session"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
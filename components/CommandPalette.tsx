@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { cn } from "../utils";
+import { formatKeybinding, searchCommands, type Command } from "../lib/commands";
+import { Command as CommandIcon } from "lucide-react";
+
+interface CommandPaletteProps {
+  commands: Command[];
+  onClose: () => void;
+}
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Focus goes back where it was, so inserted snippets land in the editor
+  const returnFocusRef = useRef(document.activeElement as HTMLElement | null);
+
+  const results = useMemo(() => searchCommands(commands, query), [commands, query]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const close = () => {
+    returnFocusRef.current?.focus();
+    onClose();
+  };
+
+  const run = (command: Command | undefined) => {
+    if (!command) return;
+    close();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep the editor's shortcuts from firing while typing a query
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (results.length ? (i + 1) % results.length : 0));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => (results.length ? (i - 1 + results.length) % results.length : 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      run(results[activeIndex]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[110] flex justify-center items-start pt-[12vh] p-4 animate-in fade-in duration-150"
+      onMouseDown={close}
+    >
+      <div
+        className="bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-xl w-full max-w-xl shadow-2xl overflow-hidden flex flex-col max-h-[70vh] animate-in zoom-in-95 duration-150"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-[var(--border-primary)] shrink-0">
+          <CommandIcon className="w-4 h-4 text-[var(--accent-primary)] shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Type a command…"
+            className="flex-1 bg-transparent py-3 text-sm outline-none text-[var(--fg-primary)]"
+          />
+        </div>
+        <div ref={listRef} className="overflow-y-auto custom-scrollbar py-1">
+          {results.length === 0 && (
+            <p className="px-4 py-3 text-xs text-[var(--fg-secondary)]">No matching commands.</p>
+          )}
+          {results.map((command, index) => (
+            <button
+              key={command.id}
+              data-index={index}
+              onClick={() => run(command)}
+              onMouseMove={() => setActiveIndex(index)}
+              className={cn(
+                "w-full text-left px-4 py-2 text-sm flex items-center gap-3",
+                index === activeIndex
+                  ? "bg-[var(--bg-tertiary)] text-[var(--fg-primary)]"
+                  : "text-[var(--fg-secondary)]"
+              )}
+            >
+              <span className="truncate">
+                <span className="text-[var(--fg-secondary)] opacity-70">{command.category}: </span>
+                {command.title}
+              </span>
+              {command.keybindings?.[0] && (
+                <kbd className="ml-auto shrink-0 text-[10px] font-mono px-1.5 py-0.5 rounded border border-[var(--border-primary)] bg-[var(--bg-primary)] text-[var(--fg-secondary)]">
+                  {formatKeybinding(command.keybindings[0])}
+                </kbd>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from "react";
+import { cn } from "../utils";
+import {
+  createMessage,
+  isDetached,
+  loadCommentAuthor,
+  saveCommentAuthor,
+  type CommentMessage,
+  type CommentThread,
+} from "../lib/comments";
+import { ReplyLinkError } from "../lib/replyLinks";
+import { ReplyLinks } from "./ReplyLinks";
+import { Button, toast } from "./ui";
+import {
+  Check,
+  Link2,
+  Loader2,
+  MessageSquare,
+  RotateCcw,
+  Send,
+  Trash2,
+  X,
+} from "lucide-react";
+
+interface CommentsPanelProps {
+  threads: CommentThread[];
+  activeThreadId: string | null;
+  // Text selected for a new thread, waiting for its first comment
+  draft?: { quote: string } | null;
+  // Shown when there are no open threads
+  emptyMessage?: string;
+  onSelect: (id: string) => void;
+  onCreate?: (message: CommentMessage) => void;
+  onCancelDraft?: () => void;
+  onReply?: (threadId: string, message: CommentMessage) => void;
+  onToggleResolved?: (threadId: string) => void;
+  onDelete?: (threadId: string) => void;
+  // Viewers of a shared link send their comments back to the author as a link
+  feedbackCount?: number;
+  onCreateLink?: (author: string) => Promise<string[]>;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-2 py-1.5 rounded text-xs outline-none focus:border-[var(--accent-primary)]";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const Quote = ({ text, detached }: { text: string; detached?: boolean }) => (
+  <div className="border-l-2 border-[var(--accent-primary)]/60 pl-2 text-[11px] italic text-[var(--fg-secondary)] line-clamp-2 break-words">
+    {detached && (
+      <span className="not-italic font-bold text-red-400 mr-1">Text removed ·</span>
+    )}
+    {text}
+  </div>
+);
+
+/** Text box that submits with the button or Ctrl/Cmd+Enter. */
+const MessageInput = ({
+  placeholder,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}) => {
+  const [body, setBody] = useState("");
+  const submit = () => {
+    if (!body.trim()) return;
+    onSubmit(body.trim());
+    setBody("");
+  };
+  return (
+    <div className="flex flex-col gap-1.5">
+      <textarea
+        value={body}
+        autoFocus={autoFocus}
+        rows={2}
+        placeholder={placeholder}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            submit();
+          } else if (e.key === "Escape") {
+            onCancel?.();
+          }
+        }}
+        className={cn(inputClass, "resize-none custom-scrollbar")}
+      />
+      <div className="flex justify-end gap-1.5">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button variant="primary" size="sm" onClick={submit} disabled={!body.trim()}>
+          <Send className="w-3 h-3 mr-1.5" />
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  threads,
+  activeThreadId,
+  draft,
+  emptyMessage = "No comments yet. Select text in the editor or preview and choose Comment.",
+  onSelect,
+  onCreate,
+  onCancelDraft,
+  onReply,
+  onToggleResolved,
+  onDelete,
+  feedbackCount = 0,
+  onCreateLink,
+  onClose,
+}) => {
+  const [author, setAuthor] = useState(loadCommentAuthor);
+  const [showResolved, setShowResolved] = useState(false);
+  const [links, setLinks] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // A link made before further comments would leave them out
+  useEffect(() => setLinks([]), [threads]);
+
+  const ordered = [...threads].sort((a, b) => a.anchor.start - b.anchor.start);
+  const open = ordered.filter((thread) => !thread.resolved);
+  const resolved = ordered.filter((thread) => thread.resolved);
+
+  const updateAuthor = (name: string) => {
+    setAuthor(name);
+    saveCommentAuthor(name);
+    setLinks([]);
+  };
+
+  const handleCreateLink = async () => {
+    if (!onCreateLink) return;
+    setIsCreating(true);
+    try {
+      const created = await onCreateLink(author);
+      setLinks(created);
+      await navigator.clipboard.writeText(created.join("\n"));
+      toast.success(
+        created.length > 1
+          ? `Comments links copied (${created.length} parts)!`
+          : "Comments link copied!"
+      );
+    } catch (error) {
+      console.error("Failed to create comments link:", error);
+      toast.error(
+        error instanceof ReplyLinkError ? error.message : "Failed to create the comments link."
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const renderThread = (thread: CommentThread) => {
+    const isActive = thread.id === activeThreadId;
+    return (
+      <div
+        key={thread.id}
+        onClick={() => onSelect(thread.id)}
+        className={cn(
+          "p-3 rounded border flex flex-col gap-2 cursor-pointer transition-colors",
+          isActive
+            ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/5"
+            : "border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]/50",
+          thread.resolved && "opacity-70"
+        )}
+      >
+        <Quote text={thread.anchor.quote} detached={isDetached(thread)} />
+        {thread.messages.map((message) => (
+          <div key={message.id} className="text-xs">
+            <div className="flex items-baseline gap-2">
+              <span className="font-bold text-[var(--fg-primary)] truncate">{message.author}</span>
+              <span className="text-[10px] text-[var(--fg-secondary)] font-mono shrink-0">
+                {formatTime(message.createdAt)}
+              </span>
+            </div>
+            <p className="whitespace-pre-wrap break-words text-[var(--fg-primary)]/90 mt-0.5">
+              {message.body}
+            </p>
+          </div>
+        ))}
+        {onToggleResolved && onDelete && (
+          <div className="flex items-center gap-1 -mb-1" onClick={(e) => e.stopPropagation()}>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-[10px]"
+              onClick={() => onToggleResolved(thread.id)}
+            >
+              {thread.resolved ? (
+                <RotateCcw className="w-3 h-3 mr-1" />
+              ) : (
+                <Check className="w-3 h-3 mr-1" />
+              )}
+              {thread.resolved ? "Reopen" : "Resolve"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-[10px] ml-auto hover:text-red-500"
+              onClick={() => onDelete(thread.id)}
+              title="Delete thread"
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+        {onReply && isActive && !thread.resolved && (
+          <div onClick={(e) => e.stopPropagation()}>
+            <MessageInput
+              placeholder="Reply…"
+              onSubmit={(body) => onReply(thread.id, createMessage(author, body))}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <aside className="absolute top-0 right-0 h-full w-full sm:w-80 z-30 bg-[var(--bg-secondary)] border-l border-[var(--border-primary)] shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-[var(--border-primary)] shrink-0">
+        <h3 className="text-sm font-bold flex items-center gap-2">
+          <MessageSquare className="w-4 h-4 text-[var(--accent-primary)]" />
+          Comments
+          <span className="text-[10px] font-mono text-[var(--fg-secondary)]">{open.length}</span>
+        </h3>
+        <button onClick={onClose} className="text-[var(--fg-secondary)] hover:text-white">
+          <X size={18} />
+        </button>
+      </div>
+
+      {(onCreate || onReply) && (
+        <div className="px-4 py-2 border-b border-[var(--border-primary)] shrink-0">
+          <input
+            value={author}
+            placeholder="Your name"
+            onChange={(e) => updateAuthor(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 flex flex-col gap-2">
+        {draft && onCreate && (
+          <div className="p-3 rounded border border-[var(--accent-primary)] flex flex-col gap-2">
+            <Quote text={draft.quote} />
+            <MessageInput
+              autoFocus
+              placeholder="Add a comment…"
+              onSubmit={(body) => onCreate(createMessage(author, body))}
+              onCancel={onCancelDraft}
+            />
+          </div>
+        )}
+        {open.length === 0 && !draft && (
+          <p className="text-xs text-[var(--fg-secondary)] p-2">{emptyMessage}</p>
+        )}
+        {open.map(renderThread)}
+        {resolved.length > 0 && (
+          <button
+            onClick={() => setShowResolved(!showResolved)}
+            className="text-[10px] font-bold uppercase tracking-widest text-[var(--fg-secondary)] hover:text-[var(--fg-primary)] text-left px-1 py-2"
+          >
+            {showResolved ? "Hide" : "Show"} resolved ({resolved.length})
+          </button>
+        )}
+        {showResolved && resolved.map(renderThread)}
+      </div>
+
+      {onCreateLink && (
+        <div className="px-4 py-3 border-t border-[var(--border-primary)] shrink-0 flex flex-col gap-2">
+          {links.length > 0 && <ReplyLinks links={links} label="Comments" />}
+          <Button
+            variant="primary"
+            size="sm"
+            className="w-full"
+            onClick={handleCreateLink}
+            disabled={feedbackCount === 0 || isCreating}
+          >
+            {isCreating ? (
+              <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="w-3.5 h-3.5 mr-2" />
+            )}
+            Create Comments Link
+          </Button>
+          <p className="text-[10px] text-[var(--fg-secondary)]">
+            Send the link to the author; your comments and replies are added to their copy.
+          </p>
+        </div>
+      )}
+    </aside>
+  );
+};
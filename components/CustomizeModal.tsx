@@ -0,0 +1,345 @@
+import React, { useRef, useState } from "react";
+import { cn } from "../utils";
+import {
+  formatKeybinding,
+  keybindingFromEvent,
+  searchCommands,
+  type Command,
+  type KeybindingOverrides,
+} from "../lib/commands";
+import {
+  createSnippet,
+  exportSettingsFile,
+  mergeSnippets,
+  parseSettingsFile,
+  SettingsFileError,
+  type Snippet,
+} from "../lib/snippets";
+import { Button, toast } from "./ui";
+import { Download, Keyboard, Plus, RotateCcw, Trash2, Upload, X } from "lucide-react";
+
+interface CustomizeModalProps {
+  // Every command, with the keybindings currently in effect
+  commands: Command[];
+  keybindings: KeybindingOverrides;
+  snippets: Snippet[];
+  onChangeKeybindings: (keybindings: KeybindingOverrides) => void;
+  onChangeSnippets: (snippets: Snippet[]) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-3 py-2 rounded text-xs outline-none focus:border-[var(--accent-primary)]";
+
+const labelClass =
+  "text-[10px] font-bold text-[var(--fg-secondary)] uppercase tracking-widest ml-1";
+
+export const CustomizeModal: React.FC<CustomizeModalProps> = ({
+  commands,
+  keybindings,
+  snippets,
+  onChangeKeybindings,
+  onChangeSnippets,
+  onClose,
+}) => {
+  const [tab, setTab] = useState<"keybindings" | "snippets">("keybindings");
+  const [filter, setFilter] = useState("");
+  // Command waiting for its new shortcut
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [selectedSnippetId, setSelectedSnippetId] = useState(() => snippets[0]?.id ?? null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedSnippet = snippets.find((snippet) => snippet.id === selectedSnippetId);
+
+  const commandsUsing = (binding: string) =>
+    commands.filter((command) => command.keybindings?.includes(binding));
+
+  const setKeybinding = (id: string, bindings: string[] | null) => {
+    const next = { ...keybindings };
+    if (bindings) next[id] = bindings;
+    else delete next[id];
+    onChangeKeybindings(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The editor's shortcuts stay quiet while typing here
+    e.stopPropagation();
+    if (!recordingId) return;
+    e.preventDefault();
+    if (e.key === "Escape") {
+      setRecordingId(null);
+      return;
+    }
+    const binding = keybindingFromEvent(e);
+    if (!binding) return;
+    setKeybinding(recordingId, [binding]);
+    setRecordingId(null);
+  };
+
+  const updateSnippet = (id: string, fields: Partial<Snippet>) =>
+    onChangeSnippets(
+      snippets.map((snippet) => (snippet.id === id ? { ...snippet, ...fields } : snippet))
+    );
+
+  const handleAddSnippet = () => {
+    const snippet = createSnippet({ name: "New snippet", body: "${1:text}" });
+    onChangeSnippets([...snippets, snippet]);
+    setSelectedSnippetId(snippet.id);
+  };
+
+  const handleDeleteSnippet = (id: string) => {
+    const remaining = snippets.filter((snippet) => snippet.id !== id);
+    onChangeSnippets(remaining);
+    setSelectedSnippetId(remaining[0]?.id ?? null);
+    // A shortcut for the snippet would point at nothing
+    if (keybindings[`userSnippet:${id}`]) setKeybinding(`userSnippet:${id}`, null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportSettingsFile(keybindings, snippets)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "ghost-md-settings.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseSettingsFile(await file.text());
+      onChangeKeybindings({ ...keybindings, ...imported.keybindings });
+      onChangeSnippets(mergeSnippets(snippets, imported.snippets));
+      toast.success(
+        `Imported ${imported.snippets.length} snippets and ${
+          Object.keys(imported.keybindings).length
+        } keybindings.`
+      );
+    } catch (error) {
+      if (error instanceof SettingsFileError) {
+        toast.error(error.message);
+      } else {
+        console.error("Failed to import settings:", error);
+        toast.error("Failed to import settings.");
+      }
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-md z-[100] flex items-center justify-center p-4 animate-in fade-in duration-300"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-xl w-full max-w-3xl h-[80vh] shadow-2xl animate-in zoom-in-95 duration-200 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-[var(--border-primary)] shrink-0">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Keyboard className="w-5 h-5 text-[var(--accent-primary)]" />
+            Keybindings & Snippets
+          </h3>
+          <button onClick={onClose} className="text-[var(--fg-secondary)] hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-1 px-6 pt-3 border-b border-[var(--border-primary)] shrink-0">
+          {(["keybindings", "snippets"] as const).map((id) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={cn(
+                "px-3 py-2 text-xs font-bold uppercase tracking-wider border-b-2 -mb-[1px]",
+                tab === id
+                  ? "border-[var(--accent-primary)] text-[var(--accent-primary)]"
+                  : "border-transparent text-[var(--fg-secondary)] hover:text-[var(--fg-primary)]"
+              )}
+            >
+              {id}
+            </button>
+          ))}
+        </div>
+
+        {tab === "keybindings" ? (
+          <div className="flex-1 flex flex-col min-h-0">
+            <div className="px-6 py-3 shrink-0">
+              <input
+                value={filter}
+                placeholder="Filter commands…"
+                onChange={(e) => setFilter(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar px-6 pb-3">
+              {searchCommands(commands, filter).map((command) => {
+                const binding = command.keybindings?.[0];
+                const conflicts = binding
+                  ? commandsUsing(binding).filter((other) => other.id !== command.id)
+                  : [];
+                return (
+                  <div
+                    key={command.id}
+                    className="flex items-center gap-2 py-1.5 border-b border-[var(--border-primary)]/50 text-xs"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate">
+                        <span className="text-[var(--fg-secondary)] opacity-70">
+                          {command.category}:{" "}
+                        </span>
+                        {command.title}
+                      </div>
+                      {conflicts.length > 0 && (
+                        <div className="text-[10px] text-yellow-500 truncate">
+                          Also bound to {conflicts.map((other) => other.title).join(", ")}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => setRecordingId(recordingId === command.id ? null : command.id)}
+                      className={cn(
+                        "shrink-0 min-w-[7rem] text-[10px] font-mono px-2 py-1 rounded border",
+                        recordingId === command.id
+                          ? "border-[var(--accent-primary)] text-[var(--accent-primary)] animate-pulse"
+                          : "border-[var(--border-primary)] bg-[var(--bg-primary)] text-[var(--fg-secondary)] hover:border-[var(--accent-primary)]"
+                      )}
+                      title="Click, then press the new shortcut"
+                    >
+                      {recordingId === command.id
+                        ? "Press keys…"
+                        : binding
+                          ? formatKeybinding(binding)
+                          : "—"}
+                    </button>
+                    <button
+                      onClick={() => setKeybinding(command.id, [])}
+                      disabled={!binding}
+                      className="p-1 text-[var(--fg-secondary)] hover:text-red-500 disabled:opacity-30"
+                      title="Remove shortcut"
+                    >
+                      <X size={14} />
+                    </button>
+                    <button
+                      onClick={() => setKeybinding(command.id, null)}
+                      disabled={!keybindings[command.id]}
+                      className="p-1 text-[var(--fg-secondary)] hover:text-[var(--accent-primary)] disabled:opacity-30"
+                      title="Reset to default"
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="px-6 py-2 text-[10px] text-[var(--fg-secondary)] border-t border-[var(--border-primary)] shrink-0">
+              While typing, the text area's own keys (and Vim or Emacs keys) come first.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col md:flex-row min-h-0">
+            <div className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-[var(--border-primary)] flex flex-col max-h-48 md:max-h-none">
+              <div className="flex-1 overflow-y-auto custom-scrollbar p-2 flex flex-col gap-1">
+                {snippets.length === 0 && (
+                  <p className="text-xs text-[var(--fg-secondary)] p-2">No snippets yet.</p>
+                )}
+                {snippets.map((snippet) => (
+                  <button
+                    key={snippet.id}
+                    onClick={() => setSelectedSnippetId(snippet.id)}
+                    className={cn(
+                      "text-left px-3 py-2 rounded border text-xs truncate transition-colors",
+                      snippet.id === selectedSnippetId
+                        ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/10"
+                        : "border-transparent hover:bg-[var(--bg-tertiary)]"
+                    )}
+                  >
+                    {snippet.name || "Untitled"}
+                  </button>
+                ))}
+              </div>
+              <div className="p-2 border-t border-[var(--border-primary)] shrink-0">
+                <Button variant="secondary" size="sm" className="w-full" onClick={handleAddSnippet}>
+                  <Plus className="w-3.5 h-3.5 mr-2" />
+                  New Snippet
+                </Button>
+              </div>
+            </div>
+
+            {selectedSnippet ? (
+              <div className="flex-1 flex flex-col gap-3 p-4 min-w-0 min-h-0 overflow-y-auto custom-scrollbar">
+                <div className="flex flex-col gap-1.5">
+                  <label className={labelClass}>Name</label>
+                  <input
+                    value={selectedSnippet.name}
+                    onChange={(e) => updateSnippet(selectedSnippet.id, { name: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <label className={labelClass}>Description</label>
+                  <input
+                    value={selectedSnippet.description}
+                    onChange={(e) =>
+                      updateSnippet(selectedSnippet.id, { description: e.target.value })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex flex-col gap-1.5 flex-1 min-h-[10rem]">
+                  <label className={labelClass}>Body</label>
+                  <textarea
+                    value={selectedSnippet.body}
+                    onChange={(e) => updateSnippet(selectedSnippet.id, { body: e.target.value })}
+                    spellCheck={false}
+                    className={cn(inputClass, "flex-1 font-mono resize-none")}
+                  />
+                  <p className="text-[10px] text-[var(--fg-secondary)] opacity-70 ml-1">
+                    {"${1:service}"} marks a tab stop with its default text; Tab and Shift+Tab
+                    move between them after inserting, and {"${0}"} is where the cursor ends up.
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="self-start hover:text-red-500"
+                  onClick={() => handleDeleteSnippet(selectedSnippet.id)}
+                >
+                  <Trash2 className="w-3.5 h-3.5 mr-2" />
+                  Delete Snippet
+                </Button>
+              </div>
+            ) : (
+              <p className="flex-1 p-4 text-xs text-[var(--fg-secondary)]">
+                Snippets show up in the Guide and the command palette, and can have a shortcut.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 px-6 py-3 border-t border-[var(--border-primary)] shrink-0">
+          <input
+            type="file"
+            ref={importInputRef}
+            className="hidden"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="secondary" size="sm" onClick={() => importInputRef.current?.click()}>
+            <Upload className="w-3.5 h-3.5 mr-2" />
+            Import JSON
+          </Button>
+          <Button variant="secondary" size="sm" onClick={handleExport}>
+            <Download className="w-3.5 h-3.5 mr-2" />
+            Export JSON
+          </Button>
+          <span className="ml-auto text-[10px] text-[var(--fg-secondary)]">
+            Share the file so the whole team uses the same setup.
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
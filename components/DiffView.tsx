@@ -0,0 +1,423 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import type { ChangeObject } from "diff";
+import { cn } from "../utils";
+import {
+  countChanges,
+  diffMarkdownBlocks,
+  diffMarkdownLines,
+  type ChangeKind,
+  type LineSide,
+} from "../lib/diff";
+import { ImportError, IMPORT_ACCEPT, importFile } from "../lib/importers";
+import { readViewLink, ViewLinkError } from "../lib/viewLinks";
+import { loadActiveDocumentId, loadWorkspace, type WorkspaceDocument } from "../lib/workspace";
+import { DatabaseBlockedError } from "../lib/db";
+import { MarkdownRenderer } from "./MarkdownRenderer";
+import { Button, toast, ThemeToggle } from "./ui";
+import {
+  ArrowLeftRight,
+  ClipboardPaste,
+  Eye,
+  FileText,
+  FileUp,
+  GitCompare,
+  Link as LinkIcon,
+  Loader2,
+  PenLine,
+} from "lucide-react";
+
+export interface CompareSource {
+  label: string;
+  content: string;
+  // Set when the source is a workspace document
+  documentId?: string;
+}
+
+// Router state for opening the compare view pre-filled, e.g. from the viewer
+export interface DiffLocationState {
+  before?: CompareSource;
+  after?: CompareSource;
+}
+
+type SourceKind = "document" | "text" | "file" | "link";
+
+type DiffMode = "source" | "preview";
+
+const SOURCE_TABS: { kind: SourceKind; label: string; icon: React.ReactNode }[] = [
+  { kind: "document", label: "Draft", icon: <FileText size={12} /> },
+  { kind: "text", label: "Paste", icon: <ClipboardPaste size={12} /> },
+  { kind: "file", label: "File", icon: <FileUp size={12} /> },
+  { kind: "link", label: "Link", icon: <LinkIcon size={12} /> },
+];
+
+const KIND_STYLES: Record<ChangeKind, string> = {
+  unchanged: "",
+  added: "bg-green-500/10",
+  removed: "bg-red-500/10",
+  changed: "bg-yellow-500/10",
+};
+
+const BLOCK_STYLES: Record<ChangeKind, string> = {
+  unchanged: "border-transparent",
+  added: "border-green-500 bg-green-500/5",
+  removed: "border-red-500 bg-red-500/5 opacity-60",
+  changed: "border-yellow-500 bg-yellow-500/5",
+};
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-3 py-2 rounded text-xs outline-none focus:border-[var(--accent-primary)]";
+
+interface SourcePickerProps {
+  title: string;
+  source: CompareSource | null;
+  documents: WorkspaceDocument[];
+  initialKind: SourceKind;
+  onChange: (source: CompareSource) => void;
+}
+
+const SourcePicker: React.FC<SourcePickerProps> = ({
+  title,
+  source,
+  documents,
+  initialKind,
+  onChange,
+}) => {
+  const [kind, setKind] = useState<SourceKind>(initialKind);
+  const [text, setText] = useState("");
+  const [link, setLink] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const { markdown } = await importFile(file);
+      onChange({ label: file.name, content: markdown });
+    } catch (error) {
+      if (!(error instanceof ImportError)) console.error("Error reading file:", error);
+      toast.error(error instanceof ImportError ? error.message : "Failed to read file.");
+    }
+  };
+
+  const handleLoadLink = async () => {
+    setIsLoading(true);
+    try {
+      onChange({ label: "Shared link", content: await readViewLink(link.trim()) });
+    } catch (error) {
+      if (!(error instanceof ViewLinkError)) console.error("Error reading link:", error);
+      toast.error(error instanceof ViewLinkError ? error.message : "Failed to read the link.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 min-w-0">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] font-bold text-[var(--fg-secondary)] uppercase tracking-widest">
+          {title}
+        </span>
+        <div className="flex gap-1">
+          {SOURCE_TABS.map((tab) => (
+            <button
+              key={tab.kind}
+              onClick={() => setKind(tab.kind)}
+              className={cn(
+                "flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold border transition-colors",
+                kind === tab.kind
+                  ? "border-[var(--accent-primary)] text-[var(--accent-primary)] bg-[var(--accent-primary)]/10"
+                  : "border-[var(--border-primary)] text-[var(--fg-secondary)] hover:text-[var(--fg-primary)]"
+              )}
+            >
+              {tab.icon}
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {kind === "document" && (
+        <select
+          value={source?.documentId ?? ""}
+          onChange={(e) => {
+            const doc = documents.find((d) => d.id === e.target.value);
+            if (doc) onChange({ label: doc.fileName, content: doc.content, documentId: doc.id });
+          }}
+          className={inputClass}
+        >
+          <option value="" disabled>
+            Choose a document
+          </option>
+          {documents.map((doc) => (
+            <option key={doc.id} value={doc.id}>
+              {doc.fileName}
+            </option>
+          ))}
+        </select>
+      )}
+      {kind === "text" && (
+        <textarea
+          value={text}
+          placeholder="Paste markdown here"
+          onChange={(e) => {
+            setText(e.target.value);
+            onChange({ label: "Pasted text", content: e.target.value });
+          }}
+          className={cn(inputClass, "h-20 font-mono resize-y")}
+        />
+      )}
+      {kind === "file" && (
+        <>
+          <input
+            type="file"
+            ref={fileInputRef}
+            className="hidden"
+            accept={IMPORT_ACCEPT}
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleFile(e.target.files[0]);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="w-3.5 h-3.5 mr-2" />
+            Choose File
+          </Button>
+        </>
+      )}
+      {kind === "link" && (
+        <div className="flex gap-2">
+          <input
+            value={link}
+            placeholder="Paste a /view link"
+            onChange={(e) => setLink(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && link && handleLoadLink()}
+            className={cn(inputClass, "font-mono")}
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleLoadLink}
+            disabled={!link || isLoading}
+          >
+            {isLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : "Load"}
+          </Button>
+        </div>
+      )}
+
+      <p className="text-[10px] text-[var(--fg-secondary)] font-mono truncate">
+        {source
+          ? `${source.label} · ${source.content.split("\n").length} lines`
+          : "Nothing loaded"}
+      </p>
+    </div>
+  );
+};
+
+// Renders one side of a changed line, highlighting the words that differ
+const LineText: React.FC<{ side: LineSide; highlight: string }> = ({ side, highlight }) => (
+  <>
+    {side.words
+      ? side.words.map((word: ChangeObject<string>, index) => (
+          <span key={index} className={cn((word.added || word.removed) && highlight)}>
+            {word.value}
+          </span>
+        ))
+      : side.text || " "}
+  </>
+);
+
+const LineCell: React.FC<{ side: LineSide | null; kind: ChangeKind; isBefore: boolean }> = ({
+  side,
+  kind,
+  isBefore,
+}) => {
+  return (
+    <div className={cn("flex min-w-0", side ? KIND_STYLES[kind] : "bg-[var(--bg-secondary)]/60")}>
+      <span className="w-10 shrink-0 text-right pr-2 select-none opacity-40">
+        {side?.number}
+      </span>
+      <span className="flex-1 min-w-0 whitespace-pre-wrap break-all pr-2">
+        {side && (
+          <LineText
+            side={side}
+            highlight={isBefore ? "bg-red-500/40 rounded-sm" : "bg-green-500/40 rounded-sm"}
+          />
+        )}
+      </span>
+    </div>
+  );
+};
+
+export const DiffView: React.FC = () => {
+  const location = useLocation();
+  const initial = (location.state ?? {}) as DiffLocationState;
+  const [documents, setDocuments] = useState<WorkspaceDocument[]>([]);
+  const [before, setBefore] = useState<CompareSource | null>(initial.before ?? null);
+  const [after, setAfter] = useState<CompareSource | null>(initial.after ?? null);
+  const [mode, setMode] = useState<DiffMode>("source");
+
+  // The open draft is the default original
+  useEffect(() => {
+    loadWorkspace()
+      .then(({ documents }) => {
+        setDocuments(documents);
+        const active = documents.find((d) => d.id === loadActiveDocumentId()) ?? documents[0];
+        setBefore(
+          (current) =>
+            current ?? { label: active.fileName, content: active.content, documentId: active.id }
+        );
+      })
+      .catch((error) => {
+        console.error("Failed to open workspace:", error);
+        toast.error(
+          error instanceof DatabaseBlockedError
+            ? error.message
+            : "Failed to load your documents."
+        );
+      });
+  }, []);
+
+  const lines = useMemo(
+    () => (before && after ? diffMarkdownLines(before.content, after.content) : []),
+    [before, after]
+  );
+  const blocks = useMemo(
+    () =>
+      before && after && mode === "preview"
+        ? diffMarkdownBlocks(before.content, after.content)
+        : [],
+    [before, after, mode]
+  );
+  const stats = countChanges(mode === "source" ? lines : blocks);
+  const isIdentical = before && after && before.content === after.content;
+
+  const handleSwap = () => {
+    setBefore(after);
+    setAfter(before);
+  };
+
+  return (
+    <div className="flex flex-col h-screen overflow-hidden bg-[var(--bg-primary)]">
+      <header className="h-14 border-b border-[var(--border-primary)] bg-[var(--bg-primary)] flex items-center justify-between px-3 md:px-4 shrink-0">
+        <div className="flex items-center gap-2 min-w-0">
+          <img
+            src="https://icons.iconarchive.com/icons/microsoft/fluentui-emoji-3d/512/Ghost-3d-icon.png"
+            alt="GHOST.md"
+            className="w-6 h-6 md:w-8 md:h-8 object-contain hover:scale-110 transition-transform duration-200"
+          />
+          <h1 className="text-xs md:text-lg font-bold tracking-tight text-[var(--fg-primary)] truncate flex items-center gap-2">
+            GHOST.md
+            <span className="hidden xs:inline-block text-[8px] md:text-[10px] font-normal text-[var(--fg-secondary)] border border-[var(--border-primary)] px-1 rounded bg-[var(--bg-secondary)] whitespace-nowrap">
+              COMPARE
+            </span>
+          </h1>
+        </div>
+        <div className="flex gap-1.5 md:gap-2 items-center shrink-0">
+          <ThemeToggle />
+          <div className="h-6 w-[1px] bg-[var(--border-primary)] mx-0.5 md:mx-1 hidden xs:block" />
+          <Link to="/">
+            <Button variant="primary" size="sm" className="px-2 md:px-3">
+              <PenLine className="w-3.5 h-3.5 md:w-4 md:h-4 md:mr-2" />
+              <span className="hidden md:inline">Editor</span>
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <div className="border-b border-[var(--border-primary)] bg-[var(--bg-secondary)] p-3 md:p-4 shrink-0">
+        <div className="grid md:grid-cols-[1fr_auto_1fr] gap-3 md:gap-4 items-start">
+          <SourcePicker
+            title="Original"
+            source={before}
+            documents={documents}
+            initialKind="document"
+            onChange={setBefore}
+          />
+          <button
+            onClick={handleSwap}
+            className="self-center justify-self-center p-2 rounded hover:bg-[var(--bg-tertiary)] text-[var(--fg-secondary)] hover:text-[var(--accent-primary)]"
+            title="Swap sides"
+          >
+            <ArrowLeftRight size={16} />
+          </button>
+          <SourcePicker
+            title="Changed"
+            source={after}
+            documents={documents}
+            initialKind={initial.after ? "link" : "text"}
+            onChange={setAfter}
+          />
+        </div>
+      </div>
+
+      <div className="h-10 border-b border-[var(--border-primary)] px-3 md:px-4 flex items-center gap-3 shrink-0 text-xs">
+        <div className="flex gap-1">
+          <button
+            onClick={() => setMode("source")}
+            className={cn(
+              "flex items-center gap-1.5 px-2 py-1 rounded",
+              mode === "source" ? "text-[var(--accent-primary)] bg-[var(--bg-tertiary)]" : "text-[var(--fg-secondary)]"
+            )}
+          >
+            <GitCompare size={14} />
+            Markdown
+          </button>
+          <button
+            onClick={() => setMode("preview")}
+            className={cn(
+              "flex items-center gap-1.5 px-2 py-1 rounded",
+              mode === "preview" ? "text-[var(--accent-primary)] bg-[var(--bg-tertiary)]" : "text-[var(--fg-secondary)]"
+            )}
+          >
+            <Eye size={14} />
+            Preview
+          </button>
+        </div>
+        {before && after && (
+          <div className="flex gap-3 font-mono text-[10px] ml-auto">
+            <span className="text-green-500">+{stats.added} added</span>
+            <span className="text-red-500">-{stats.removed} removed</span>
+            <span className="text-yellow-500">~{stats.changed} changed</span>
+          </div>
+        )}
+      </div>
+
+      <main className="flex-1 overflow-auto custom-scrollbar">
+        {!before || !after ? (
+          <p className="p-8 text-center text-sm text-[var(--fg-secondary)]">
+            Choose both an original and a changed version to compare.
+          </p>
+        ) : isIdentical ? (
+          <p className="p-8 text-center text-sm text-[var(--fg-secondary)]">
+            Both versions are identical.
+          </p>
+        ) : mode === "source" ? (
+          <div className="font-mono text-xs py-2 min-w-[640px]">
+            {lines.map((row, index) => (
+              <div key={index} className="grid grid-cols-2 divide-x divide-[var(--border-primary)]">
+                <LineCell side={row.before} kind={row.kind} isBefore />
+                <LineCell side={row.after} kind={row.kind} isBefore={false} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <article className="max-w-3xl mx-auto w-full p-4 md:p-12 flex flex-col gap-1">
+            {blocks.map((block, index) => (
+              <div key={index} className={cn("border-l-4 pl-4 rounded-r-sm", BLOCK_STYLES[block.kind])}>
+                <MarkdownRenderer content={(block.after ?? block.before)!} />
+                {block.kind === "changed" && (
+                  <details className="mb-2 text-xs text-[var(--fg-secondary)]">
+                    <summary className="cursor-pointer select-none">Previous version</summary>
+                    <div className="opacity-60">
+                      <MarkdownRenderer content={block.before!} />
+                    </div>
+                  </details>
+                )}
+              </div>
+            ))}
+          </article>
+        )}
+      </main>
+    </div>
+  );
+};
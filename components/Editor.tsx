@@ -1,18 +1,134 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
-import { compressMarkdown, DEFAULT_MARKDOWN, cn, MAX_SHAREABLE_URL_LENGTH, shortenUrl } from "../utils";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import type * as Y from "yjs";
+import { DEFAULT_MARKDOWN, cn } from "../utils";
 import { MarkdownRenderer } from "./MarkdownRenderer";
-import { CodeEditor } from "./CodeEditor";
-import { Button, toast, ThemeToggle } from "./ui";
+import { CodeEditor, type CodeEditorHandle } from "./CodeEditor";
+import { ShareModal } from "./ShareModal";
+import { Sidebar } from "./Sidebar";
+import { PdfPageSetup } from "./PdfPageSetup";
+import { HistoryPanel } from "./HistoryPanel";
+import { CollabModal } from "./CollabModal";
+import { CommentsPanel } from "./CommentsPanel";
+import { SuggestionsPanel, type SuggestionItem } from "./SuggestionsPanel";
+import { CommandPalette } from "./CommandPalette";
+import { CustomizeModal } from "./CustomizeModal";
+import { TemplateGallery } from "./TemplateGallery";
+import { GlobalSearchPanel, type DocumentReplacement } from "./GlobalSearchPanel";
+import { buildStandaloneHtml } from "../lib/exportHtml";
+import { exportPdf, loadPdfSettings, savePdfSettings } from "../lib/exportPdf";
+import { exportDocx } from "../lib/exportDocx";
+import { ImportError, importFile } from "../lib/importers";
+import { insertImageAssets, isImageFile } from "../lib/assets";
+import {
+  BUNDLE_ACCEPT,
+  filesToEntries,
+  importBundle,
+  isZipFile,
+  readDroppedItems,
+  type BundleEntry,
+} from "../lib/bundleImport";
+import {
+  checkpointDocument,
+  labelRevision,
+  openHistory,
+  recordRevision,
+  type Revision,
+} from "../lib/history";
+import {
+  applyTextChange,
+  createRoomId,
+  getCollabPeers,
+  joinCollabSession,
+  loadCollabSettings,
+  parseInvite,
+  saveCollabSettings,
+  setLocalSelection,
+  type CollabPeer,
+  type CollabSession,
+  type CollabSettings,
+} from "../lib/collab";
+import type { CollabStatus } from "../lib/collabTransports";
+import {
+  CommentsLinkError,
+  createThread,
+  isDetached,
+  mergeFeedback,
+  parseCommentFeedback,
+  rebaseThreads,
+  type CommentFeedback,
+  type CommentMessage,
+  type CommentThread,
+} from "../lib/comments";
+import { DecryptionError } from "../lib/crypto";
+import {
+  openReply,
+  readReplyParams,
+  ReplyLinkError,
+  type ReplyParams,
+  type SealedReply,
+} from "../lib/replyLinks";
+import { getSourceSelection } from "../lib/commentHighlights";
+import {
+  applyKeybindings,
+  findCommandForEvent,
+  formatKeybinding,
+  loadKeybindings,
+  saveKeybindings,
+  type Command,
+  type KeybindingOverrides,
+} from "../lib/commands";
+import {
+  applyReplacements,
+  DEFAULT_SEARCH_OPTIONS,
+  findMatches,
+  SearchPatternError,
+  type SearchMatch,
+  type SearchOptions,
+} from "../lib/search";
+import { loadSnippets, saveSnippets, type Snippet } from "../lib/snippets";
+import { saveDocumentAsTemplate } from "../lib/templates";
+import {
+  EDITOR_KEYMAPS,
+  loadEditorKeymap,
+  saveEditorKeymap,
+  translateVimPattern,
+  type EditorKeymapId,
+  type SubstituteCommand,
+} from "../lib/editorKeymaps";
+import {
+  locateSuggestion,
+  parseSuggestionSet,
+  SuggestionsLinkError,
+  type SuggestionSet,
+} from "../lib/suggestions";
+import { Button, setTheme, THEMES, toast, ThemeToggle } from "./ui";
+import {
+  createDocument,
+  createFolder,
+  deleteDocument,
+  deleteFolder,
+  duplicateDocument,
+  loadActiveDocumentId,
+  loadWorkspace,
+  renameFolder,
+  sortDocuments,
+  storeActiveDocumentId,
+  updateDocument,
+  type WorkspaceDocument,
+  type WorkspaceFolder,
+} from "../lib/workspace";
+import { DatabaseBlockedError } from "../lib/db";
 import {
   Share2,
   Upload,
-  Copy,
   Eye,
   Edit3,
   X,
   Link as LinkIcon,
   Check,
   Search,
+  FileSearch,
   ChevronDown,
   ChevronRight,
   ChevronUp,
@@ -31,31 +147,46 @@ import {
   Terminal,
   Undo2,
   Redo2,
+  GitCompare,
+  History,
+  Replace,
   FolderOpen,
   Download,
   FileText,
   FileDown,
   FileText as PdfIcon,
+  FileCode,
+  FileType,
+  Loader2,
   Sigma,
   GitGraph,
   GripVertical,
-  AlertTriangle,
-  Clipboard,
-  Loader2,
+  PanelLeft,
+  Users,
+  MessageSquarePlus,
+  PencilLine,
+  Keyboard,
+  CaseSensitive,
+  CaseUpper,
+  WholeWord,
+  Regex,
+  ReplaceAll,
 } from "lucide-react";
 
-interface SearchState {
+interface SearchState extends SearchOptions {
   isOpen: boolean;
   searchTerm: string;
   replaceTerm: string;
-  matchCase: boolean;
   currentIndex: number;
-  results: { start: number; end: number }[];
+  results: SearchMatch[];
+  // Why the pattern can't be used, in regex mode
+  error: string | null;
 }
 
-type ExportFormat = "md" | "pdf";
+type ExportFormat = "md" | "pdf" | "html" | "docx";
 
-const STORAGE_KEY = "ghost-md-draft";
+// Shared by documents without comments, so opening one doesn't look like an edit
+const NO_COMMENTS: CommentThread[] = [];
 
 const MD_REFERENCE = [
   {
@@ -156,29 +287,89 @@ const MD_REFERENCE = [
 ];
 
 export const Editor: React.FC = () => {
-  // Initialize with saved draft or default
-  const [markdown, setMarkdown] = useState<string>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    return saved ? saved : DEFAULT_MARKDOWN;
-  });
+  // Content is loaded from the IndexedDB workspace once it opens
+  const [markdown, setMarkdown] = useState<string>("");
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const [documents, setDocuments] = useState<WorkspaceDocument[]>([]);
+  const [folders, setFolders] = useState<WorkspaceFolder[]>([]);
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   const [activeTab, setActiveTab] = useState<"edit" | "preview">("edit");
   const [isReferenceOpen, setIsReferenceOpen] = useState(false);
+  const [isGlobalSearchOpen, setIsGlobalSearchOpen] = useState(false);
+  // Match picked in another document, selected once that document is open
+  const pendingSelectionRef = useRef<{ documentId: string; start: number; end: number } | null>(
+    null
+  );
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isCustomizeOpen, setIsCustomizeOpen] = useState(false);
+  // Folder a document created from a template goes into, while the gallery is open
+  const [templateTarget, setTemplateTarget] = useState<{ folderId: string | null } | null>(null);
+  const [keybindings, setKeybindings] = useState(loadKeybindings);
+  const [snippets, setSnippets] = useState(loadSnippets);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [exportFormat, setExportFormat] = useState<ExportFormat>("md");
+  const [pdfSettings, setPdfSettings] = useState(loadPdfSettings);
+  const [isExporting, setIsExporting] = useState(false);
   const [fileName, setFileName] = useState("document");
-  const [shareUrl, setShareUrl] = useState("");
-  const [isUrlTooLarge, setIsUrlTooLarge] = useState(false);
-  const [isShortening, setIsShortening] = useState(false);
   const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [lastSavedTime, setLastSavedTime] = useState<Date>(new Date());
 
+  // Live collaboration session, bound to the document it was started or joined in
+  const [collab, setCollab] = useState<{ session: CollabSession; documentId: string } | null>(null);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus>("disconnected");
+  const [collabPeers, setCollabPeers] = useState<CollabPeer[]>([]);
+  const [collabSettings, setCollabSettings] = useState(loadCollabSettings);
+  // Room of an invitation that hasn't been accepted yet
+  const [collabInvite, setCollabInvite] = useState<string | null>(null);
+  const [isCollabOpen, setIsCollabOpen] = useState(false);
+  // Content and name last exchanged with the session; anything else is a local edit
+  const collabSyncedRef = useRef<{ markdown: string; fileName: string } | null>(null);
+
+  // Review threads of the open document, saved with it
+  const [comments, setComments] = useState<CommentThread[]>(NO_COMMENTS);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  // Selected range waiting for the first comment of a new thread
+  const [commentDraft, setCommentDraft] = useState<{ start: number; end: number } | null>(null);
+  // Selection in the preview, offered as a floating Comment button
+  const [previewSelection, setPreviewSelection] = useState<{
+    start: number;
+    end: number;
+    top: number;
+    left: number;
+  } | null>(null);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  // Content the thread anchors were last moved to, per document
+  const commentBaseRef = useRef<{ documentId: string | null; markdown: string }>({
+    documentId: null,
+    markdown: "",
+  });
+
+  // Comments or suggestions from a reader's link, waiting for their document
+  const [incomingReply, setIncomingReply] = useState<
+    | { type: "comments"; feedback: CommentFeedback }
+    | { type: "suggest"; set: SuggestionSet }
+    | null
+  >(null);
+  // Suggested changes from a reviewer's link, waiting to be accepted or rejected
+  const [suggestionSet, setSuggestionSet] = useState<SuggestionSet | null>(null);
+  // They are only shown and applied while their document is open
+  const suggestions = suggestionSet?.documentId === activeDocumentId ? suggestionSet : null;
+  const [activeSuggestionId, setActiveSuggestionId] = useState<string | null>(null);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  // Accepting the first suggestion of a link names the content before it
+  const suggestionsCheckpointRef = useRef(false);
+
   // Resize State
   const [splitRatio, setSplitRatio] = useState(50);
   const isResizing = useRef(false);
 
-  const editorScrollRef = useRef<HTMLDivElement>(null);
+  const codeEditorRef = useRef<CodeEditorHandle>(null);
   const previewScrollRef = useRef<HTMLDivElement>(null);
   const syncSourceRef = useRef<"editor" | "preview" | null>(null);
   const syncTimeoutRef = useRef<number | null>(null);
@@ -186,41 +377,282 @@ export const Editor: React.FC = () => {
 
   const dragCounter = useRef(0);
 
-  const historyRef = useRef<{ past: string[]; future: string[] }>({
-    past: [],
-    future: [],
+  // Persistent history of the open document; `head` is the revision the editor
+  // content was last recorded as, and moves with undo and redo
+  const historyRef = useRef<{ revisions: Revision[]; head: Revision | null }>({
+    revisions: [],
+    head: null,
   });
+  // Revisions are written one at a time so each one's parent is the previous head
+  const historyQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const [revisions, setRevisions] = useState<Revision[]>([]);
   // Initialize with current markdown value - this ref will be updated as markdown changes
   const lastSavedMarkdown = useRef<string>(markdown);
   const historyTimeoutRef = useRef<number | null>(null);
   const autoSaveTimeoutRef = useRef<number | null>(null);
 
+  const [editorKeymap, setEditorKeymap] = useState(loadEditorKeymap);
+  // Vim's mode, shown in the status bar
+  const [keymapMode, setKeymapMode] = useState<string | null>(null);
+
   const [searchState, setSearchState] = useState<SearchState>({
     isOpen: false,
     searchTerm: "",
     replaceTerm: "",
-    matchCase: false,
+    ...DEFAULT_SEARCH_OPTIONS,
     currentIndex: 0,
     results: [],
+    error: null,
   });
 
-  const editorWrapperRef = useRef<HTMLDivElement>(null);
+  const saveDocument = useCallback(
+    async (id: string, content: string, name: string, threads: CommentThread[]) => {
+      try {
+        const updated = await updateDocument(id, { content, fileName: name, comments: threads });
+        if (updated) {
+          setDocuments((docs) =>
+            sortDocuments(docs.map((d) => (d.id === id ? updated : d)))
+          );
+        }
+        setLastSavedTime(new Date());
+      } catch (error) {
+        console.error("Failed to save document:", error);
+        toast.error("Failed to save document.");
+      }
+    },
+    []
+  );
+
+  // Load Workspace
+  useEffect(() => {
+    loadWorkspace()
+      .then((workspace) => {
+        const remembered = loadActiveDocumentId();
+        const initial =
+          workspace.documents.find((d) => d.id === remembered) ||
+          [...workspace.documents].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+        setDocuments(workspace.documents);
+        setFolders(workspace.folders);
+        lastSavedMarkdown.current = initial.content;
+        setMarkdown(initial.content);
+        setComments(initial.comments ?? NO_COMMENTS);
+        setFileName(initial.fileName);
+        setActiveDocumentId(initial.id);
+        storeActiveDocumentId(initial.id);
+      })
+      .catch((error) => {
+        console.error("Failed to open workspace:", error);
+        toast.error(
+          error instanceof DatabaseBlockedError
+            ? error.message
+            : "Failed to open workspace. Changes will not be saved."
+        );
+        setMarkdown(DEFAULT_MARKDOWN);
+      });
+  }, []);
 
   // Auto-save Effect
   useEffect(() => {
+    if (!activeDocumentId) return;
+    const stored = documents.find((d) => d.id === activeDocumentId);
+    if (
+      stored &&
+      stored.content === markdown &&
+      stored.fileName === fileName &&
+      (stored.comments ?? NO_COMMENTS) === comments
+    ) {
+      return;
+    }
     if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
     autoSaveTimeoutRef.current = window.setTimeout(() => {
-      localStorage.setItem(STORAGE_KEY, markdown);
-      setLastSavedTime(new Date());
+      saveDocument(activeDocumentId, markdown, fileName, comments);
     }, 1000); // Debounce save every 1s
     return () => {
       if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
     };
-  }, [markdown]);
+  }, [markdown, fileName, comments, activeDocumentId, documents, saveDocument]);
+
+  // Switch the editor to another document, saving pending edits of the current one first
+  const activateDocument = useCallback(
+    (doc: WorkspaceDocument, flushCurrent = true) => {
+      if (autoSaveTimeoutRef.current) clearTimeout(autoSaveTimeoutRef.current);
+      if (historyTimeoutRef.current) clearTimeout(historyTimeoutRef.current);
+      if (flushCurrent && activeDocumentId && activeDocumentId !== doc.id) {
+        const stored = documents.find((d) => d.id === activeDocumentId);
+        if (
+          stored &&
+          (stored.content !== markdown ||
+            stored.fileName !== fileName ||
+            (stored.comments ?? NO_COMMENTS) !== comments)
+        ) {
+          saveDocument(activeDocumentId, markdown, fileName, comments);
+        }
+      }
+      historyRef.current = { revisions: [], head: null };
+      setRevisions([]);
+      lastSavedMarkdown.current = doc.content;
+      setMarkdown(doc.content);
+      setComments(doc.comments ?? NO_COMMENTS);
+      setActiveCommentId(null);
+      setCommentDraft(null);
+      setFileName(doc.fileName);
+      setActiveDocumentId(doc.id);
+      storeActiveDocumentId(doc.id);
+    },
+    [activeDocumentId, documents, markdown, fileName, comments, saveDocument]
+  );
+
+  // Load the version history of the open document
+  useEffect(() => {
+    if (!activeDocumentId) return;
+    let cancelled = false;
+    openHistory(activeDocumentId, lastSavedMarkdown.current)
+      .then(({ revisions, head }) => {
+        if (cancelled) return;
+        historyRef.current = { revisions, head };
+        setRevisions(revisions);
+      })
+      .catch((error) => console.error("Failed to load history:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeDocumentId]);
+
+  const handleOpenDocument = (id: string) => {
+    const doc = documents.find((d) => d.id === id);
+    if (!doc) {
+      toast.error("Linked document no longer exists.");
+    } else if (doc.id !== activeDocumentId) {
+      activateDocument(doc);
+    }
+  };
+
+  const handleCreateDocument = async (folderId: string | null) => {
+    try {
+      const doc = await createDocument({ folderId });
+      setDocuments((docs) => sortDocuments([...docs, doc]));
+      activateDocument(doc);
+    } catch (error) {
+      console.error("Failed to create document:", error);
+      toast.error("Failed to create document.");
+    }
+  };
+
+  const handleCreateFromTemplate = async (newFileName: string, content: string) => {
+    try {
+      const doc = await createDocument({
+        fileName: newFileName,
+        content,
+        folderId: templateTarget?.folderId ?? null,
+      });
+      setDocuments((docs) => sortDocuments([...docs, doc]));
+      activateDocument(doc);
+      setTemplateTarget(null);
+    } catch (error) {
+      console.error("Failed to create document:", error);
+      toast.error("Failed to create document.");
+    }
+  };
+
+  const handleSaveAsTemplate = async () => {
+    const name = window.prompt("Template name", fileName);
+    if (name === null) return;
+    try {
+      const template = await saveDocumentAsTemplate(name, markdown);
+      if (template) toast.success(`Saved template: ${template.name}`);
+    } catch (error) {
+      console.error("Failed to save template:", error);
+      toast.error("Failed to save template.");
+    }
+  };
+
+  const handleCreateFolder = async (parentId: string | null) => {
+    try {
+      const folder = await createFolder("New Folder", parentId);
+      setFolders((f) => [...f, folder]);
+    } catch (error) {
+      console.error("Failed to create folder:", error);
+      toast.error("Failed to create folder.");
+    }
+  };
+
+  const handleRenameDocument = async (id: string, name: string) => {
+    if (id === activeDocumentId) {
+      // The auto-save effect persists the new name with the content
+      setFileName(name);
+      return;
+    }
+    const updated = await updateDocument(id, { fileName: name });
+    if (updated) {
+      setDocuments((docs) =>
+        sortDocuments(docs.map((d) => (d.id === id ? updated : d)))
+      );
+    }
+  };
+
+  const handleRenameFolder = async (id: string, name: string) => {
+    const updated = await renameFolder(id, name);
+    if (updated) {
+      setFolders((f) => f.map((folder) => (folder.id === id ? updated : folder)));
+    }
+  };
+
+  const handleMoveDocument = async (id: string, folderId: string | null) => {
+    const updated = await updateDocument(id, { folderId });
+    if (updated) {
+      setDocuments((docs) =>
+        sortDocuments(docs.map((d) => (d.id === id ? updated : d)))
+      );
+    }
+  };
+
+  const handleDuplicateDocument = async (id: string) => {
+    if (id === activeDocumentId) {
+      await saveDocument(id, markdown, fileName, comments);
+    }
+    const copy = await duplicateDocument(id);
+    if (copy) {
+      setDocuments((docs) => sortDocuments([...docs, copy]));
+      toast.success(`Duplicated: ${copy.fileName}`);
+    }
+  };
+
+  // Keeps at least one document open after removals
+  const handleDocumentsRemoved = async (removedIds: string[]) => {
+    const remaining = documents.filter((d) => !removedIds.includes(d.id));
+    setDocuments(remaining);
+    if (activeDocumentId && !removedIds.includes(activeDocumentId)) return;
+    const next = remaining[0] || (await createDocument());
+    if (remaining.length === 0) setDocuments([next]);
+    activateDocument(next, false);
+  };
+
+  const handleDeleteDocument = async (id: string) => {
+    const doc = documents.find((d) => d.id === id);
+    if (!doc || !window.confirm(`Delete "${doc.fileName}"? This cannot be undone.`)) {
+      return;
+    }
+    await deleteDocument(id);
+    await handleDocumentsRemoved([id]);
+    toast.success(`Deleted: ${doc.fileName}`);
+  };
+
+  const handleDeleteFolder = async (id: string) => {
+    const folder = folders.find((f) => f.id === id);
+    if (
+      !folder ||
+      !window.confirm(`Delete folder "${folder.name}" and all of its documents?`)
+    ) {
+      return;
+    }
+    const removed = await deleteFolder(id, { documents, folders });
+    setFolders((f) => f.filter((item) => !removed.folderIds.includes(item.id)));
+    await handleDocumentsRemoved(removed.documentIds);
+  };
 
   const handleScroll = useCallback((source: "editor" | "preview") => {
     if (syncSourceRef.current && syncSourceRef.current !== source) return;
-    const editor = editorScrollRef.current;
+    const editor = codeEditorRef.current?.scrollDOM;
     const preview = previewScrollRef.current;
     if (!editor || !preview) return;
     syncSourceRef.current = source;
@@ -245,30 +677,241 @@ export const Editor: React.FC = () => {
     }, 50);
   }, []);
 
+  // Records `content` as a child of the current head revision
+  const recordHistory = useCallback((content: string, label: string | null = null) => {
+    const write = historyQueueRef.current.then(async () => {
+      const head = historyRef.current.head;
+      if (!head) return;
+      const revision = await recordRevision({
+        documentId: head.documentId,
+        content,
+        parentId: head.id,
+        label,
+      });
+      // The document may have been switched while writing
+      if (historyRef.current.head !== head) return;
+      historyRef.current = {
+        revisions: [...historyRef.current.revisions, revision],
+        head: revision,
+      };
+      setRevisions(historyRef.current.revisions);
+    });
+    historyQueueRef.current = write.catch((error) =>
+      console.error("Failed to record history:", error)
+    );
+    return historyQueueRef.current;
+  }, []);
+
   const pushToHistory = useCallback((value: string) => {
     if (value === lastSavedMarkdown.current) return;
-    historyRef.current.past.push(lastSavedMarkdown.current);
-    if (historyRef.current.past.length > 50) historyRef.current.past.shift();
-    historyRef.current.future = [];
     lastSavedMarkdown.current = value;
-  }, []);
+    recordHistory(value);
+  }, [recordHistory]);
 
-  const handleUndo = useCallback(() => {
-    if (historyRef.current.past.length === 0) return;
-    const previous = historyRef.current.past.pop()!;
-    historyRef.current.future.push(markdown);
-    lastSavedMarkdown.current = previous;
-    setMarkdown(previous);
-  }, [markdown]);
+  // Records edits still waiting for the history debounce
+  const flushHistory = useCallback(() => {
+    if (historyTimeoutRef.current) window.clearTimeout(historyTimeoutRef.current);
+    pushToHistory(markdown);
+    return historyQueueRef.current;
+  }, [markdown, pushToHistory]);
+
+  const moveHistoryHead = (revision: Revision) => {
+    historyRef.current.head = revision;
+    lastSavedMarkdown.current = revision.content;
+    setMarkdown(revision.content);
+  };
+
+  const handleUndo = useCallback(async () => {
+    await flushHistory();
+    const { revisions, head } = historyRef.current;
+    if (!head) return;
+    const byId = new Map(revisions.map((revision) => [revision.id, revision]));
+    const parentOf = (revision: Revision) =>
+      revision.parentId ? byId.get(revision.parentId) : undefined;
+    // Checkpoints can repeat their parent's content; skip to an actual change
+    let target = parentOf(head);
+    while (target && target.content === head.content) target = parentOf(target);
+    if (target) moveHistoryHead(target);
+  }, [flushHistory]);
 
   const handleRedo = useCallback(() => {
-    if (historyRef.current.future.length === 0) return;
-    const next = historyRef.current.future.pop()!;
-    historyRef.current.past.push(markdown);
-    lastSavedMarkdown.current = next;
-    setMarkdown(next);
+    // New edits start a branch; there is nothing to redo on top of them
+    if (markdown !== lastSavedMarkdown.current) return;
+    const { revisions, head } = historyRef.current;
+    if (!head) return;
+    const latestChildOf = (revision: Revision) =>
+      [...revisions].reverse().find((candidate) => candidate.parentId === revision.id);
+    let target = latestChildOf(head);
+    while (target && target.content === head.content) target = latestChildOf(target);
+    if (target) moveHistoryHead(target);
   }, [markdown]);
 
+  // Names the current content in the history, e.g. before a destructive action
+  const createCheckpoint = useCallback(
+    async (label: string) => {
+      await flushHistory();
+      const head = historyRef.current.head;
+      if (!head) return;
+      if (head.label) {
+        await recordHistory(head.content, label);
+        return;
+      }
+      try {
+        const labeled = await labelRevision(head, label);
+        if (historyRef.current.head !== head) return;
+        historyRef.current = {
+          revisions: historyRef.current.revisions.map((revision) =>
+            revision.id === labeled.id ? labeled : revision
+          ),
+          head: labeled,
+        };
+        setRevisions(historyRef.current.revisions);
+      } catch (error) {
+        console.error("Failed to create checkpoint:", error);
+      }
+    },
+    [flushHistory, recordHistory]
+  );
+
+  const handleRestoreRevision = async (revision: Revision) => {
+    await createCheckpoint("Before restore");
+    setMarkdown(revision.content);
+    pushToHistory(revision.content);
+    setIsHistoryOpen(false);
+    toast.success("Revision restored.");
+  };
+
+  const handleReplaceAll = async () => {
+    const { results } = searchState;
+    if (results.length === 0) return;
+    await createCheckpoint("Before Replace All");
+    const replaced = applyReplacements(markdown, results);
+    setMarkdown(replaced);
+    pushToHistory(replaced);
+    toast.success(`Replaced ${results.length} matches.`);
+  };
+
+  // The open document is searched with its unsaved edits
+  const searchableDocuments = useMemo(
+    () =>
+      documents.map((doc) => (doc.id === activeDocumentId ? { ...doc, content: markdown } : doc)),
+    [documents, activeDocumentId, markdown]
+  );
+
+  const handleOpenMatch = (documentId: string, start: number, end: number) => {
+    setActiveTab("edit");
+    if (documentId === activeDocumentId) {
+      codeEditorRef.current?.setSelection(start, end);
+      return;
+    }
+    const doc = documents.find((d) => d.id === documentId);
+    if (!doc) return;
+    pendingSelectionRef.current = { documentId, start, end };
+    activateDocument(doc);
+  };
+
+  // The editor has the new document's content by the time this runs
+  useEffect(() => {
+    const pending = pendingSelectionRef.current;
+    if (!pending || pending.documentId !== activeDocumentId) return;
+    pendingSelectionRef.current = null;
+    codeEditorRef.current?.setSelection(pending.start, pending.end);
+  }, [activeDocumentId, markdown]);
+
+  // Every changed document gets a checkpoint first, so each replacement can be undone
+  const handleReplaceInAllDocuments = async (replacements: DocumentReplacement[]) => {
+    const label = "Before Replace in All Documents";
+    let total = 0;
+    try {
+      for (const { documentId, content, count } of replacements) {
+        if (documentId === activeDocumentId) {
+          await createCheckpoint(label);
+          setMarkdown(content);
+          pushToHistory(content);
+        } else {
+          const stored = documents.find((d) => d.id === documentId);
+          if (!stored) continue;
+          const checkpoint = await checkpointDocument(documentId, stored.content, label);
+          await recordRevision({ documentId, content, parentId: checkpoint.id });
+          const updated = await updateDocument(documentId, { content });
+          if (updated) {
+            setDocuments((docs) =>
+              sortDocuments(docs.map((d) => (d.id === documentId ? updated : d)))
+            );
+          }
+        }
+        total += count;
+      }
+      toast.success(
+        `Replaced ${total} matches in ${replacements.length} ${
+          replacements.length === 1 ? "document" : "documents"
+        }.`
+      );
+    } catch (error) {
+      console.error("Failed to replace in all documents:", error);
+      toast.error(`Replace stopped after ${total} matches. Some documents were not changed.`);
+    }
+  };
+
+  // Vim's :s runs as a search & replace over its range of lines
+  const handleSubstitute = async (command: SubstituteCommand) => {
+    const { replacement, global, from, to, wholeDocument } = command;
+    const range = markdown.slice(from, to);
+    let source: string;
+    let ignoreCase: boolean;
+    let found: SearchMatch[];
+    try {
+      const translated = translateVimPattern(command.pattern);
+      source = translated.source;
+      ignoreCase = translated.ignoreCase ?? command.ignoreCase;
+      found = findMatches(range, source, replacement, {
+        ...DEFAULT_SEARCH_OPTIONS,
+        regex: true,
+        matchCase: !ignoreCase,
+      });
+    } catch (error) {
+      if (!(error instanceof SearchPatternError)) throw error;
+      toast.error(`Invalid pattern: ${error.message}`);
+      return;
+    }
+    setSearchState((s) => ({
+      ...s,
+      isOpen: true,
+      searchTerm: source,
+      replaceTerm: replacement,
+      regex: true,
+      wholeWord: false,
+      matchCase: !ignoreCase,
+      preserveCase: false,
+    }));
+
+    // Without the g flag only the first match on each line is replaced
+    const matches: SearchMatch[] = [];
+    const changedLines = new Set<number>();
+    let line = 0;
+    let position = 0;
+    for (const match of found) {
+      for (; position < match.start; position++) {
+        if (range[position] === "\n") line++;
+      }
+      if (!global && changedLines.has(line)) continue;
+      changedLines.add(line);
+      matches.push(match);
+    }
+
+    if (matches.length === 0) {
+      toast.error(`Pattern not found: ${command.pattern}`);
+    } else {
+      if (wholeDocument) await createCheckpoint("Before Replace All");
+      const replaced = applyReplacements(range, matches);
+      codeEditorRef.current?.replaceRange(from, to, replaced, from);
+      pushToHistory(markdown.slice(0, from) + replaced + markdown.slice(to));
+      toast.success(`${matches.length} substitutions on ${changedLines.size} lines.`);
+    }
+    // The search bar takes focus when it opens
+    setTimeout(() => codeEditorRef.current?.focus(), 0);
+  };
+
   const onMarkdownChange = useCallback((newVal: string) => {
     setMarkdown(newVal);
     if (historyTimeoutRef.current)
@@ -278,37 +921,26 @@ export const Editor: React.FC = () => {
     }, 500);
   }, [pushToHistory]);
 
-  const performSearch = useCallback(
-    (text: string, term: string, matchCase: boolean) => {
-      if (!term) return [];
-      try {
-        const regex = new RegExp(term, matchCase ? "g" : "gi");
-        const matches = [];
-        let match;
-        while ((match = regex.exec(text)) !== null) {
-          matches.push({
-            start: match.index,
-            end: match.index + match[0].length,
-          });
-          if (match.index === regex.lastIndex) regex.lastIndex++;
-        }
-        return matches;
-      } catch (e) {
-        return [];
-      }
-    },
-    []
-  );
+  const { searchTerm, replaceTerm, regex, wholeWord, matchCase, preserveCase } = searchState;
 
   useEffect(() => {
-    const results = performSearch(
-      markdown,
-      searchState.searchTerm,
-      searchState.matchCase
-    );
+    let results: SearchMatch[] = [];
+    let error: string | null = null;
+    try {
+      results = findMatches(markdown, searchTerm, replaceTerm, {
+        regex,
+        wholeWord,
+        matchCase,
+        preserveCase,
+      });
+    } catch (e) {
+      if (!(e instanceof SearchPatternError)) throw e;
+      error = e.message;
+    }
     setSearchState((s) => ({
       ...s,
       results,
+      error,
       currentIndex:
         results.length > 0
           ? s.currentIndex >= results.length
@@ -316,170 +948,585 @@ export const Editor: React.FC = () => {
             : s.currentIndex
           : 0,
     }));
-  }, [markdown, searchState.searchTerm, searchState.matchCase, performSearch]);
+  }, [markdown, searchTerm, replaceTerm, regex, wholeWord, matchCase, preserveCase]);
+
+  const moveToMatch = (step: number) =>
+    setSearchState((s) =>
+      s.results.length === 0
+        ? s
+        : { ...s, currentIndex: (s.currentIndex + step + s.results.length) % s.results.length }
+    );
+
+  // Replaces the current match as an edit in the editor, so it can be undone
+  const handleReplaceOne = () => {
+    const match = searchState.results[searchState.currentIndex];
+    if (!match) return;
+    codeEditorRef.current?.replaceRange(
+      match.start,
+      match.end,
+      match.replacement,
+      match.start + match.replacement.length
+    );
+    pushToHistory(applyReplacements(markdown, [match]));
+  };
 
   const insertSnippet = useCallback(
     (syntax: string, type: "wrap" | "line" | "block" = "wrap") => {
-      const textarea = editorWrapperRef.current?.querySelector("textarea");
-      if (!textarea) return;
-      const start = textarea.selectionStart;
-      const end = textarea.selectionEnd;
+      const editor = codeEditorRef.current;
+      if (!editor) return;
+      const { start, end } = editor.getSelection();
       const selection = markdown.substring(start, end);
-      let newContent = "";
+      // Text to put in place of [from, to), and where the cursor ends up
+      let from = start;
+      let to = end;
+      let text = "";
       let newCursorPos = 0;
       if (type === "wrap") {
         const parts = syntax.split("Text");
         const prefix = parts[0] || "";
         const suffix = parts[1] || "";
         const textToUse = selection || "text";
-        newContent =
-          markdown.substring(0, start) +
-          prefix +
-          textToUse +
-          suffix +
-          markdown.substring(end);
+        text = prefix + textToUse + suffix;
         newCursorPos = start + prefix.length + textToUse.length + suffix.length;
       } else if (type === "line") {
         const lineStart = markdown.lastIndexOf("\n", start - 1) + 1;
-        newContent =
-          markdown.substring(0, lineStart) +
-          syntax +
-          markdown.substring(lineStart);
+        from = to = lineStart;
+        text = syntax;
         newCursorPos =
           lineStart + syntax.length + (selection ? selection.length : 0);
       } else {
-        newContent =
-          markdown.substring(0, start) +
-          "\n" +
-          syntax +
-          "\n" +
-          markdown.substring(end);
+        text = "\n" + syntax + "\n";
         newCursorPos = start + syntax.length + 2;
       }
-      onMarkdownChange(newContent);
-      pushToHistory(newContent);
-      setTimeout(() => {
-        textarea.focus();
-        textarea.setSelectionRange(newCursorPos, newCursorPos);
-      }, 0);
+      editor.replaceRange(from, to, text, newCursorPos);
+      pushToHistory(markdown.substring(0, from) + text + markdown.substring(to));
     },
     [markdown, pushToHistory]
   );
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0;
-    const cmdKey = isMac ? e.metaKey : e.ctrlKey;
-    if (cmdKey && e.key === "z") {
-      e.preventDefault();
-      e.shiftKey ? handleRedo() : handleUndo();
+  const processFile = React.useCallback(
+    async (file: File) => {
+      try {
+        const { fileName: newFileName, markdown: text } = await importFile(file);
+        // Imported files become new documents instead of replacing the open one
+        const doc = await createDocument({ fileName: newFileName, content: text });
+        setDocuments((docs) => sortDocuments([...docs, doc]));
+        activateDocument(doc);
+        toast.success(`Imported: ${file.name}`);
+      } catch (error) {
+        if (error instanceof ImportError) {
+          toast.error(error.message);
+        } else {
+          console.error("Error importing file:", error);
+          toast.error("Failed to import file.");
+        }
+      }
+    },
+    [activateDocument]
+  );
+
+  // Several files, a directory or a .zip: imported together so links between them survive
+  const handleImportBundle = useCallback(
+    async (entries: BundleEntry[]) => {
+      try {
+        const result = await importBundle(entries);
+        if (result.documents.length === 0) {
+          toast.error("No markdown, HTML or DOCX files found.");
+          return;
+        }
+        setDocuments((docs) => sortDocuments([...docs, ...result.documents]));
+        setFolders((f) => [...f, ...result.folders]);
+        activateDocument(result.documents[0]);
+        const images = result.images ? ` and ${result.images} images` : "";
+        toast.success(`Imported ${result.documents.length} documents${images}.`);
+        if (result.skipped.length > 0) {
+          toast.error(`Skipped ${result.skipped.length} unsupported files.`);
+        }
+      } catch (error) {
+        console.error("Error importing files:", error);
+        toast.error("Failed to import files.");
+      }
+    },
+    [activateDocument]
+  );
+
+  const handleImportFiles = (files: File[]) => {
+    if (files.length === 1 && !isZipFile(files[0])) {
+      processFile(files[0]);
+    } else if (files.length > 0) {
+      handleImportBundle(filesToEntries(files));
     }
-    if (cmdKey && e.key === "y") {
-      e.preventDefault();
-      handleRedo();
+  };
+
+  // The compare view reads documents from storage, so pending edits are saved first
+  const handleOpenCompare = async () => {
+    if (activeDocumentId) await saveDocument(activeDocumentId, markdown, fileName, comments);
+    navigate("/diff");
+  };
+
+  // Invitations arrive as query parameters of the editor route
+  useEffect(() => {
+    const invite = parseInvite(searchParams);
+    if (!invite) return;
+    setCollabInvite(invite.room);
+    setCollabSettings((settings) => ({ ...settings, ...invite.settings }));
+    setIsCollabOpen(true);
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  // Takes the shared content and name as the local state
+  const pullCollabSession = (session: CollabSession, fallbackName: string) => {
+    const synced = {
+      markdown: session.text.toString(),
+      fileName: session.meta.get("fileName") || fallbackName,
+    };
+    collabSyncedRef.current = synced;
+    setMarkdown(synced.markdown);
+    setFileName(synced.fileName);
+    setCollabPeers(getCollabPeers(session));
+  };
+
+  const handleStartCollab = async (settings: CollabSettings) => {
+    saveCollabSettings(settings);
+    setCollabSettings(settings);
+    try {
+      if (collabInvite) {
+        const session = await joinCollabSession({
+          room: collabInvite,
+          settings,
+          onStatus: setCollabStatus,
+        });
+        // The shared document is kept as a new local file, once there is something to share
+        let doc: WorkspaceDocument;
+        try {
+          doc = await createDocument({ fileName: "Shared document" });
+        } catch (error) {
+          session.leave();
+          throw error;
+        }
+        setDocuments((docs) => sortDocuments([...docs, doc]));
+        activateDocument(doc);
+        pullCollabSession(session, doc.fileName);
+        setCollab({ session, documentId: doc.id });
+        setCollabInvite(null);
+        toast.success("Joined the collaboration session.");
+      } else if (activeDocumentId) {
+        const session = await joinCollabSession({
+          room: createRoomId(),
+          settings,
+          initial: { content: markdown, fileName },
+          onStatus: setCollabStatus,
+        });
+        pullCollabSession(session, fileName);
+        setCollab({ session, documentId: activeDocumentId });
+        toast.success("Session started. Share the invite link to collaborate.");
+      }
+    } catch (error) {
+      console.error("Failed to start collaboration:", error);
+      toast.error("Failed to connect to the collaboration server.");
     }
-    if (cmdKey && e.key === "f") {
-      e.preventDefault();
-      setSearchState((s) => ({ ...s, isOpen: true }));
+  };
+
+  // Follow the session while it lasts and leave it when it ends
+  useEffect(() => {
+    if (!collab) return;
+    const { session } = collab;
+
+    const handleTextChange = (_event: Y.YTextEvent, transaction: Y.Transaction) => {
+      if (transaction.local) return;
+      pullCollabSession(session, collabSyncedRef.current?.fileName ?? "");
+    };
+    const handleMetaChange = (_event: Y.YMapEvent<string>, transaction: Y.Transaction) => {
+      if (!transaction.local) pullCollabSession(session, collabSyncedRef.current?.fileName ?? "");
+    };
+    const handlePresenceChange = () => setCollabPeers(getCollabPeers(session));
+
+    session.text.observe(handleTextChange);
+    session.meta.observe(handleMetaChange);
+    session.awareness.on("change", handlePresenceChange);
+    // Catch up on anything that arrived before the observers
+    pullCollabSession(session, collabSyncedRef.current?.fileName ?? "");
+    return () => {
+      session.text.unobserve(handleTextChange);
+      session.meta.unobserve(handleMetaChange);
+      session.awareness.off("change", handlePresenceChange);
+      session.leave();
+      collabSyncedRef.current = null;
+      setCollabPeers([]);
+      setCollabStatus("disconnected");
+    };
+  }, [collab]);
+
+  // Local edits (typing, undo, snippets, replace, restore...) go into the shared document
+  useEffect(() => {
+    const synced = collabSyncedRef.current;
+    if (!collab || !synced) return;
+    if (markdown !== synced.markdown) {
+      applyTextChange(collab.session.text, markdown);
+      synced.markdown = markdown;
+      setCollabPeers(getCollabPeers(collab.session));
     }
-    if (cmdKey && e.key === "o") {
-      e.preventDefault();
-      fileInputRef.current?.click();
+    if (fileName !== synced.fileName) {
+      collab.session.meta.set("fileName", fileName);
+      synced.fileName = fileName;
     }
-    if (cmdKey && e.key === "s") {
-      e.preventDefault();
-      setIsExportModalOpen(true);
+  }, [collab, markdown, fileName]);
+
+  // A session belongs to one document; switching documents leaves it
+  useEffect(() => {
+    if (collab && collab.documentId !== activeDocumentId) {
+      setCollab(null);
+      toast.success("Left the collaboration session.");
     }
-  };
+  }, [collab, activeDocumentId]);
 
-  const processFile = React.useCallback(
-    (file: File) => {
-      if (file && (file.name.endsWith(".md") || file.name.endsWith(".txt"))) {
-        const reader = new FileReader();
-        reader.onload = (ev) => {
-          try {
-            const text = ev.target?.result as string;
-            if (text !== null && text !== undefined && text.length >= 0) {
-              // Update all state synchronously to prevent hook order issues
-              const newFileName = file.name.replace(/\.[^/.]+$/, "");
-              
-              // Clear history first
-              historyRef.current = { past: [], future: [] };
-              
-              // Update refs
-              lastSavedMarkdown.current = text;
-              
-              // Update state - all in one batch
-              setFileName(newFileName);
-              setMarkdown(text);
-              
-              // Show success message
-              toast.success(`Imported: ${file.name}`);
-            }
-          } catch (error) {
-            console.error("Error processing file:", error);
-            toast.error("Failed to process file.");
-          }
-        };
-        reader.onerror = () => {
-          toast.error("Failed to read file.");
-        };
-        reader.readAsText(file);
-      } else {
-        toast.error("Invalid file type.");
-      }
+  const handleCollabSelection = useCallback(
+    (selection: { anchor: number; head: number }) => {
+      if (collab) setLocalSelection(collab.session, selection);
     },
-    [] // No dependencies - function is stable
+    [collab]
   );
 
-  const handleShare = async () => {
-    const compressed = compressMarkdown(markdown);
-    const generatedUrl = `${window.location.origin}/#/view?c=${compressed}`;
-    
-    if (generatedUrl.length > MAX_SHAREABLE_URL_LENGTH) {
-      // URL is too long - try to shorten it
-      setIsShortening(true);
-      setIsShareModalOpen(true);
-      
+  // Thread anchors follow every change of the open document's text
+  useEffect(() => {
+    const base = commentBaseRef.current;
+    if (base.documentId === activeDocumentId && base.markdown !== markdown) {
+      setComments((threads) => rebaseThreads(threads, base.markdown, markdown));
+    }
+    commentBaseRef.current = { documentId: activeDocumentId, markdown };
+  }, [markdown, activeDocumentId]);
+
+  // Open threads whose text still exists are marked in the editor and preview
+  const commentRanges = useMemo(
+    () =>
+      comments
+        .filter((thread) => !thread.resolved && !isDetached(thread))
+        .map((thread) => ({ id: thread.id, start: thread.anchor.start, end: thread.anchor.end })),
+    [comments]
+  );
+
+  const startComment = (range: { start: number; end: number }) => {
+    setCommentDraft(range);
+    setActiveCommentId(null);
+    setPreviewSelection(null);
+    setIsReferenceOpen(false);
+    setIsGlobalSearchOpen(false);
+    setIsSuggestionsOpen(false);
+    setIsCommentsOpen(true);
+  };
+
+  // Starts a thread on the text selected in the editor, or just shows the threads
+  const handleCommentButton = () => {
+    const selection = codeEditorRef.current?.getSelection();
+    if (selection && selection.start !== selection.end) {
+      startComment(selection);
+    } else {
+      setIsReferenceOpen(false);
+      setIsGlobalSearchOpen(false);
+      setIsSuggestionsOpen(false);
+      setIsCommentsOpen(true);
+    }
+  };
+
+  const handlePreviewMouseUp = () => {
+    const container = previewScrollRef.current;
+    const range = container && getSourceSelection(container, markdown);
+    if (!range || range.end <= range.start) {
+      setPreviewSelection(null);
+      return;
+    }
+    const rect = window.getSelection()!.getRangeAt(0).getBoundingClientRect();
+    setPreviewSelection({ ...range, top: rect.bottom + 6, left: rect.left + rect.width / 2 });
+  };
+
+  // The floating button goes away with the selection it was offered for
+  useEffect(() => {
+    if (!previewSelection) return;
+    const handleSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setPreviewSelection(null);
+    };
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => document.removeEventListener("selectionchange", handleSelectionChange);
+  }, [previewSelection]);
+
+  const handleCreateThread = (message: CommentMessage) => {
+    if (!commentDraft) return;
+    const thread = createThread(markdown, commentDraft.start, commentDraft.end, message);
+    setComments((threads) => [...threads, thread]);
+    setActiveCommentId(thread.id);
+    setCommentDraft(null);
+  };
+
+  const updateThread = (id: string, update: (thread: CommentThread) => CommentThread) =>
+    setComments((threads) => threads.map((thread) => (thread.id === id ? update(thread) : thread)));
+
+  const handleDeleteThread = (id: string) => {
+    if (!window.confirm("Delete this comment thread?")) return;
+    setComments((threads) => threads.filter((thread) => thread.id !== id));
+    if (activeCommentId === id) setActiveCommentId(null);
+  };
+
+  const handleSelectComment = (id: string) => {
+    setActiveCommentId(id);
+    setIsReferenceOpen(false);
+    setIsGlobalSearchOpen(false);
+    setIsSuggestionsOpen(false);
+    setIsCommentsOpen(true);
+    previewScrollRef.current
+      ?.querySelector(`[data-comment-id="${id}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  // Reads a reply link, asking for the passphrase or key when the link needs one
+  const unsealReply = async (reply: SealedReply): Promise<string | null> => {
+    let secret = reply.key;
+    for (;;) {
+      if (reply.kind !== "c" && !secret) {
+        const entered = window.prompt(
+          reply.kind === "e"
+            ? "This link is protected. Enter the passphrase you shared the document with."
+            : "This link does not include its key. Paste the key or the full link."
+        );
+        if (entered === null) return null;
+        // Accept a full link that still has its fragment
+        secret =
+          reply.kind === "x" && entered.includes("#")
+            ? entered.slice(entered.lastIndexOf("#") + 1)
+            : entered;
+      }
       try {
-        const shortUrl = await shortenUrl(generatedUrl);
-        setShareUrl(shortUrl);
-        setIsUrlTooLarge(false);
-        toast.success("Short link generated!");
+        return await openReply(reply, secret);
       } catch (error) {
-        console.error("Failed to shorten URL:", error);
-        setShareUrl(generatedUrl);
-        setIsUrlTooLarge(true);
-        // URL too large even for shortener - show fallback options
-        toast.error("Document too large for URL sharing");
-      } finally {
-        setIsShortening(false);
+        if (!(error instanceof DecryptionError) || error.reason !== "wrong-passphrase") throw error;
+        toast.error("Incorrect passphrase. Please try again.");
+        secret = "";
       }
-    } else {
-      // URL is short enough to use directly
-      setShareUrl(generatedUrl);
-      setIsUrlTooLarge(false);
-      setIsShareModalOpen(true);
-      toast.success("Sharable link generated!");
     }
   };
 
-  const handleExport = () => {
+  // Comments and suggestions links arrive as query parameters of the editor route
+  useEffect(() => {
+    let params: ReplyParams | null;
+    try {
+      params = readReplyParams(searchParams, location.hash.replace(/^#/, ""));
+    } catch (error) {
+      toast.error(
+        error instanceof ReplyLinkError ? error.message : "This link could not be opened."
+      );
+      setSearchParams({}, { replace: true });
+      return;
+    }
+    if (!params) return;
+    setSearchParams({}, { replace: true });
+    if (params.status === "partial") {
+      toast.success(`Received ${params.received} of ${params.total} parts. Open the other links.`);
+      return;
+    }
+    const { reply } = params;
+    unsealReply(reply)
+      .then((json) => {
+        if (json === null) return;
+        setIncomingReply(
+          reply.type === "comments"
+            ? { type: "comments", feedback: parseCommentFeedback(json) }
+            : { type: "suggest", set: parseSuggestionSet(json) }
+        );
+      })
+      .catch((error) => {
+        console.error("Failed to open link:", error);
+        toast.error(
+          error instanceof ReplyLinkError ||
+            error instanceof DecryptionError ||
+            error instanceof CommentsLinkError ||
+            error instanceof SuggestionsLinkError
+            ? error.message
+            : "This link could not be opened."
+        );
+      });
+    // Runs for a new link only
+  }, [searchParams, setSearchParams]);
+
+  // A reply goes to the document it was shared from, opening it if needed, once
+  // the workspace has loaded
+  useEffect(() => {
+    if (!incomingReply || !activeDocumentId) return;
+    const { documentId } =
+      incomingReply.type === "comments" ? incomingReply.feedback : incomingReply.set;
+    if (documentId !== activeDocumentId) {
+      const target = documents.find((doc) => doc.id === documentId);
+      if (target) {
+        activateDocument(target);
+        return;
+      }
+      if (
+        !window.confirm(
+          `This link is for a document that isn't in this workspace. ` +
+            `Add it to "${fileName}" anyway?`
+        )
+      ) {
+        setIncomingReply(null);
+        return;
+      }
+    }
+    setIncomingReply(null);
+    setIsReferenceOpen(false);
+    setIsGlobalSearchOpen(false);
+
+    if (incomingReply.type === "suggest") {
+      setSuggestionSet({ ...incomingReply.set, documentId: activeDocumentId });
+      setActiveSuggestionId(null);
+      suggestionsCheckpointRef.current = false;
+      setIsCommentsOpen(false);
+      setIsSuggestionsOpen(true);
+      return;
+    }
+
+    const { feedback } = incomingReply;
+    const { threads, added } = mergeFeedback(comments, feedback.threads, markdown);
+    setComments(threads);
+    setActiveCommentId(null);
+    setIsSuggestionsOpen(false);
+    setIsCommentsOpen(true);
+    toast.success(
+      added > 0
+        ? `Added ${added} ${added === 1 ? "comment" : "comments"} from ${feedback.author}.`
+        : "These comments were already added."
+    );
+    // Applied once; the document's own changes don't bring it back
+  }, [incomingReply, activeDocumentId]);
+
+  // Each suggestion is found again in the current content
+  const suggestionRanges = useMemo(
+    () =>
+      new Map(
+        (suggestions?.suggestions ?? []).map((suggestion) => [
+          suggestion.id,
+          locateSuggestion(markdown, suggestion),
+        ])
+      ),
+    [suggestions, markdown]
+  );
+
+  const suggestionItems = useMemo<SuggestionItem[]>(
+    () =>
+      (suggestions?.suggestions ?? []).map((suggestion) => {
+        const range = suggestionRanges.get(suggestion.id);
+        return {
+          id: suggestion.id,
+          context: range
+            ? markdown.slice(Math.max(0, range.start - 40), range.start)
+            : suggestion.anchor.prefix,
+          remove: suggestion.anchor.quote,
+          insert: suggestion.insert,
+          missing: !range,
+        };
+      }),
+    [suggestions, suggestionRanges, markdown]
+  );
+
+  const removeSuggestions = (ids: Set<string>) => {
+    if (!suggestions) return;
+    const remaining = suggestions.suggestions.filter((suggestion) => !ids.has(suggestion.id));
+    if (remaining.length > 0) {
+      setSuggestionSet({ ...suggestions, suggestions: remaining });
+      return;
+    }
+    setSuggestionSet(null);
+    setIsSuggestionsOpen(false);
+    toast.success("All suggestions reviewed.");
+  };
+
+  const acceptSuggestions = async (ids: string[]) => {
+    if (!suggestions) return;
+    // Applied from the end of the document so earlier offsets stay valid
+    const accepted = suggestions.suggestions
+      .filter((suggestion) => ids.includes(suggestion.id) && suggestionRanges.get(suggestion.id))
+      .sort((a, b) => suggestionRanges.get(b.id)!.start - suggestionRanges.get(a.id)!.start);
+    if (accepted.length === 0) return;
+    if (!suggestionsCheckpointRef.current) {
+      await createCheckpoint("Before accepting suggestions");
+      suggestionsCheckpointRef.current = true;
+    }
+    const updated = accepted.reduce((text, suggestion) => {
+      const { start, end } = suggestionRanges.get(suggestion.id)!;
+      return text.slice(0, start) + suggestion.insert + text.slice(end);
+    }, markdown);
+    setMarkdown(updated);
+    pushToHistory(updated);
+    removeSuggestions(new Set(accepted.map((suggestion) => suggestion.id)));
+  };
+
+  const handleSelectSuggestion = (id: string) => {
+    setActiveSuggestionId(id);
+    const range = suggestionRanges.get(id);
+    if (!range) return;
+    setActiveTab("edit");
+    codeEditorRef.current?.setSelection(range.start, range.end);
+  };
+
+  const handleRejectAllSuggestions = () => {
+    const count = suggestions?.suggestions.length ?? 0;
+    if (!window.confirm(`Reject all ${count} remaining suggestions?`)) return;
+    setSuggestionSet(null);
+    setActiveSuggestionId(null);
+    setIsSuggestionsOpen(false);
+  };
+
+  const downloadBlob = (blob: Blob, extension: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${fileName.trim() || "document"}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = async () => {
     if (exportFormat === "md") {
-      const blob = new Blob([markdown], { type: "text/markdown" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `${fileName.trim() || "document"}.md`;
-      link.click();
-      URL.revokeObjectURL(url);
+      downloadBlob(new Blob([markdown], { type: "text/markdown" }), "md");
       setIsExportModalOpen(false);
       toast.success("File exported!");
+    } else if (exportFormat === "html") {
+      const preview = document.getElementById("preview-content");
+      if (!preview) return;
+      try {
+        const html = await buildStandaloneHtml(preview, fileName.trim() || "document");
+        downloadBlob(new Blob([html], { type: "text/html" }), "html");
+        setIsExportModalOpen(false);
+        toast.success("File exported!");
+      } catch (error) {
+        console.error("HTML export failed:", error);
+        toast.error("Failed to export HTML.");
+      }
+    } else if (exportFormat === "docx") {
+      setIsExporting(true);
+      try {
+        const docx = await exportDocx(markdown, fileName.trim() || "document");
+        downloadBlob(docx, "docx");
+        setIsExportModalOpen(false);
+        toast.success("File exported!");
+      } catch (error) {
+        console.error("DOCX export failed:", error);
+        toast.error("Failed to export DOCX.");
+      } finally {
+        setIsExporting(false);
+      }
     } else if (exportFormat === "pdf") {
-      setIsExportModalOpen(false);
-      setTimeout(() => {
-        window.print();
-        toast.success("Opening print dialog for PDF generation...");
-      }, 500);
+      const preview = document.getElementById("preview-content");
+      if (!preview) return;
+      setIsExporting(true);
+      try {
+        savePdfSettings(pdfSettings);
+        const pdf = await exportPdf(preview, fileName.trim() || "document", pdfSettings);
+        downloadBlob(pdf, "pdf");
+        setIsExportModalOpen(false);
+        toast.success("File exported!");
+      } catch (error) {
+        console.error("PDF export failed:", error);
+        toast.error("Failed to export PDF.");
+      } finally {
+        setIsExporting(false);
+      }
     }
   };
 
@@ -516,9 +1563,30 @@ export const Editor: React.FC = () => {
     e.stopPropagation();
     setIsDraggingFile(false);
     dragCounter.current = 0;
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      processFile(e.dataTransfer.files[0]);
-    }
+    const readEntries = readDroppedItems(e.dataTransfer);
+    readEntries()
+      .then((entries) => {
+        const images = entries.map((entry) => entry.file).filter(isImageFile);
+        const isLooseImages =
+          images.length > 0 &&
+          images.length === entries.length &&
+          entries.every((entry) => !entry.path.includes("/"));
+        if (isLooseImages) {
+          // Images alone are embedded in the open document rather than imported
+          return insertImageAssets(images).then((markdown) => {
+            insertSnippet(markdown, "block");
+            toast.success(images.length === 1 ? "Image added!" : `${images.length} images added!`);
+          });
+        }
+        if (entries.length === 1 && !isZipFile(entries[0].file)) {
+          return processFile(entries[0].file);
+        }
+        if (entries.length > 0) return handleImportBundle(entries);
+      })
+      .catch((error) => {
+        console.error("Error reading dropped files:", error);
+        toast.error("Failed to read dropped files.");
+      });
   };
 
   // Resizing Logic
@@ -549,6 +1617,250 @@ export const Editor: React.FC = () => {
     window.removeEventListener("mouseup", onMouseUp);
   }, [onMouseMove]);
 
+  const toggleReference = () => {
+    setIsReferenceOpen(!isReferenceOpen);
+    setIsCommentsOpen(false);
+    setIsSuggestionsOpen(false);
+    setIsGlobalSearchOpen(false);
+  };
+
+  const toggleSuggestions = () => {
+    setIsSuggestionsOpen(!isSuggestionsOpen);
+    setIsReferenceOpen(false);
+    setIsGlobalSearchOpen(false);
+    setIsCommentsOpen(false);
+  };
+
+  const openExport = (format: ExportFormat) => {
+    setExportFormat(format);
+    setIsExportModalOpen(true);
+  };
+
+  const selectEditorKeymap = (id: EditorKeymapId) => {
+    setEditorKeymap(id);
+    saveEditorKeymap(id);
+  };
+
+  const toggleComments = () => {
+    setIsCommentsOpen(!isCommentsOpen);
+    setIsReferenceOpen(false);
+    setIsGlobalSearchOpen(false);
+    setIsSuggestionsOpen(false);
+  };
+
+  const toggleGlobalSearch = () => {
+    setIsGlobalSearchOpen(!isGlobalSearchOpen);
+    setIsReferenceOpen(false);
+    setIsCommentsOpen(false);
+    setIsSuggestionsOpen(false);
+  };
+
+  const insertCommand = (
+    id: string,
+    title: string,
+    syntax: string,
+    type: "wrap" | "line" | "block"
+  ): Command => ({
+    id,
+    title,
+    category: "Insert",
+    run: () => insertSnippet(syntax, type),
+  });
+
+  const handleChangeKeybindings = (overrides: KeybindingOverrides) => {
+    setKeybindings(overrides);
+    saveKeybindings(overrides);
+  };
+
+  const handleChangeSnippets = (library: Snippet[]) => {
+    setSnippets(library);
+    saveSnippets(library);
+  };
+
+  // Everything the toolbar, the shortcuts and the command palette can do, with
+  // the user's own keybindings
+  const commands = applyKeybindings([
+    {
+      id: "palette",
+      title: "Show All Commands",
+      category: "View",
+      keybindings: ["Mod+Shift+P"],
+      run: () => setIsPaletteOpen((open) => !open),
+    },
+    { id: "undo", title: "Undo", category: "Edit", keybindings: ["Mod+Z"], run: handleUndo },
+    {
+      id: "redo",
+      title: "Redo",
+      category: "Edit",
+      keybindings: ["Mod+Shift+Z", "Mod+Y"],
+      run: handleRedo,
+    },
+    {
+      id: "find",
+      title: "Find and Replace",
+      category: "Edit",
+      keybindings: ["Mod+F"],
+      run: () => setSearchState((s) => ({ ...s, isOpen: true })),
+    },
+    {
+      id: "toggleSearch",
+      title: "Toggle Search Bar",
+      category: "Edit",
+      run: () => setSearchState((s) => ({ ...s, isOpen: !s.isOpen })),
+    },
+    {
+      id: "searchAll",
+      title: "Search All Documents",
+      category: "Edit",
+      keybindings: ["Mod+Shift+F"],
+      run: toggleGlobalSearch,
+    },
+    {
+      id: "comment",
+      title: "Comment on Selection",
+      category: "Edit",
+      keybindings: ["Mod+Alt+M"],
+      run: handleCommentButton,
+    },
+    insertCommand("insertHeading", "Heading", "# ", "line"),
+    insertCommand("insertBold", "Bold", "**Text**", "wrap"),
+    insertCommand("insertItalic", "Italic", "*Text*", "wrap"),
+    insertCommand("insertList", "List", "- ", "line"),
+    insertCommand("insertOrderedList", "Ordered List", "1. ", "line"),
+    insertCommand("insertTasks", "Task List", "- [ ] ", "line"),
+    insertCommand("insertQuote", "Quote", "> ", "line"),
+    insertCommand("insertCode", "Code Block", "```\n\n```", "block"),
+    insertCommand("insertLink", "Link", "[Title](url)", "wrap"),
+    insertCommand("insertImage", "Image", "![Alt](url)", "wrap"),
+    insertCommand(
+      "insertTable",
+      "Table",
+      "| Col | Col |\n| --- | --- |\n| Val | Val |",
+      "block"
+    ),
+    // The guide's examples
+    ...MD_REFERENCE.flatMap((group) =>
+      group.items.map((item) => ({
+        ...insertCommand(
+          `snippet:${item.name}`,
+          item.name,
+          item.syntax,
+          item.syntax.includes("\n") ? "block" : "wrap"
+        ),
+        category: "Snippet",
+      }))
+    ),
+    {
+      id: "toggleExplorer",
+      title: "Toggle Explorer",
+      category: "View",
+      run: () => setIsSidebarOpen(!isSidebarOpen),
+    },
+    { id: "toggleGuide", title: "Toggle Markdown Guide", category: "View", run: toggleReference },
+    { id: "toggleComments", title: "Toggle Comments", category: "View", run: toggleComments },
+    ...(suggestions
+      ? [
+          {
+            id: "toggleSuggestions",
+            title: "Toggle Suggestions",
+            category: "View",
+            run: toggleSuggestions,
+          },
+        ]
+      : []),
+    { id: "history", title: "Show History", category: "View", run: () => setIsHistoryOpen(true) },
+    {
+      id: "togglePreview",
+      title: "Toggle Editor / Preview",
+      category: "View",
+      run: () => setActiveTab(activeTab === "edit" ? "preview" : "edit"),
+    },
+    { id: "compare", title: "Compare Documents", category: "View", run: handleOpenCompare },
+    {
+      id: "newDocument",
+      title: "New Document",
+      category: "File",
+      run: () => handleCreateDocument(null),
+    },
+    {
+      id: "newFromTemplate",
+      title: "New from Template…",
+      category: "File",
+      run: () => setTemplateTarget({ folderId: null }),
+    },
+    {
+      id: "saveAsTemplate",
+      title: "Save as Template…",
+      category: "File",
+      run: handleSaveAsTemplate,
+    },
+    {
+      id: "openFile",
+      title: "Open File…",
+      category: "File",
+      keybindings: ["Mod+O"],
+      run: () => fileInputRef.current?.click(),
+    },
+    ...documents
+      .filter((doc) => doc.id !== activeDocumentId)
+      .map((doc) => ({
+        id: `open:${doc.id}`,
+        title: doc.fileName,
+        category: "Open Document",
+        run: () => activateDocument(doc),
+      })),
+    {
+      id: "export",
+      title: "Export…",
+      category: "File",
+      keybindings: ["Mod+S"],
+      run: () => setIsExportModalOpen(true),
+    },
+    { id: "exportMd", title: "Export as Markdown", category: "File", run: () => openExport("md") },
+    { id: "exportPdf", title: "Export as PDF", category: "File", run: () => openExport("pdf") },
+    { id: "exportHtml", title: "Export as HTML", category: "File", run: () => openExport("html") },
+    { id: "exportDocx", title: "Export as Word", category: "File", run: () => openExport("docx") },
+    { id: "share", title: "Share Link", category: "File", run: () => setIsShareModalOpen(true) },
+    { id: "collaborate", title: "Collaborate", category: "File", run: () => setIsCollabOpen(true) },
+    ...THEMES.map((theme) => ({
+      id: `theme:${theme.id}`,
+      title: theme.label,
+      category: "Theme",
+      run: () => setTheme(theme.id),
+    })),
+    ...snippets.map((snippet) => ({
+      id: `userSnippet:${snippet.id}`,
+      title: snippet.name || "Untitled",
+      category: "Snippet",
+      run: () => codeEditorRef.current?.insertTemplate(snippet.body),
+    })),
+    ...EDITOR_KEYMAPS.map((keymap) => ({
+      id: `keymap:${keymap.id}`,
+      title: `${keymap.label} Keybindings`,
+      category: "Editor",
+      run: () => selectEditorKeymap(keymap.id),
+    })),
+    {
+      id: "customize",
+      title: "Customize Keybindings & Snippets",
+      category: "Editor",
+      run: () => setIsCustomizeOpen(true),
+    },
+  ], keybindings);
+
+  const getCommand = (id: string) => commands.find((command) => command.id === id)!;
+  const runCommand = (id: string) => getCommand(id).run();
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keys the editor handled itself, such as its own undo and redo
+    if (e.defaultPrevented) return;
+    const command = findCommandForEvent(commands, e);
+    if (command) {
+      e.preventDefault();
+      command.run();
+    }
+  };
+
   return (
     <div
       className="flex flex-col h-screen overflow-hidden relative"
@@ -562,9 +1874,12 @@ export const Editor: React.FC = () => {
         type="file"
         ref={fileInputRef}
         className="hidden"
-        accept=".md,.txt"
+        accept={BUNDLE_ACCEPT}
+        multiple
         onChange={(e) => {
-          if (e.target.files?.[0]) processFile(e.target.files[0]);
+          handleImportFiles(Array.from(e.target.files ?? []));
+          // Allow selecting the same files again
+          e.target.value = "";
         }}
       />
 
@@ -606,11 +1921,21 @@ export const Editor: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-1 md:gap-2 shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => runCommand("toggleExplorer")}
+            className={cn(isSidebarOpen && "bg-[var(--bg-tertiary)]")}
+            title="Toggle Explorer"
+          >
+            <PanelLeft className="w-4 h-4 md:mr-2" />
+            <span className="hidden md:inline">Files</span>
+          </Button>
           <ThemeToggle />
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => fileInputRef.current?.click()}
+            onClick={() => runCommand("openFile")}
             className="hidden sm:flex"
           >
             <FolderOpen className="w-4 h-4 mr-2" />
@@ -619,16 +1944,74 @@ export const Editor: React.FC = () => {
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setIsExportModalOpen(true)}
+            onClick={() => runCommand("export")}
             className="hidden sm:flex"
           >
             <Download className="w-4 h-4 mr-2" />
             Export
           </Button>
+          {suggestions && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => runCommand("toggleSuggestions")}
+              className={cn(isSuggestionsOpen && "bg-[var(--bg-tertiary)]")}
+              title="Review suggestions"
+            >
+              <PencilLine className="w-4 h-4 md:mr-2" />
+              <span className="hidden md:inline">Suggestions</span>
+              <span className="ml-1 font-mono text-[10px] opacity-70">
+                {suggestions.suggestions.length}
+              </span>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => runCommand("collaborate")}
+            className={cn("hidden sm:flex", collab && "bg-[var(--bg-tertiary)]")}
+            title="Collaborate"
+          >
+            {collab ? (
+              <div className="flex -space-x-1.5 mr-2">
+                {[
+                  {
+                    clientId: collab.session.doc.clientID,
+                    name: collabSettings.name || "You",
+                    color: collabSettings.color,
+                  },
+                  ...collabPeers,
+                ]
+                  .slice(0, 4)
+                  .map((person) => (
+                    <span
+                      key={person.clientId}
+                      title={person.name}
+                      className="w-5 h-5 rounded-full border-2 border-[var(--bg-primary)] text-[9px] font-bold text-black flex items-center justify-center uppercase"
+                      style={{ backgroundColor: person.color }}
+                    >
+                      {person.name.charAt(0)}
+                    </span>
+                  ))}
+              </div>
+            ) : (
+              <Users className="w-4 h-4 mr-2" />
+            )}
+            {collab ? collabPeers.length + 1 : "Collaborate"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => runCommand("compare")}
+            className="hidden lg:flex"
+          >
+            <GitCompare className="w-4 h-4 mr-2" />
+            Compare
+          </Button>
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setIsReferenceOpen(!isReferenceOpen)}
+            onClick={() => runCommand("toggleGuide")}
             className={cn(
               "hidden lg:flex",
               isReferenceOpen && "bg-[var(--bg-tertiary)]"
@@ -641,7 +2024,7 @@ export const Editor: React.FC = () => {
           <Button
             variant="cyber"
             size="sm"
-            onClick={handleShare}
+            onClick={() => runCommand("share")}
             className="px-2 md:px-3 text-[10px] md:text-xs"
           >
             <Share2 className="w-3.5 h-3.5 md:mr-2" />
@@ -654,6 +2037,23 @@ export const Editor: React.FC = () => {
         className="flex-1 flex flex-col md:flex-row overflow-hidden relative"
         style={{ "--split-ratio": `${splitRatio}%` } as React.CSSProperties}
       >
+        <Sidebar
+          isOpen={isSidebarOpen}
+          documents={documents}
+          folders={folders}
+          activeDocumentId={activeDocumentId}
+          onClose={() => setIsSidebarOpen(false)}
+          onOpenDocument={handleOpenDocument}
+          onCreateDocument={handleCreateDocument}
+          onCreateFromTemplate={(folderId) => setTemplateTarget({ folderId })}
+          onCreateFolder={handleCreateFolder}
+          onRenameDocument={handleRenameDocument}
+          onRenameFolder={handleRenameFolder}
+          onDuplicateDocument={handleDuplicateDocument}
+          onDeleteDocument={handleDeleteDocument}
+          onDeleteFolder={handleDeleteFolder}
+          onMoveDocument={handleMoveDocument}
+        />
         <div
           className={cn(
             "flex flex-col border-r md:border-r-0 border-[var(--border-primary)] relative bg-[var(--bg-primary)] h-full overflow-hidden",
@@ -662,84 +2062,33 @@ export const Editor: React.FC = () => {
           )}
         >
           <div className="bg-[var(--bg-secondary)] border-b border-[var(--border-primary)] h-10 px-2 flex items-center gap-0.5 shrink-0 overflow-x-auto no-scrollbar">
+            <ToolbarButton icon={<Undo2 size={16} />} command={getCommand("undo")} />
+            <ToolbarButton icon={<Redo2 size={16} />} command={getCommand("redo")} />
+            <ToolbarButton icon={<History size={16} />} command={getCommand("history")} />
             <ToolbarButton
-              icon={<Undo2 size={16} />}
-              onClick={handleUndo}
-              title="Undo"
-            />
-            <ToolbarButton
-              icon={<Redo2 size={16} />}
-              onClick={handleRedo}
-              title="Redo"
+              icon={<MessageSquarePlus size={16} />}
+              command={getCommand("comment")}
             />
             <div className="w-[1px] h-4 bg-[var(--border-primary)] mx-1 opacity-50" />
-            <ToolbarButton
-              icon={<Heading size={16} />}
-              onClick={() => insertSnippet("# ", "line")}
-              title="H1"
-            />
-            <ToolbarButton
-              icon={<Bold size={16} />}
-              onClick={() => insertSnippet("**Text**", "wrap")}
-              title="Bold"
-            />
-            <ToolbarButton
-              icon={<Italic size={16} />}
-              onClick={() => insertSnippet("*Text*", "wrap")}
-              title="Italic"
-            />
+            <ToolbarButton icon={<Heading size={16} />} command={getCommand("insertHeading")} />
+            <ToolbarButton icon={<Bold size={16} />} command={getCommand("insertBold")} />
+            <ToolbarButton icon={<Italic size={16} />} command={getCommand("insertItalic")} />
             <div className="w-[1px] h-4 bg-[var(--border-primary)] mx-1 opacity-50" />
-            <ToolbarButton
-              icon={<List size={16} />}
-              onClick={() => insertSnippet("- ", "line")}
-              title="List"
-            />
+            <ToolbarButton icon={<List size={16} />} command={getCommand("insertList")} />
             <ToolbarButton
               icon={<ListOrdered size={16} />}
-              onClick={() => insertSnippet("1. ", "line")}
-              title="Ordered"
-            />
-            <ToolbarButton
-              icon={<Check size={16} />}
-              onClick={() => insertSnippet("- [ ] ", "line")}
-              title="Tasks"
+              command={getCommand("insertOrderedList")}
             />
+            <ToolbarButton icon={<Check size={16} />} command={getCommand("insertTasks")} />
             <div className="w-[1px] h-4 bg-[var(--border-primary)] mx-1 opacity-50 hidden sm:block" />
-            <ToolbarButton
-              icon={<Quote size={16} />}
-              onClick={() => insertSnippet("> ", "line")}
-              title="Quote"
-            />
-            <ToolbarButton
-              icon={<Code size={16} />}
-              onClick={() => insertSnippet("```\n\n```", "block")}
-              title="Code"
-            />
-            <ToolbarButton
-              icon={<LinkIcon size={16} />}
-              onClick={() => insertSnippet("[Title](url)", "wrap")}
-              title="Link"
-            />
-            <ToolbarButton
-              icon={<ImageIcon size={16} />}
-              onClick={() => insertSnippet("![Alt](url)", "wrap")}
-              title="Image"
-            />
-            <ToolbarButton
-              icon={<Table size={16} />}
-              onClick={() =>
-                insertSnippet(
-                  "| Col | Col |\n| --- | --- |\n| Val | Val |",
-                  "block"
-                )
-              }
-              title="Table"
-            />
+            <ToolbarButton icon={<Quote size={16} />} command={getCommand("insertQuote")} />
+            <ToolbarButton icon={<Code size={16} />} command={getCommand("insertCode")} />
+            <ToolbarButton icon={<LinkIcon size={16} />} command={getCommand("insertLink")} />
+            <ToolbarButton icon={<ImageIcon size={16} />} command={getCommand("insertImage")} />
+            <ToolbarButton icon={<Table size={16} />} command={getCommand("insertTable")} />
             <div className="ml-auto pr-2">
               <button
-                onClick={() =>
-                  setSearchState((s) => ({ ...s, isOpen: !s.isOpen }))
-                }
+                onClick={() => runCommand("toggleSearch")}
                 className={cn(
                   "p-1.5 rounded hover:bg-[var(--bg-tertiary)] transition-colors",
                   searchState.isOpen && "text-[var(--accent-primary)]"
@@ -747,47 +2096,183 @@ export const Editor: React.FC = () => {
               >
                 <Search size={14} />
               </button>
+              <button
+                onClick={() => runCommand("searchAll")}
+                className={cn(
+                  "p-1.5 rounded hover:bg-[var(--bg-tertiary)] transition-colors",
+                  isGlobalSearchOpen && "text-[var(--accent-primary)]"
+                )}
+                title="Search All Documents"
+              >
+                <FileSearch size={14} />
+              </button>
             </div>
           </div>
 
           {searchState.isOpen && (
             <div className="bg-[var(--bg-secondary)] border-b border-[var(--border-primary)] p-2 shadow-xl animate-in slide-in-from-top-2 duration-150">
-              <div className="max-w-xl mx-auto flex items-center gap-2">
-                <input
-                  autoFocus
-                  className="flex-1 bg-[var(--bg-primary)] border border-[var(--border-primary)] text-sm px-3 py-1.5 outline-none focus:ring-1 focus:ring-[var(--accent-primary)]"
-                  placeholder="Find..."
-                  value={searchState.searchTerm}
-                  onChange={(e) =>
-                    setSearchState((s) => ({
-                      ...s,
-                      searchTerm: e.target.value,
-                    }))
-                  }
-                />
-                <button
-                  onClick={() =>
-                    setSearchState((s) => ({ ...s, isOpen: false }))
-                  }
-                  className="p-1.5 hover:text-red-500"
-                >
-                  <X size={16} />
-                </button>
+              <div className="max-w-2xl mx-auto flex flex-col gap-1.5">
+                <div className="flex items-center gap-1">
+                  <div
+                    className={cn(
+                      "flex-1 flex items-center bg-[var(--bg-primary)] border border-[var(--border-primary)] focus-within:ring-1 focus-within:ring-[var(--accent-primary)]",
+                      searchState.error && "border-red-500 focus-within:ring-red-500"
+                    )}
+                  >
+                    <input
+                      autoFocus
+                      className="flex-1 min-w-0 bg-transparent text-sm px-3 py-1.5 outline-none"
+                      placeholder="Find..."
+                      value={searchState.searchTerm}
+                      onChange={(e) =>
+                        setSearchState((s) => ({
+                          ...s,
+                          searchTerm: e.target.value,
+                        }))
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key !== "Enter") return;
+                        e.preventDefault();
+                        moveToMatch(e.shiftKey ? -1 : 1);
+                      }}
+                    />
+                    <SearchToggle
+                      icon={<CaseSensitive size={14} />}
+                      title="Match Case"
+                      active={searchState.matchCase}
+                      onClick={() => setSearchState((s) => ({ ...s, matchCase: !s.matchCase }))}
+                    />
+                    <SearchToggle
+                      icon={<WholeWord size={14} />}
+                      title="Whole Word"
+                      active={searchState.wholeWord}
+                      onClick={() => setSearchState((s) => ({ ...s, wholeWord: !s.wholeWord }))}
+                    />
+                    <SearchToggle
+                      icon={<Regex size={14} />}
+                      title="Regular Expression"
+                      active={searchState.regex}
+                      onClick={() => setSearchState((s) => ({ ...s, regex: !s.regex }))}
+                    />
+                  </div>
+                  <span className="w-16 text-center text-[10px] font-mono text-[var(--fg-secondary)] shrink-0">
+                    {searchState.results.length > 0
+                      ? `${searchState.currentIndex + 1}/${searchState.results.length}`
+                      : searchState.searchTerm && "0/0"}
+                  </span>
+                  <button
+                    onClick={() => moveToMatch(-1)}
+                    disabled={searchState.results.length === 0}
+                    className="p-1.5 hover:text-[var(--accent-primary)] disabled:opacity-40"
+                    title="Previous Match (Shift+Enter)"
+                  >
+                    <ChevronUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => moveToMatch(1)}
+                    disabled={searchState.results.length === 0}
+                    className="p-1.5 hover:text-[var(--accent-primary)] disabled:opacity-40"
+                    title="Next Match (Enter)"
+                  >
+                    <ChevronDown size={16} />
+                  </button>
+                  <button
+                    onClick={() =>
+                      setSearchState((s) => ({ ...s, isOpen: false }))
+                    }
+                    className="p-1.5 hover:text-red-500"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+                <div className="flex items-center gap-1">
+                  <div className="flex-1 flex items-center bg-[var(--bg-primary)] border border-[var(--border-primary)] focus-within:ring-1 focus-within:ring-[var(--accent-primary)]">
+                    <input
+                      className="flex-1 min-w-0 bg-transparent text-sm px-3 py-1.5 outline-none"
+                      placeholder={searchState.regex ? "Replace... ($1 for groups)" : "Replace..."}
+                      value={searchState.replaceTerm}
+                      onChange={(e) =>
+                        setSearchState((s) => ({
+                          ...s,
+                          replaceTerm: e.target.value,
+                        }))
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key !== "Enter") return;
+                        e.preventDefault();
+                        const input = e.currentTarget;
+                        handleReplaceOne();
+                        // Keep replacing one at a time from the keyboard
+                        input.focus();
+                      }}
+                    />
+                    <SearchToggle
+                      icon={<CaseUpper size={14} />}
+                      title="Preserve Case"
+                      active={searchState.preserveCase}
+                      onClick={() =>
+                        setSearchState((s) => ({ ...s, preserveCase: !s.preserveCase }))
+                      }
+                    />
+                  </div>
+                  <button
+                    onClick={handleReplaceOne}
+                    disabled={searchState.results.length === 0}
+                    className="p-1.5 hover:text-[var(--accent-primary)] disabled:opacity-40"
+                    title="Replace (Enter)"
+                  >
+                    <Replace size={16} />
+                  </button>
+                  <button
+                    onClick={handleReplaceAll}
+                    disabled={searchState.results.length === 0}
+                    className="p-1.5 hover:text-[var(--accent-primary)] disabled:opacity-40"
+                    title="Replace All"
+                  >
+                    <ReplaceAll size={16} />
+                  </button>
+                </div>
+                {searchState.error && (
+                  <p className="text-[10px] text-red-400 font-mono px-1">
+                    Invalid pattern: {searchState.error}
+                  </p>
+                )}
+                {(searchState.regex || searchState.preserveCase) &&
+                  searchState.replaceTerm &&
+                  searchState.results.length > 0 && (
+                    <ReplacementPreview
+                      text={markdown}
+                      matches={searchState.results}
+                      currentIndex={searchState.currentIndex}
+                      onSelect={(index) => setSearchState((s) => ({ ...s, currentIndex: index }))}
+                    />
+                  )}
               </div>
             </div>
           )}
 
           <div
-            ref={editorWrapperRef}
             className="flex-1 w-full bg-[var(--bg-primary)] overflow-hidden relative h-full"
           >
             <CodeEditor
-              ref={editorScrollRef}
+              ref={codeEditorRef}
               value={markdown}
               onChange={onMarkdownChange}
               matches={searchState.results}
               currentMatchIndex={searchState.currentIndex}
               onScroll={() => handleScroll("editor")}
+              remoteSelections={collabPeers.flatMap((peer) =>
+                peer.selection
+                  ? [{ id: peer.clientId, name: peer.name, color: peer.color, ...peer.selection }]
+                  : []
+              )}
+              onSelectionChange={collab ? handleCollabSelection : undefined}
+              comments={commentRanges}
+              activeCommentId={activeCommentId}
+              onCommentClick={handleSelectComment}
+              keymap={editorKeymap}
+              onKeymapModeChange={setKeymapMode}
+              onSubstitute={handleSubstitute}
             />
           </div>
         </div>
@@ -820,11 +2305,21 @@ export const Editor: React.FC = () => {
           </div>
           <div
             ref={previewScrollRef}
-            onScroll={() => handleScroll("preview")}
+            onScroll={() => {
+              handleScroll("preview");
+              setPreviewSelection(null);
+            }}
+            onMouseUp={handlePreviewMouseUp}
             className="flex-1 overflow-y-auto p-4 md:p-12 custom-scrollbar scroll-smooth h-full bg-[var(--bg-primary)]"
           >
             <div id="preview-content" className="max-w-3xl mx-auto p-4">
-              <MarkdownRenderer content={markdown} />
+              <MarkdownRenderer
+                content={markdown}
+                onOpenDocument={handleOpenDocument}
+                comments={commentRanges}
+                activeCommentId={activeCommentId}
+                onCommentClick={handleSelectComment}
+              />
             </div>
           </div>
         </div>
@@ -852,6 +2347,45 @@ export const Editor: React.FC = () => {
             </button>
           </div>
           <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-6 custom-scrollbar">
+            <div className="flex flex-col gap-2">
+              <div className="flex justify-between items-center">
+                <h4 className="text-[10px] font-bold text-[var(--accent-primary)] uppercase tracking-widest opacity-60">
+                  My Snippets
+                </h4>
+                <button
+                  onClick={() => runCommand("customize")}
+                  className="text-[10px] text-[var(--fg-secondary)] hover:text-[var(--accent-primary)]"
+                >
+                  Manage
+                </button>
+              </div>
+              {snippets.length === 0 && (
+                <p className="text-[10px] text-[var(--fg-secondary)]">
+                  Add your own snippets, with tab stops like {"${1:service}"}.
+                </p>
+              )}
+              <div className="grid gap-2">
+                {snippets.map((snippet) => (
+                  <button
+                    key={snippet.id}
+                    onClick={() => runCommand(`userSnippet:${snippet.id}`)}
+                    className="group p-3 bg-[var(--bg-primary)] border border-[var(--border-primary)] hover:border-[var(--accent-primary)] rounded text-left transition-all"
+                  >
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs font-bold text-[var(--fg-primary)] group-hover:text-[var(--accent-primary)] truncate">
+                        {snippet.name || "Untitled"}
+                      </span>
+                      <Sparkles className="w-3 h-3 opacity-0 group-hover:opacity-100 text-[var(--accent-primary)]" />
+                    </div>
+                    {snippet.description && (
+                      <p className="mt-1 text-[10px] text-[var(--fg-secondary)] truncate">
+                        {snippet.description}
+                      </p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
             {MD_REFERENCE.map((group, gIdx) => (
               <div key={gIdx} className="flex flex-col gap-2">
                 <h4 className="text-[10px] font-bold text-[var(--accent-primary)] uppercase tracking-widest opacity-60">
@@ -861,12 +2395,7 @@ export const Editor: React.FC = () => {
                   {group.items.map((item, iIdx) => (
                     <button
                       key={iIdx}
-                      onClick={() =>
-                        insertSnippet(
-                          item.syntax,
-                          item.syntax.includes("\n") ? "block" : "wrap"
-                        )
-                      }
+                      onClick={() => runCommand(`snippet:${item.name}`)}
                       className="group p-3 bg-[var(--bg-primary)] border border-[var(--border-primary)] hover:border-[var(--accent-primary)] rounded text-left transition-all"
                     >
                       <div className="flex justify-between items-center">
@@ -885,8 +2414,69 @@ export const Editor: React.FC = () => {
             ))}
           </div>
         </aside>
+
+        {suggestions && isSuggestionsOpen && (
+          <SuggestionsPanel
+            mode="review"
+            items={suggestionItems}
+            activeId={activeSuggestionId}
+            author={suggestions.author}
+            onSelect={handleSelectSuggestion}
+            onAccept={(id) => acceptSuggestions([id])}
+            onReject={(id) => removeSuggestions(new Set([id]))}
+            onAcceptAll={() => acceptSuggestions(suggestionItems.map((item) => item.id))}
+            onRejectAll={handleRejectAllSuggestions}
+            onClose={() => setIsSuggestionsOpen(false)}
+          />
+        )}
+
+        {isCommentsOpen && (
+          <CommentsPanel
+            threads={comments}
+            activeThreadId={activeCommentId}
+            draft={commentDraft && { quote: markdown.slice(commentDraft.start, commentDraft.end) }}
+            onSelect={handleSelectComment}
+            onCreate={handleCreateThread}
+            onCancelDraft={() => setCommentDraft(null)}
+            onReply={(id, message) =>
+              updateThread(id, (thread) => ({ ...thread, messages: [...thread.messages, message] }))
+            }
+            onToggleResolved={(id) =>
+              updateThread(id, (thread) => ({ ...thread, resolved: !thread.resolved }))
+            }
+            onDelete={handleDeleteThread}
+            onClose={() => {
+              setIsCommentsOpen(false);
+              setCommentDraft(null);
+              setActiveCommentId(null);
+            }}
+          />
+        )}
+
+        {isGlobalSearchOpen && (
+          <GlobalSearchPanel
+            documents={searchableDocuments}
+            activeDocumentId={activeDocumentId}
+            onOpenMatch={handleOpenMatch}
+            onReplaceAll={handleReplaceInAllDocuments}
+            onClose={() => setIsGlobalSearchOpen(false)}
+          />
+        )}
       </main>
 
+      {previewSelection && (
+        <button
+          // Keep the selection while clicking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => startComment(previewSelection)}
+          style={{ top: previewSelection.top, left: previewSelection.left }}
+          className="fixed z-[60] -translate-x-1/2 flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-[var(--bg-secondary)] border border-[var(--accent-primary)] text-xs font-bold text-[var(--fg-primary)] shadow-xl hover:bg-[var(--bg-tertiary)] animate-in fade-in duration-150"
+        >
+          <MessageSquarePlus size={14} className="text-[var(--accent-primary)]" />
+          Comment
+        </button>
+      )}
+
       <footer className="h-8 md:h-7 bg-[var(--bg-secondary)] border-t border-[var(--border-primary)] text-[var(--fg-secondary)] text-[9px] md:text-[10px] flex items-center px-2 md:px-4 justify-between shrink-0 select-none z-40">
         <div className="flex items-center gap-3 md:gap-6 overflow-hidden">
           <div className="flex items-center gap-2 shrink-0">
@@ -919,6 +2509,35 @@ export const Editor: React.FC = () => {
               View
             </button>
           </div>
+          <button
+            onClick={() => runCommand("customize")}
+            className="hidden sm:flex h-full px-2 items-center hover:text-[var(--fg-primary)]"
+            title="Customize Keybindings & Snippets"
+          >
+            <Keyboard size={12} />
+          </button>
+          <select
+            value={editorKeymap}
+            onChange={(e) => runCommand(`keymap:${e.target.value}`)}
+            className="hidden sm:block bg-transparent h-full px-2 outline-none cursor-pointer font-mono uppercase hover:text-[var(--fg-primary)]"
+            title="Keybindings"
+          >
+            {EDITOR_KEYMAPS.map((keymap) => (
+              <option key={keymap.id} value={keymap.id} className="bg-[var(--bg-secondary)]">
+                {keymap.label}
+              </option>
+            ))}
+          </select>
+          {editorKeymap === "vim" && keymapMode && (
+            <span
+              className={cn(
+                "px-2 h-full flex items-center font-mono font-bold",
+                keymapMode === "NORMAL" ? "text-[var(--fg-secondary)]" : "text-[var(--accent-primary)]"
+              )}
+            >
+              -- {keymapMode} --
+            </span>
+          )}
           <span className="text-[var(--accent-primary)] bg-[var(--bg-primary)]/40 px-3 h-full flex items-center font-mono">
             LN {markdown.split("\n").length}, COL {markdown.length}
           </span>
@@ -926,119 +2545,65 @@ export const Editor: React.FC = () => {
       </footer>
 
       {isShareModalOpen && (
-        <div className="fixed inset-0 bg-black/70 backdrop-blur-md z-[100] flex items-center justify-center p-4 animate-in fade-in duration-300">
-          <div className="bg-[var(--bg-secondary)] border border-[var(--border-primary)] p-6 md:p-8 rounded-xl w-full max-w-lg shadow-2xl animate-in zoom-in-95 duration-200">
-            <div className="flex justify-between items-center mb-6">
-              <h3 className="text-xl font-bold flex items-center gap-2">
-                {isShortening ? (
-                  <>
-                    <Loader2 className="w-5 h-5 text-[var(--accent-primary)] animate-spin" />
-                    Shortening URL...
-                  </>
-                ) : isUrlTooLarge ? (
-                  <>
-                    <AlertTriangle className="w-5 h-5 text-yellow-500" />
-                    Document Too Large
-                  </>
-                ) : (
-                  <>
-                    <Share2 className="w-5 h-5 text-[var(--accent-primary)]" />
-                    Link Ready
-                  </>
-                )}
-              </h3>
-              <button
-                onClick={() => setIsShareModalOpen(false)}
-                className="text-[var(--fg-secondary)] hover:text-white"
-              >
-                <X size={20} />
-              </button>
-            </div>
-            
-            {isShortening ? (
-              <div className="flex flex-col items-center justify-center py-8">
-                <Loader2 className="w-10 h-10 text-[var(--accent-primary)] animate-spin mb-4" />
-                <p className="text-sm text-[var(--fg-secondary)]">Generating short link...</p>
-              </div>
-            ) : isUrlTooLarge ? (
-              <>
-                <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4 mb-6">
-                  <p className="text-sm text-[var(--fg-secondary)] leading-relaxed mb-2">
-                    <strong>This document is too large for URL sharing.</strong>
-                  </p>
-                  <p className="text-xs text-[var(--fg-secondary)] opacity-70">
-                    {markdown.split(/\s+/).filter(Boolean).length} words • URL-based sharing only works for shorter documents.
-                  </p>
-                </div>
-                <div className="flex flex-col gap-3 mb-6">
-                  <Button
-                    variant="primary"
-                    className="w-full justify-center"
-                    onClick={() => {
-                      navigator.clipboard.writeText(markdown);
-                      toast.success("Content copied to clipboard!");
-                    }}
-                  >
-                    <Clipboard className="w-4 h-4 mr-2" />
-                    Copy Content to Clipboard
-                  </Button>
-                  <Button
-                    variant="cyber"
-                    className="w-full justify-center"
-                    onClick={() => {
-                      const blob = new Blob([markdown], { type: "text/markdown" });
-                      const url = URL.createObjectURL(blob);
-                      const link = document.createElement("a");
-                      link.href = url;
-                      link.download = `${fileName.trim() || "document"}.md`;
-                      link.click();
-                      URL.revokeObjectURL(url);
-                      toast.success("File downloaded!");
-                    }}
-                  >
-                    <Download className="w-4 h-4 mr-2" />
-                    Download as .md File
-                  </Button>
-                </div>
-                <p className="text-[10px] text-[var(--fg-secondary)] text-center mb-4 opacity-60">
-                  Share the downloaded file via email, cloud storage, or messaging apps.
-                </p>
-              </>
-            ) : (
-              <>
-                <p className="text-sm text-[var(--fg-secondary)] mb-6 leading-relaxed">
-                  Your content is encoded directly into this URL. Privacy by
-                  design—no database used.
-                </p>
-                <div className="flex gap-2 mb-8 group">
-                  <input
-                    type="text"
-                    readOnly
-                    value={shareUrl}
-                    className="flex-1 bg-[var(--bg-primary)] border border-[var(--border-primary)] p-3 rounded text-[10px] font-mono group-hover:border-[var(--accent-primary)] transition-colors min-w-0"
-                  />
-                  <Button
-                    variant="primary"
-                    onClick={() => {
-                      navigator.clipboard.writeText(shareUrl);
-                      toast.success("Copied!");
-                    }}
-                  >
-                    <Copy className="w-4 h-4 mr-2" />
-                    Copy
-                  </Button>
-                </div>
-              </>
-            )}
-            <Button
-              variant="ghost"
-              className="w-full"
-              onClick={() => setIsShareModalOpen(false)}
-            >
-              Close
-            </Button>
-          </div>
-        </div>
+        <ShareModal
+          markdown={markdown}
+          comments={comments}
+          documentId={activeDocumentId}
+          fileName={fileName}
+          onClose={() => setIsShareModalOpen(false)}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <HistoryPanel
+          revisions={revisions}
+          currentContent={markdown}
+          onRestore={handleRestoreRevision}
+          onCheckpoint={(label) => {
+            createCheckpoint(label).then(() => toast.success("Checkpoint saved."));
+          }}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isCollabOpen && (
+        <CollabModal
+          settings={collabSettings}
+          room={collab?.session.room ?? collabInvite}
+          inSession={!!collab}
+          status={collabStatus}
+          peers={collabPeers}
+          onStart={handleStartCollab}
+          onLeave={() => setCollab(null)}
+          onClose={() => {
+            setIsCollabOpen(false);
+            setCollabInvite(null);
+          }}
+        />
+      )}
+
+      {isPaletteOpen && (
+        <CommandPalette commands={commands} onClose={() => setIsPaletteOpen(false)} />
+      )}
+
+      {templateTarget && (
+        <TemplateGallery
+          currentContent={markdown}
+          currentFileName={fileName}
+          onCreate={handleCreateFromTemplate}
+          onClose={() => setTemplateTarget(null)}
+        />
+      )}
+
+      {isCustomizeOpen && (
+        <CustomizeModal
+          commands={commands}
+          keybindings={keybindings}
+          snippets={snippets}
+          onChangeKeybindings={handleChangeKeybindings}
+          onChangeSnippets={handleChangeSnippets}
+          onClose={() => setIsCustomizeOpen(false)}
+        />
       )}
 
       {isExportModalOpen && (
@@ -1084,10 +2649,37 @@ export const Editor: React.FC = () => {
                     )}
                   >
                     <PdfIcon size={20} />
-                    <span className="text-[10px] font-bold">PDF (Print)</span>
+                    <span className="text-[10px] font-bold">PDF</span>
+                  </button>
+                  <button
+                    onClick={() => setExportFormat("html")}
+                    className={cn(
+                      "flex flex-col items-center justify-center p-4 rounded border transition-all gap-2",
+                      exportFormat === "html"
+                        ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/10 text-[var(--accent-primary)]"
+                        : "border-[var(--border-primary)] bg-[var(--bg-primary)] text-[var(--fg-secondary)]"
+                    )}
+                  >
+                    <FileCode size={20} />
+                    <span className="text-[10px] font-bold">HTML</span>
+                  </button>
+                  <button
+                    onClick={() => setExportFormat("docx")}
+                    className={cn(
+                      "flex flex-col items-center justify-center p-4 rounded border transition-all gap-2",
+                      exportFormat === "docx"
+                        ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/10 text-[var(--accent-primary)]"
+                        : "border-[var(--border-primary)] bg-[var(--bg-primary)] text-[var(--fg-secondary)]"
+                    )}
+                  >
+                    <FileType size={20} />
+                    <span className="text-[10px] font-bold">Word</span>
                   </button>
                 </div>
               </div>
+              {exportFormat === "pdf" && (
+                <PdfPageSetup settings={pdfSettings} onChange={setPdfSettings} />
+              )}
               <div className="flex flex-col gap-1.5">
                 <label className="text-[10px] font-bold text-[var(--fg-secondary)] uppercase tracking-widest ml-1">
                   Filename
@@ -1112,9 +2704,14 @@ export const Editor: React.FC = () => {
                 variant="primary"
                 className="flex-1"
                 onClick={handleExport}
+                disabled={isExporting}
               >
-                <Download className="w-4 h-4 mr-2" />
-                Save
+                {isExporting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4 mr-2" />
+                )}
+                {isExporting ? "Exporting..." : "Save"}
               </Button>
             </div>
           </div>
@@ -1124,19 +2721,99 @@ export const Editor: React.FC = () => {
   );
 };
 
-const ToolbarButton = ({
+const SearchToggle = ({
   icon,
-  onClick,
   title,
+  active,
+  onClick,
 }: {
   icon: React.ReactNode;
-  onClick: () => void;
   title: string;
+  active: boolean;
+  onClick: () => void;
 }) => (
   <button
     onClick={onClick}
-    className="p-1.5 hover:bg-[var(--bg-tertiary)] hover:text-[var(--accent-primary)] rounded transition-all text-[var(--fg-secondary)]"
+    className={cn(
+      "p-1 mr-1 rounded transition-colors",
+      active
+        ? "bg-[var(--accent-primary)]/20 text-[var(--accent-primary)]"
+        : "text-[var(--fg-secondary)] hover:text-[var(--fg-primary)]"
+    )}
     title={title}
+    aria-pressed={active}
+  >
+    {icon}
+  </button>
+);
+
+// Replacements listed before they are made; the list is cut off on large documents
+const MAX_PREVIEWED_REPLACEMENTS = 100;
+
+// Characters of the line shown on each side of a previewed match
+const PREVIEW_CONTEXT = 30;
+
+const ReplacementPreview = ({
+  text,
+  matches,
+  currentIndex,
+  onSelect,
+}: {
+  text: string;
+  matches: SearchMatch[];
+  currentIndex: number;
+  onSelect: (index: number) => void;
+}) => (
+  <div className="max-h-40 overflow-y-auto custom-scrollbar border border-[var(--border-primary)] bg-[var(--bg-primary)] font-mono text-[11px]">
+    {matches.slice(0, MAX_PREVIEWED_REPLACEMENTS).map((match, index) => {
+      const lineStart = text.lastIndexOf("\n", match.start - 1) + 1;
+      const lineEnd = text.indexOf("\n", match.end);
+      const before = text.slice(Math.max(lineStart, match.start - PREVIEW_CONTEXT), match.start);
+      const after = text.slice(
+        match.end,
+        Math.min(lineEnd === -1 ? text.length : lineEnd, match.end + PREVIEW_CONTEXT)
+      );
+      return (
+        <button
+          key={index}
+          onClick={() => onSelect(index)}
+          className={cn(
+            "w-full text-left px-2 py-0.5 whitespace-pre truncate block",
+            index === currentIndex ? "bg-[var(--bg-tertiary)]" : "hover:bg-[var(--bg-tertiary)]/50"
+          )}
+        >
+          <span className="text-[var(--fg-secondary)]">{before}</span>
+          <span className="bg-red-500/15 text-red-400 line-through decoration-red-400/70">
+            {text.slice(match.start, match.end)}
+          </span>
+          <span className="bg-green-500/15 text-green-400">{match.replacement}</span>
+          <span className="text-[var(--fg-secondary)]">{after}</span>
+        </button>
+      );
+    })}
+    {matches.length > MAX_PREVIEWED_REPLACEMENTS && (
+      <p className="px-2 py-1 text-[var(--fg-secondary)] font-sans text-[10px]">
+        …and {matches.length - MAX_PREVIEWED_REPLACEMENTS} more
+      </p>
+    )}
+  </div>
+);
+
+const ToolbarButton = ({
+  icon,
+  command,
+}: {
+  icon: React.ReactNode;
+  command: Command;
+}) => (
+  <button
+    onClick={command.run}
+    className="p-1.5 hover:bg-[var(--bg-tertiary)] hover:text-[var(--accent-primary)] rounded transition-all text-[var(--fg-secondary)]"
+    title={
+      command.keybindings
+        ? `${command.title} (${formatKeybinding(command.keybindings[0])})`
+        : command.title
+    }
   >
     {icon}
   </button>
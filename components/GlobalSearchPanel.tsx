@@ -0,0 +1,333 @@
+import React, { useDeferredValue, useMemo, useState } from "react";
+import { cn } from "../utils";
+import type { WorkspaceDocument } from "../lib/workspace";
+import {
+  applyReplacements,
+  DEFAULT_SEARCH_OPTIONS,
+  findMatches,
+  SearchPatternError,
+  type SearchMatch,
+  type SearchOptions,
+} from "../lib/search";
+import { Button } from "./ui";
+import {
+  CaseSensitive,
+  CaseUpper,
+  ChevronDown,
+  ChevronRight,
+  FileText,
+  Loader2,
+  Regex,
+  ReplaceAll,
+  Search,
+  WholeWord,
+  X,
+} from "lucide-react";
+
+/** A document's new content after replacing in all documents. */
+export interface DocumentReplacement {
+  documentId: string;
+  content: string;
+  count: number;
+}
+
+interface GlobalSearchPanelProps {
+  // Every document, the open one with its unsaved edits
+  documents: WorkspaceDocument[];
+  activeDocumentId: string | null;
+  onOpenMatch: (documentId: string, start: number, end: number) => void;
+  onReplaceAll: (replacements: DocumentReplacement[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface DocumentMatches {
+  document: WorkspaceDocument;
+  matches: SearchMatch[];
+}
+
+interface MatchLine {
+  match: SearchMatch;
+  line: number;
+  before: string;
+  after: string;
+}
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-2 py-1.5 rounded text-xs outline-none focus:border-[var(--accent-primary)]";
+
+// Results rendered across all documents; replacing still covers every match
+const MAX_SHOWN_RESULTS = 500;
+
+// Characters of the line shown on each side of a match
+const CONTEXT_LENGTH = 24;
+
+// Matches can span lines, but each result stays on one
+const showBreaks = (text: string) => text.replace(/\n/g, "↵");
+
+/** Line numbers and surrounding text of matches, which are in document order. */
+const toMatchLines = (text: string, matches: SearchMatch[]): MatchLine[] => {
+  let line = 1;
+  let position = 0;
+  return matches.map((match) => {
+    for (; position < match.start; position++) {
+      if (text[position] === "\n") line++;
+    }
+    const lineStart = text.lastIndexOf("\n", match.start - 1) + 1;
+    const lineEnd = text.indexOf("\n", match.end);
+    return {
+      match,
+      line,
+      before: text.slice(Math.max(lineStart, match.start - CONTEXT_LENGTH), match.start),
+      after: text.slice(
+        match.end,
+        Math.min(lineEnd === -1 ? text.length : lineEnd, match.end + CONTEXT_LENGTH)
+      ),
+    };
+  });
+};
+
+const OptionToggle = ({
+  icon,
+  title,
+  active,
+  onClick,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  active: boolean;
+  onClick: () => void;
+}) => (
+  <button
+    onClick={onClick}
+    className={cn(
+      "p-1 rounded transition-colors",
+      active
+        ? "bg-[var(--accent-primary)]/20 text-[var(--accent-primary)]"
+        : "text-[var(--fg-secondary)] hover:text-[var(--fg-primary)]"
+    )}
+    title={title}
+    aria-pressed={active}
+  >
+    {icon}
+  </button>
+);
+
+export const GlobalSearchPanel: React.FC<GlobalSearchPanelProps> = ({
+  documents,
+  activeDocumentId,
+  onOpenMatch,
+  onReplaceAll,
+  onClose,
+}) => {
+  const [term, setTerm] = useState("");
+  const [replaceTerm, setReplaceTerm] = useState("");
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [isReplacing, setIsReplacing] = useState(false);
+  // Searching every document on each keystroke would hold up typing
+  const deferredTerm = useDeferredValue(term);
+  const deferredReplaceTerm = useDeferredValue(replaceTerm);
+
+  const { groups, error } = useMemo((): { groups: DocumentMatches[]; error: string | null } => {
+    try {
+      const found = documents
+        .map((document) => ({
+          document,
+          matches: findMatches(document.content, deferredTerm, deferredReplaceTerm, options),
+        }))
+        .filter((group) => group.matches.length > 0);
+      return { groups: found, error: null };
+    } catch (e) {
+      if (!(e instanceof SearchPatternError)) throw e;
+      return { groups: [], error: e.message };
+    }
+  }, [documents, deferredTerm, deferredReplaceTerm, options]);
+
+  const total = groups.reduce((count, group) => count + group.matches.length, 0);
+
+  const toggleOption = (key: keyof SearchOptions) =>
+    setOptions((o) => ({ ...o, [key]: !o[key] }));
+
+  const toggleCollapsed = (id: string) =>
+    setCollapsed((ids) => {
+      const next = new Set(ids);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const handleReplaceAll = async () => {
+    if (
+      !window.confirm(
+        `Replace ${total} ${total === 1 ? "match" : "matches"} in ${groups.length} ${
+          groups.length === 1 ? "document" : "documents"
+        }?`
+      )
+    ) {
+      return;
+    }
+    setIsReplacing(true);
+    try {
+      await onReplaceAll(
+        groups.map((group) => ({
+          documentId: group.document.id,
+          content: applyReplacements(group.document.content, group.matches),
+          count: group.matches.length,
+        }))
+      );
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+
+  let shown = 0;
+
+  return (
+    <aside className="absolute top-0 right-0 h-full w-full sm:w-80 z-30 bg-[var(--bg-secondary)] border-l border-[var(--border-primary)] shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-[var(--border-primary)] shrink-0">
+        <h3 className="text-sm font-bold flex items-center gap-2">
+          <Search className="w-4 h-4 text-[var(--accent-primary)]" />
+          Search All Documents
+        </h3>
+        <button onClick={onClose} className="text-[var(--fg-secondary)] hover:text-white">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="px-4 py-3 border-b border-[var(--border-primary)] shrink-0 flex flex-col gap-2">
+        <input
+          autoFocus
+          value={term}
+          placeholder="Search"
+          onChange={(e) => setTerm(e.target.value)}
+          className={cn(inputClass, error && "border-red-500 focus:border-red-500")}
+        />
+        <div className="flex items-center gap-1">
+          <OptionToggle
+            icon={<CaseSensitive size={14} />}
+            title="Match Case"
+            active={options.matchCase}
+            onClick={() => toggleOption("matchCase")}
+          />
+          <OptionToggle
+            icon={<WholeWord size={14} />}
+            title="Whole Word"
+            active={options.wholeWord}
+            onClick={() => toggleOption("wholeWord")}
+          />
+          <OptionToggle
+            icon={<Regex size={14} />}
+            title="Regular Expression"
+            active={options.regex}
+            onClick={() => toggleOption("regex")}
+          />
+          <OptionToggle
+            icon={<CaseUpper size={14} />}
+            title="Preserve Case"
+            active={options.preserveCase}
+            onClick={() => toggleOption("preserveCase")}
+          />
+          <span className="ml-auto text-[10px] font-mono text-[var(--fg-secondary)]">
+            {deferredTerm && !error && `${total} in ${groups.length}`}
+          </span>
+        </div>
+        {error && <p className="text-[10px] text-red-400 font-mono">Invalid pattern: {error}</p>}
+        <div className="flex gap-2">
+          <input
+            value={replaceTerm}
+            placeholder={options.regex ? "Replace ($1 for groups)" : "Replace"}
+            onChange={(e) => setReplaceTerm(e.target.value)}
+            className={inputClass}
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleReplaceAll}
+            disabled={total === 0 || isReplacing || term !== deferredTerm}
+            title="Replace in all documents"
+          >
+            {isReplacing ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <ReplaceAll className="w-3.5 h-3.5" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar py-2">
+        {deferredTerm && !error && groups.length === 0 && (
+          <p className="text-xs text-[var(--fg-secondary)] px-4 py-2">No results.</p>
+        )}
+        {groups.map(({ document, matches }) => {
+          if (shown >= MAX_SHOWN_RESULTS) return null;
+          const isCollapsed = collapsed.has(document.id);
+          const lines = isCollapsed
+            ? []
+            : toMatchLines(document.content, matches.slice(0, MAX_SHOWN_RESULTS - shown));
+          shown += lines.length;
+          return (
+            <div key={document.id} className="flex flex-col">
+              <button
+                onClick={() => toggleCollapsed(document.id)}
+                className="flex items-center gap-1.5 px-3 py-1 text-xs font-bold hover:bg-[var(--bg-tertiary)]/50"
+              >
+                {isCollapsed ? (
+                  <ChevronRight className="w-3 h-3 shrink-0 opacity-60" />
+                ) : (
+                  <ChevronDown className="w-3 h-3 shrink-0 opacity-60" />
+                )}
+                <FileText className="w-3.5 h-3.5 shrink-0 text-[var(--accent-primary)]" />
+                <span
+                  className={cn(
+                    "truncate",
+                    document.id === activeDocumentId && "text-[var(--accent-primary)]"
+                  )}
+                >
+                  {document.fileName}
+                </span>
+                <span className="ml-auto text-[10px] font-mono text-[var(--fg-secondary)]">
+                  {matches.length}
+                </span>
+              </button>
+              {lines.map(({ match, line, before, after }) => (
+                <button
+                  key={match.start}
+                  onClick={() => onOpenMatch(document.id, match.start, match.end)}
+                  className="flex gap-2 pl-9 pr-3 py-0.5 text-left text-[11px] font-mono hover:bg-[var(--bg-tertiary)]"
+                >
+                  <span className="shrink-0 w-7 text-right text-[var(--fg-secondary)] opacity-60">
+                    {line}
+                  </span>
+                  <span className="truncate whitespace-pre">
+                    <span className="text-[var(--fg-secondary)]">{before}</span>
+                    <span
+                      className={cn(
+                        replaceTerm
+                          ? "bg-red-500/15 text-red-400 line-through decoration-red-400/70"
+                          : "bg-[var(--accent-primary)]/25 text-[var(--fg-primary)]"
+                      )}
+                    >
+                      {showBreaks(document.content.slice(match.start, match.end))}
+                    </span>
+                    {replaceTerm && (
+                      <span className="bg-green-500/15 text-green-400">
+                        {showBreaks(match.replacement)}
+                      </span>
+                    )}
+                    <span className="text-[var(--fg-secondary)]">{after}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          );
+        })}
+        {total > MAX_SHOWN_RESULTS && shown >= MAX_SHOWN_RESULTS && (
+          <p className="text-[10px] text-[var(--fg-secondary)] px-4 py-2">
+            Showing the first {MAX_SHOWN_RESULTS} results. Refine the search to see more.
+          </p>
+        )}
+      </div>
+    </aside>
+  );
+};
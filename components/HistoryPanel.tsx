@@ -0,0 +1,218 @@
+import React, { useMemo, useState } from "react";
+import { diffLines } from "diff";
+import { cn } from "../utils";
+import type { Revision } from "../lib/history";
+import { Button } from "./ui";
+import { Bookmark, History, RotateCcw, X } from "lucide-react";
+
+interface HistoryPanelProps {
+  revisions: Revision[];
+  currentContent: string;
+  onRestore: (revision: Revision) => void;
+  onCheckpoint: (label: string) => void;
+  onClose: () => void;
+}
+
+// The editor content, shown alongside the stored revisions
+const CURRENT = "current";
+
+// Unchanged lines shown around each change; longer runs are collapsed
+const CONTEXT_LINES = 3;
+
+type DiffLine =
+  | { kind: "added" | "removed" | "unchanged"; text: string }
+  | { kind: "collapsed"; count: number };
+
+const toLines = (value: string) => value.replace(/\n$/, "").split("\n");
+
+const buildDiff = (from: string, to: string): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  const parts = diffLines(from, to);
+  parts.forEach((part, index) => {
+    const texts = toLines(part.value);
+    if (part.added || part.removed) {
+      const kind = part.added ? "added" : "removed";
+      texts.forEach((text) => lines.push({ kind, text }));
+      return;
+    }
+    const head = index === 0 ? 0 : CONTEXT_LINES;
+    const tail = index === parts.length - 1 ? 0 : CONTEXT_LINES;
+    if (texts.length <= head + tail + 1) {
+      texts.forEach((text) => lines.push({ kind: "unchanged", text }));
+      return;
+    }
+    texts.slice(0, head).forEach((text) => lines.push({ kind: "unchanged", text }));
+    lines.push({ kind: "collapsed", count: texts.length - head - tail });
+    texts.slice(texts.length - tail).forEach((text) => lines.push({ kind: "unchanged", text }));
+  });
+  return lines;
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  revisions,
+  currentContent,
+  onRestore,
+  onCheckpoint,
+  onClose,
+}) => {
+  const newestFirst = useMemo(() => [...revisions].reverse(), [revisions]);
+  const [fromId, setFromId] = useState(() => newestFirst[0]?.id ?? CURRENT);
+  const [toId, setToId] = useState(CURRENT);
+  const [checkpointName, setCheckpointName] = useState("");
+
+  const contentOf = (id: string) =>
+    id === CURRENT
+      ? currentContent
+      : revisions.find((revision) => revision.id === id)?.content ?? "";
+  const selected = revisions.find((revision) => revision.id === fromId);
+
+  const fromContent = contentOf(fromId);
+  const toContent = contentOf(toId);
+  const diff = useMemo(() => buildDiff(fromContent, toContent), [fromContent, toContent]);
+  const added = diff.filter((line) => line.kind === "added").length;
+  const removed = diff.filter((line) => line.kind === "removed").length;
+
+  const saveCheckpoint = () => {
+    const label = checkpointName.trim();
+    if (!label) return;
+    onCheckpoint(label);
+    setCheckpointName("");
+  };
+
+  const revisionTitle = (revision: Revision) => revision.label || "Edit";
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-md z-[100] flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-xl w-full max-w-5xl h-[85vh] shadow-2xl animate-in zoom-in-95 duration-200 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-[var(--border-primary)] shrink-0">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <History className="w-5 h-5 text-[var(--accent-primary)]" />
+            Version History
+          </h3>
+          <button onClick={onClose} className="text-[var(--fg-secondary)] hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          <div className="md:w-72 shrink-0 border-b md:border-b-0 md:border-r border-[var(--border-primary)] flex flex-col max-h-60 md:max-h-none">
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-2 flex flex-col gap-1">
+              {newestFirst.length === 0 && (
+                <p className="text-xs text-[var(--fg-secondary)] p-2">No revisions yet.</p>
+              )}
+              {newestFirst.map((revision) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setFromId(revision.id)}
+                  className={cn(
+                    "text-left px-3 py-2 rounded border transition-colors",
+                    revision.id === fromId
+                      ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/10"
+                      : "border-transparent hover:bg-[var(--bg-tertiary)]"
+                  )}
+                >
+                  <div className="flex items-center gap-1.5 text-xs font-bold text-[var(--fg-primary)] truncate">
+                    {revision.label && (
+                      <Bookmark size={12} className="shrink-0 text-[var(--accent-primary)]" />
+                    )}
+                    <span className="truncate">{revisionTitle(revision)}</span>
+                  </div>
+                  <div className="text-[10px] text-[var(--fg-secondary)] font-mono mt-0.5">
+                    {formatTime(revision.createdAt)}
+                  </div>
+                </button>
+              ))}
+            </div>
+            <div className="p-3 border-t border-[var(--border-primary)] flex gap-2 shrink-0">
+              <input
+                value={checkpointName}
+                placeholder="Checkpoint name"
+                onChange={(e) => setCheckpointName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && saveCheckpoint()}
+                className="flex-1 min-w-0 bg-[var(--bg-primary)] border border-[var(--border-primary)] px-2 py-1.5 rounded text-xs outline-none focus:border-[var(--accent-primary)]"
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={saveCheckpoint}
+                disabled={!checkpointName.trim()}
+                title="Name the current version"
+              >
+                <Bookmark className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0 min-h-0">
+            <div className="px-4 py-2 border-b border-[var(--border-primary)] flex flex-wrap items-center gap-2 text-xs shrink-0">
+              <span className="text-[var(--fg-secondary)]">Compare with</span>
+              <select
+                value={toId}
+                onChange={(e) => setToId(e.target.value)}
+                className="bg-[var(--bg-primary)] border border-[var(--border-primary)] px-2 py-1 rounded outline-none focus:border-[var(--accent-primary)]"
+              >
+                <option value={CURRENT}>Current draft</option>
+                {newestFirst.map((revision) => (
+                  <option key={revision.id} value={revision.id}>
+                    {revisionTitle(revision)} · {formatTime(revision.createdAt)}
+                  </option>
+                ))}
+              </select>
+              <span className="font-mono text-green-500">+{added}</span>
+              <span className="font-mono text-red-500">-{removed}</span>
+              <Button
+                variant="primary"
+                size="sm"
+                className="ml-auto"
+                disabled={!selected || selected.content === currentContent}
+                onClick={() => selected && onRestore(selected)}
+              >
+                <RotateCcw className="w-3.5 h-3.5 mr-2" />
+                Restore
+              </Button>
+            </div>
+            <div className="flex-1 overflow-auto custom-scrollbar font-mono text-xs py-2">
+              {added === 0 && removed === 0 ? (
+                <p className="px-4 py-2 text-[var(--fg-secondary)] font-sans">No differences.</p>
+              ) : (
+                diff.map((line, index) =>
+                  line.kind === "collapsed" ? (
+                    <div
+                      key={index}
+                      className="px-4 py-1 my-1 text-[10px] text-[var(--fg-secondary)] bg-[var(--bg-tertiary)]/50"
+                    >
+                      ⋯ {line.count} unchanged lines
+                    </div>
+                  ) : (
+                    <div
+                      key={index}
+                      className={cn(
+                        "px-4 whitespace-pre-wrap break-all",
+                        line.kind === "added" && "bg-green-500/15 text-green-400",
+                        line.kind === "removed" && "bg-red-500/15 text-red-400"
+                      )}
+                    >
+                      <span className="select-none opacity-60 mr-2">
+                        {line.kind === "added" ? "+" : line.kind === "removed" ? "-" : " "}
+                      </span>
+                      {line.text || " "}
+                    </div>
+                  )
+                )
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
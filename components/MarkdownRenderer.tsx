@@ -1,24 +1,33 @@
 import React, { useEffect, useState, useRef } from 'react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
+import { PAGE_BREAK_CLASS, remarkPageBreaks } from '../lib/pageBreak';
+import { renderMermaid } from '../lib/mermaid';
+import { isAssetUrl, resolveAssetUrl } from '../lib/assets';
+import { documentIdFromLink, isDocumentLink } from '../lib/workspace';
+import { rehypeCommentHighlights, type CommentRange } from '../lib/commentHighlights';
 import { cn } from '../utils';
 import { Check, Copy } from 'lucide-react';
 
 // Dynamic imports for heavy libraries
 const loadShiki = () => import('shiki').then(m => m.createHighlighter);
-const loadMermaid = () => import('mermaid');
 
 interface MarkdownRendererProps {
   content: string;
   className?: string;
   searchMatch?: { start: number; end: number } | null;
+  // Called for doc:// links; without it they render as plain text
+  onOpenDocument?: (id: string) => void;
+  // Commented source ranges to highlight; also enables source offsets for selections
+  comments?: CommentRange[];
+  activeCommentId?: string | null;
+  onCommentClick?: (id: string) => void;
 }
 
 // Singleton to cache the highlighter instance
 let highlighterPromise: Promise<any> | null = null;
-let mermaidInitialized = false;
 
 const getHighlighter = () => {
   if (!highlighterPromise) {
@@ -36,27 +45,52 @@ const getHighlighter = () => {
   return highlighterPromise;
 };
 
-// Initialize Mermaid lazily
-const initializeMermaid = async () => {
-  if (!mermaidInitialized) {
-    const mermaidModule = await loadMermaid();
-    mermaidModule.default.initialize({
-      startOnLoad: false,
-      theme: 'dark',
-      securityLevel: 'loose',
-      themeVariables: {
-        fontFamily: 'Inter',
-        primaryColor: '#d79921',
-        primaryTextColor: '#ebdbb2',
-        primaryBorderColor: '#d79921',
-        lineColor: '#ebdbb2',
-        secondaryColor: '#3c3836',
-        tertiaryColor: '#282828',
-      }
+// Local assets, links between documents and images embedded in shared links
+// are allowed on top of react-markdown's safe protocols
+const urlTransform = (url: string) =>
+  isAssetUrl(url) || isDocumentLink(url) || /^data:image\//i.test(url)
+    ? url
+    : defaultUrlTransform(url);
+
+// Resolves asset:// references to object URLs from IndexedDB.
+// undefined while loading, null when the asset is not stored in this browser.
+const useImageSrc = (src?: string) => {
+  const [resolved, setResolved] = useState<string | null | undefined>(() =>
+    src && isAssetUrl(src) ? undefined : src ?? null
+  );
+
+  useEffect(() => {
+    if (!src || !isAssetUrl(src)) {
+      setResolved(src ?? null);
+      return;
+    }
+    let cancelled = false;
+    setResolved(undefined);
+    resolveAssetUrl(src).then((url) => {
+      if (!cancelled) setResolved(url);
     });
-    mermaidInitialized = true;
-  }
-  return loadMermaid();
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  return resolved;
+};
+
+const MarkdownImage = ({ src, alt, className, ...props }: React.ImgHTMLAttributes<HTMLImageElement>) => {
+  const resolved = useImageSrc(typeof src === 'string' ? src : undefined);
+  return (
+    <span className="block my-6 text-center">
+      {resolved ? (
+        <img className={cn("max-w-full h-auto rounded-sm border border-[var(--border-primary)] mx-auto shadow-lg", className)} {...props} src={resolved} alt={alt || 'Content image'} />
+      ) : resolved === null && src && isAssetUrl(src) ? (
+        <span className="inline-block px-3 py-2 border border-dashed border-[var(--border-primary)] rounded-sm text-xs text-[var(--fg-secondary)]">
+          Image not available in this browser
+        </span>
+      ) : null}
+      {alt && <span className="block text-center text-[10px] mt-2 text-[var(--fg-secondary)] italic">{alt}</span>}
+    </span>
+  );
 };
 
 const MermaidBlock = ({ chart }: { chart: string }) => {
@@ -69,10 +103,7 @@ const MermaidBlock = ({ chart }: { chart: string }) => {
       if (!chart) return;
       setLoading(true);
       try {
-        const mermaidModule = await initializeMermaid();
-        const id = 'mermaid-' + Math.random().toString(36).substring(2, 9);
-        const { svg: renderedSvg } = await mermaidModule.default.render(id, chart);
-        setSvg(renderedSvg);
+        setSvg(await renderMermaid(chart));
         setError(null);
       } catch (err) {
         // console.error("Mermaid Render Error", err);
@@ -217,12 +248,13 @@ const CodeBlock = ({ inline, className, children, ...props }: any) => {
   );
 };
 
-export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, className, searchMatch }) => {
+export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, className, searchMatch, onOpenDocument, comments, activeCommentId, onCommentClick }) => {
   return (
     <div className={cn("markdown-body w-full min-w-0 max-w-full break-words selection:bg-[var(--accent-primary)]/30", className)}>
       <ReactMarkdown
-        remarkPlugins={[remarkGfm, remarkMath]}
-        rehypePlugins={[rehypeKatex]}
+        remarkPlugins={[remarkGfm, remarkMath, remarkPageBreaks]}
+        rehypePlugins={comments ? [rehypeKatex, [rehypeCommentHighlights, { ranges: comments }]] : [rehypeKatex]}
+        urlTransform={urlTransform}
         components={{
           code: CodeBlock,
           table: ({ children, ...props }) => (
@@ -232,15 +264,49 @@ export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, cla
               </table>
             </div>
           ),
-          a: ({ node, className, ...props }) => (
-             <a className={cn("text-[var(--accent-primary)] hover:underline break-all transition-colors", className)} {...props} />
-          ),
-          img: ({ node, className, ...props }) => (
-            <span className="block my-6 text-center">
-              <img className={cn("max-w-full h-auto rounded-sm border border-[var(--border-primary)] mx-auto shadow-lg", className)} {...props} alt={props.alt || 'Content image'} />
-              {props.alt && <span className="block text-center text-[10px] mt-2 text-[var(--fg-secondary)] italic">{props.alt}</span>}
-            </span>
-          ),
+          div: ({ node, className, ...props }) =>
+            className === PAGE_BREAK_CLASS ? (
+              <div className={cn(className, "flex items-center gap-3 my-8 text-[10px] uppercase tracking-widest text-[var(--fg-secondary)] opacity-60 select-none")}>
+                <span className="flex-1 border-t border-dashed border-[var(--border-primary)]" />
+                Page break
+                <span className="flex-1 border-t border-dashed border-[var(--border-primary)]" />
+              </div>
+            ) : (
+              <div className={className} {...props} />
+            ),
+          a: ({ node, className, href, ...props }) =>
+            href && isDocumentLink(href) ? (
+              onOpenDocument ? (
+                <a
+                  className={cn("text-[var(--accent-primary)] hover:underline break-all transition-colors cursor-pointer", className)}
+                  href={href}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    onOpenDocument(documentIdFromLink(href));
+                  }}
+                  {...props}
+                />
+              ) : (
+                <span className={className}>{props.children}</span>
+              )
+            ) : (
+              <a className={cn("text-[var(--accent-primary)] hover:underline break-all transition-colors", className)} href={href} {...props} />
+            ),
+          img: ({ node, ...props }) => <MarkdownImage {...props} />,
+          mark: ({ node, className, ...props }) => {
+            const commentId = (props as Record<string, unknown>)['data-comment-id'] as string | undefined;
+            return (
+              <mark
+                className={cn(
+                  commentId && "bg-[var(--accent-primary)]/15 text-inherit border-b-2 border-[var(--accent-primary)]/60 cursor-pointer rounded-sm transition-colors",
+                  commentId && commentId === activeCommentId && "bg-[var(--accent-primary)]/35 border-[var(--accent-primary)]",
+                  className
+                )}
+                onClick={commentId && onCommentClick ? () => onCommentClick(commentId) : undefined}
+                {...props}
+              />
+            );
+          },
           p: ({ node, className, ...props }) => (
              <p className={cn("mb-4 last:mb-0 leading-relaxed overflow-wrap-anywhere", className)} {...props} />
           ),
@@ -0,0 +1,89 @@
+import React from "react";
+import {
+  MAX_MARGIN_MM,
+  MIN_MARGIN_MM,
+  PAGE_SIZES,
+  type PdfSettings,
+} from "../lib/exportPdf";
+
+interface PdfPageSetupProps {
+  settings: PdfSettings;
+  onChange: (settings: PdfSettings) => void;
+}
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-3 py-2 rounded text-xs outline-none focus:border-[var(--accent-primary)]";
+
+const labelClass =
+  "text-[10px] font-bold text-[var(--fg-secondary)] uppercase tracking-widest ml-1";
+
+export const PdfPageSetup: React.FC<PdfPageSetupProps> = ({ settings, onChange }) => {
+  const update = <K extends keyof PdfSettings>(key: K, value: PdfSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  return (
+    <div className="border border-[var(--border-primary)] rounded p-4 flex flex-col gap-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="flex flex-col gap-1.5">
+          <label className={labelClass}>Page Size</label>
+          <select
+            value={settings.pageSize}
+            onChange={(e) => update("pageSize", e.target.value as PdfSettings["pageSize"])}
+            className={inputClass}
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size.id} value={size.id}>
+                {size.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <label className={labelClass}>Orientation</label>
+          <select
+            value={settings.orientation}
+            onChange={(e) => update("orientation", e.target.value as PdfSettings["orientation"])}
+            className={inputClass}
+          >
+            <option value="portrait">Portrait</option>
+            <option value="landscape">Landscape</option>
+          </select>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <label className={labelClass}>Margin (mm)</label>
+          <input
+            type="number"
+            min={MIN_MARGIN_MM}
+            max={MAX_MARGIN_MM}
+            value={settings.marginMm}
+            // Clamped to the allowed range at export time so typing isn't interrupted
+            onChange={(e) => update("marginMm", Number(e.target.value))}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex flex-col gap-1.5">
+        <label className={labelClass}>Header</label>
+        <input
+          value={settings.header}
+          placeholder="Leave empty for none"
+          onChange={(e) => update("header", e.target.value)}
+          className={inputClass}
+        />
+      </div>
+      <div className="flex flex-col gap-1.5">
+        <label className={labelClass}>Footer</label>
+        <input
+          value={settings.footer}
+          placeholder="Leave empty for none"
+          onChange={(e) => update("footer", e.target.value)}
+          className={inputClass}
+        />
+      </div>
+      <p className="text-[10px] text-[var(--fg-secondary)] opacity-70 ml-1">
+        Use {"{title}"}, {"{page}"}, {"{pages}"} and {"{date}"} in the header and footer. Add{" "}
+        <code>&lt;!-- pagebreak --&gt;</code> on its own line to start a new page.
+      </p>
+    </div>
+  );
+};
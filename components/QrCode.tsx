@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from "react";
+import { Button, toast } from "./ui";
+import { AlertTriangle, Download, Loader2 } from "lucide-react";
+
+// Loaded on demand; everything is generated in the browser
+const loadQrCode = () => import("qrcode");
+
+// Byte-mode capacity of a version 40 code with low error correction
+export const QR_MAX_LENGTH = 2953;
+// Beyond this, codes get too dense for most phone cameras
+export const QR_SCANNABLE_LENGTH = 1000;
+
+interface QrCodeProps {
+  value: string;
+  fileName: string;
+}
+
+const downloadUrl = (url: string, name: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+};
+
+export const QrCode: React.FC<QrCodeProps> = ({ value, fileName }) => {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Short links can afford more redundancy, which makes them easier to scan
+  const errorCorrectionLevel = value.length > 500 ? "L" : "M";
+
+  useEffect(() => {
+    if (value.length > QR_MAX_LENGTH) {
+      setSvg(null);
+      setError(`This link is ${value.length} characters; QR codes hold at most ${QR_MAX_LENGTH}.`);
+      return;
+    }
+
+    let cancelled = false;
+    setSvg(null);
+    setError(null);
+    loadQrCode()
+      .then((QRCode) =>
+        QRCode.toString(value, { type: "svg", errorCorrectionLevel, margin: 2 })
+      )
+      .then((rendered) => {
+        if (!cancelled) setSvg(rendered);
+      })
+      .catch((err) => {
+        console.error("QR generation failed:", err);
+        if (!cancelled) setError("Failed to generate QR code.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [value, errorCorrectionLevel]);
+
+  const handleDownloadSvg = () => {
+    if (!svg) return;
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    downloadUrl(url, `${fileName}.svg`);
+    URL.revokeObjectURL(url);
+    toast.success("QR code downloaded!");
+  };
+
+  const handleDownloadPng = async () => {
+    try {
+      const QRCode = await loadQrCode();
+      const dataUrl = await QRCode.toDataURL(value, {
+        errorCorrectionLevel,
+        margin: 2,
+        width: 1024,
+      });
+      downloadUrl(dataUrl, `${fileName}.png`);
+      toast.success("QR code downloaded!");
+    } catch (err) {
+      console.error("QR PNG export failed:", err);
+      toast.error("Failed to export PNG.");
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 text-xs text-[var(--fg-secondary)] flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 text-yellow-500 shrink-0" />
+        <span>{error} Use a short link or split the document instead.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="bg-white p-2 rounded w-56 h-56 flex items-center justify-center">
+        {svg ? (
+          <div
+            className="w-full h-full [&>svg]:w-full [&>svg]:h-full"
+            dangerouslySetInnerHTML={{ __html: svg }}
+          />
+        ) : (
+          <Loader2 className="w-8 h-8 text-[#181a1f] animate-spin" />
+        )}
+      </div>
+      {value.length > QR_SCANNABLE_LENGTH && (
+        <p className="text-[10px] text-yellow-500 flex items-center gap-1.5 text-center">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+          This code is very dense ({value.length} chars) and may not scan reliably.
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button variant="secondary" size="sm" onClick={handleDownloadPng} disabled={!svg}>
+          <Download className="w-3.5 h-3.5 mr-1.5" />
+          PNG
+        </Button>
+        <Button variant="secondary" size="sm" onClick={handleDownloadSvg} disabled={!svg}>
+          <Download className="w-3.5 h-3.5 mr-1.5" />
+          SVG
+        </Button>
+      </div>
+    </div>
+  );
+};
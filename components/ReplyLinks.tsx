@@ -0,0 +1,44 @@
+import React from "react";
+import { Button, toast } from "./ui";
+import { Copy } from "lucide-react";
+
+interface ReplyLinksProps {
+  // One link, or the parts of a reply too long for one
+  links: string[];
+  // e.g. "Comments", for "Comments link copied!"
+  label: string;
+}
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-2 py-1.5 rounded text-xs outline-none focus:border-[var(--accent-primary)] font-mono";
+
+/** Links a recipient sends back to the author, each with a copy button. */
+export const ReplyLinks: React.FC<ReplyLinksProps> = ({ links, label }) => (
+  <div className="flex flex-col gap-1 max-h-40 overflow-y-auto custom-scrollbar">
+    {links.length > 1 && (
+      <p className="text-[10px] text-[var(--fg-secondary)]">
+        Too long for one link: send all {links.length} parts.
+      </p>
+    )}
+    {links.map((link, index) => (
+      <div key={index} className="flex gap-2 items-center">
+        {links.length > 1 && (
+          <span className="text-[10px] font-mono text-[var(--fg-secondary)] shrink-0 w-6">
+            {index + 1}/{links.length}
+          </span>
+        )}
+        <input readOnly value={link} onFocus={(e) => e.target.select()} className={inputClass} />
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() =>
+            navigator.clipboard.writeText(link).then(() => toast.success(`${label} link copied!`))
+          }
+          title="Copy link"
+        >
+          <Copy className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+    ))}
+  </div>
+);
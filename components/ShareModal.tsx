@@ -0,0 +1,659 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  buildViewUrl,
+  cn,
+  MAX_SHAREABLE_URL_LENGTH,
+} from "../utils";
+import { encryptWithPassphrase, encryptWithRandomKey } from "../lib/crypto";
+import { shortenUrl } from "../lib/shortener";
+import { encodePayload, type EncodedPayload } from "../lib/codec";
+import { ASSET_PROTOCOL, prepareAssetsForSharing, type SharedAssets } from "../lib/assets";
+import { attachComments, type CommentThread } from "../lib/comments";
+import {
+  MAX_SHARE_PARTS,
+  partOverhead,
+  partToParams,
+  splitPayload,
+  type PayloadKind,
+} from "../lib/chunks";
+import { ShortenerSettings } from "./ShortenerSettings";
+import { QrCode } from "./QrCode";
+import { Button, toast } from "./ui";
+import {
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  Clipboard,
+  Copy,
+  Download,
+  KeyRound,
+  Link as LinkIcon,
+  Loader2,
+  Lock,
+  MessageSquare,
+  QrCode as QrIcon,
+  Scissors,
+  Settings,
+  Share2,
+  X,
+} from "lucide-react";
+
+interface ShareModalProps {
+  markdown: string;
+  // Review threads travel with the document
+  comments?: CommentThread[];
+  // Named in the link so replies from its readers find the document
+  documentId: string | null;
+  fileName: string;
+  onClose: () => void;
+}
+
+type ShareMode = "standard" | "encrypted" | "passphrase";
+
+// What goes into the link: `kind` is the query parameter carrying `payload`,
+// and `key` is appended as the fragment for encrypted links.
+interface SharePayload {
+  kind: PayloadKind;
+  payload: string;
+  key?: string;
+}
+
+const SHARE_MODE_KEY = "ghost-md-share-mode";
+const SHARE_IMAGES_KEY = "ghost-md-share-images";
+// Encrypted payloads are base64 of the ciphertext, a third larger than the input
+const ENCRYPTION_EXPANSION = 4 / 3;
+// Compressed data URIs come out at roughly their own length; leave some slack
+const IMAGE_BUDGET_SAFETY = 0.9;
+const MIN_PASSPHRASE_LENGTH = 6;
+
+const SHARE_MODES: {
+  id: ShareMode;
+  label: string;
+  icon: React.ReactNode;
+  description: string;
+}[] = [
+  {
+    id: "standard",
+    label: "Standard",
+    icon: <LinkIcon size={16} />,
+    description:
+      "Your content is encoded directly into this URL. Privacy by design—no database used.",
+  },
+  {
+    id: "encrypted",
+    label: "Encrypted",
+    icon: <KeyRound size={16} />,
+    description:
+      "Your content is encrypted in your browser. The key lives only in the link fragment after the second #, so shorteners and logs only ever see ciphertext.",
+  },
+  {
+    id: "passphrase",
+    label: "Passphrase",
+    icon: <Lock size={16} />,
+    description:
+      "Your content is encrypted in your browser with a passphrase. Send the passphrase through a different channel.",
+  },
+];
+
+const loadShareMode = (): ShareMode => {
+  const saved = localStorage.getItem(SHARE_MODE_KEY);
+  return saved === "encrypted" || saved === "passphrase" ? saved : "standard";
+};
+
+const loadEmbedImages = () => localStorage.getItem(SHARE_IMAGES_KEY) !== "false";
+
+export const ShareModal: React.FC<ShareModalProps> = ({
+  markdown,
+  comments = [],
+  documentId,
+  fileName,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<ShareMode>(loadShareMode);
+  // Mode of the link currently displayed (the passphrase mode waits for input)
+  const [linkMode, setLinkMode] = useState<ShareMode | null>(null);
+  const [shareUrl, setShareUrl] = useState("");
+  const [separateKey, setSeparateKey] = useState<string | null>(null);
+  const [isUrlTooLarge, setIsUrlTooLarge] = useState(false);
+  const [isShortening, setIsShortening] = useState(false);
+  // Compressing the document and its images before the link exists
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [shortenError, setShortenError] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [currentPayload, setCurrentPayload] = useState<SharePayload | null>(null);
+  const [partUrls, setPartUrls] = useState<string[] | null>(null);
+  const [compression, setCompression] = useState<EncodedPayload | null>(null);
+  const [embedImages, setEmbedImages] = useState(loadEmbedImages);
+  const [sharedAssets, setSharedAssets] = useState<SharedAssets | null>(null);
+  // QR code shown for the main link or for one part (0-based) of a split share
+  const [qrTarget, setQrTarget] = useState<"link" | number | null>(null);
+
+  const wordCount = markdown.split(/\s+/).filter(Boolean).length;
+  const hasAssets = markdown.includes(ASSET_PROTOCOL);
+
+  // The key fragment is never sent to the shortener; if the URL must be
+  // shortened the key is shown separately instead.
+  const publishUrl = useCallback(async (share: SharePayload) => {
+    const generatedUrl = buildViewUrl({ [share.kind]: share.payload });
+    const keyFragment = share.key ?? "";
+    const fullUrl = keyFragment ? `${generatedUrl}#${keyFragment}` : generatedUrl;
+    setCurrentPayload(share);
+    setPartUrls(null);
+    setQrTarget((target) => (target === "link" ? target : null));
+
+    if (fullUrl.length > MAX_SHAREABLE_URL_LENGTH) {
+      // URL is too long - try to shorten it
+      setIsShortening(true);
+      setShortenError(null);
+
+      try {
+        const shortUrl = await shortenUrl(generatedUrl);
+        setShareUrl(shortUrl);
+        setSeparateKey(keyFragment || null);
+        setIsUrlTooLarge(false);
+        toast.success("Short link generated!");
+      } catch (error) {
+        console.error("Failed to shorten URL:", error);
+        setShareUrl(fullUrl);
+        setSeparateKey(null);
+        setShortenError(error instanceof Error ? error.message : String(error));
+        setIsUrlTooLarge(true);
+        // URL too large even for shortener - show fallback options
+        toast.error("Document too large for URL sharing");
+      } finally {
+        setIsShortening(false);
+      }
+    } else {
+      // URL is short enough to use directly
+      setShareUrl(fullUrl);
+      setSeparateKey(null);
+      setIsUrlTooLarge(false);
+      toast.success("Sharable link generated!");
+    }
+  }, []);
+
+  const generateLink = useCallback(
+    async (target: ShareMode, embed = embedImages) => {
+      if (target === "passphrase" && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        toast.error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+
+      setShortenError(null);
+      setIsPreparing(true);
+      try {
+        // Local images only fit if the text leaves room under the URL limit
+        const textOnly = await prepareAssetsForSharing(markdown, { embed: false, budget: 0 });
+        let shared = textOnly;
+        if (embed && textOnly.omitted > 0) {
+          const textUrl = buildViewUrl({
+            c: (await encodePayload(attachComments(textOnly.markdown, comments, documentId))).payload,
+          });
+          const expansion = target === "standard" ? 1 : ENCRYPTION_EXPANSION;
+          const budget =
+            ((MAX_SHAREABLE_URL_LENGTH - textUrl.length * expansion) / expansion) *
+            IMAGE_BUDGET_SAFETY;
+          shared = await prepareAssetsForSharing(markdown, { embed: true, budget });
+        }
+        setSharedAssets(shared.embedded + shared.omitted > 0 ? shared : null);
+
+        const encoded = await encodePayload(attachComments(shared.markdown, comments, documentId));
+        const compressed = encoded.payload;
+        setCompression(encoded);
+        setIsPreparing(false);
+        if (target === "standard") {
+          setLinkMode("standard");
+          await publishUrl({ kind: "c", payload: compressed });
+          return;
+        }
+
+        setIsEncrypting(true);
+        try {
+          if (target === "encrypted") {
+            const { payload, key } = await encryptWithRandomKey(compressed);
+            setLinkMode("encrypted");
+            await publishUrl({ kind: "x", payload, key });
+          } else {
+            const payload = await encryptWithPassphrase(compressed, passphrase);
+            setLinkMode("passphrase");
+            await publishUrl({ kind: "e", payload });
+          }
+        } catch (error) {
+          console.error("Failed to encrypt document:", error);
+          toast.error("Encryption failed. Your browser may not support WebCrypto.");
+        } finally {
+          setIsEncrypting(false);
+        }
+      } catch (error) {
+        console.error("Failed to generate share link:", error);
+        toast.error("Failed to generate share link.");
+      } finally {
+        setIsPreparing(false);
+      }
+    },
+    [markdown, comments, documentId, passphrase, publishUrl, embedImages]
+  );
+
+  useEffect(() => {
+    const initial = loadShareMode();
+    if (initial !== "passphrase") generateLink(initial);
+    // Only generate once when the modal opens; later changes are explicit
+  }, []);
+
+  const handleModeChange = (next: ShareMode) => {
+    setMode(next);
+    localStorage.setItem(SHARE_MODE_KEY, next);
+    if (next === "passphrase") {
+      setLinkMode(null);
+      setShareUrl("");
+      setIsUrlTooLarge(false);
+      setShortenError(null);
+    } else {
+      generateLink(next);
+    }
+  };
+
+  const handleEmbedImagesChange = (next: boolean) => {
+    setEmbedImages(next);
+    localStorage.setItem(SHARE_IMAGES_KEY, String(next));
+    if (linkMode) generateLink(linkMode, next);
+  };
+
+  // Fallback for documents too large for one link: a numbered set of part links
+  const splitMaxDataLength = currentPayload
+    ? MAX_SHAREABLE_URL_LENGTH -
+      buildViewUrl({}).length -
+      partOverhead(MAX_SHARE_PARTS) -
+      (currentPayload.key ? currentPayload.key.length + 1 : 0)
+    : 0;
+  const splitPartCount = currentPayload
+    ? Math.ceil(currentPayload.payload.length / splitMaxDataLength)
+    : 0;
+
+  const handleSplit = () => {
+    if (!currentPayload) return;
+    const parts = splitPayload(
+      currentPayload.kind,
+      currentPayload.payload,
+      splitMaxDataLength
+    );
+    if (!parts) {
+      toast.error(`Too large: more than ${MAX_SHARE_PARTS} links would be needed.`);
+      return;
+    }
+    const fragment = currentPayload.key ? `#${currentPayload.key}` : "";
+    setPartUrls(parts.map((part) => buildViewUrl(partToParams(part)) + fragment));
+    toast.success(`Split into ${parts.length} links!`);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([markdown], { type: "text/markdown" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${fileName.trim() || "document"}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+    toast.success("File downloaded!");
+  };
+
+  const isBusy = isPreparing || isShortening || isEncrypting;
+  const activeMode = SHARE_MODES.find((m) => m.id === (linkMode ?? mode))!;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-md z-[100] flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-[var(--bg-secondary)] border border-[var(--border-primary)] p-6 md:p-8 rounded-xl w-full max-w-lg shadow-2xl animate-in zoom-in-95 duration-200 max-h-full overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            {isBusy ? (
+              <>
+                <Loader2 className="w-5 h-5 text-[var(--accent-primary)] animate-spin" />
+                {isPreparing
+                  ? "Preparing..."
+                  : isEncrypting
+                    ? "Encrypting..."
+                    : "Shortening URL..."}
+              </>
+            ) : isUrlTooLarge ? (
+              <>
+                <AlertTriangle className="w-5 h-5 text-yellow-500" />
+                Document Too Large
+              </>
+            ) : (
+              <>
+                <Share2 className="w-5 h-5 text-[var(--accent-primary)]" />
+                {linkMode ? "Link Ready" : "Share"}
+              </>
+            )}
+          </h3>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+              className={
+                isSettingsOpen
+                  ? "text-[var(--accent-primary)]"
+                  : "text-[var(--fg-secondary)] hover:text-white"
+              }
+              title="Shortener Settings"
+            >
+              <Settings size={18} />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-[var(--fg-secondary)] hover:text-white"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {isSettingsOpen && (
+          <ShortenerSettings
+            onCancel={() => setIsSettingsOpen(false)}
+            onSaved={() => {
+              setIsSettingsOpen(false);
+              if (linkMode) generateLink(linkMode);
+            }}
+          />
+        )}
+
+        <div className="grid grid-cols-3 gap-2 mb-6">
+          {SHARE_MODES.map((option) => (
+            <button
+              key={option.id}
+              disabled={isBusy}
+              onClick={() => handleModeChange(option.id)}
+              className={cn(
+                "flex flex-col items-center justify-center p-3 rounded border transition-all gap-1.5 disabled:opacity-50",
+                mode === option.id
+                  ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/10 text-[var(--accent-primary)]"
+                  : "border-[var(--border-primary)] bg-[var(--bg-primary)] text-[var(--fg-secondary)]"
+              )}
+            >
+              {option.icon}
+              <span className="text-[10px] font-bold">{option.label}</span>
+            </button>
+          ))}
+        </div>
+
+        {hasAssets && (
+          <label className="flex items-center gap-2 mb-6 text-xs text-[var(--fg-secondary)] cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={embedImages}
+              disabled={isBusy}
+              onChange={(e) => handleEmbedImagesChange(e.target.checked)}
+              className="accent-[var(--accent-primary)]"
+            />
+            Embed local images (downscaled to fit the link)
+          </label>
+        )}
+
+        {mode === "passphrase" && !isBusy && (
+          <div className="flex gap-2 mb-6">
+            <input
+              type="password"
+              autoFocus
+              value={passphrase}
+              placeholder={`Passphrase (min. ${MIN_PASSPHRASE_LENGTH} characters)`}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") generateLink("passphrase");
+              }}
+              className="flex-1 min-w-0 bg-[var(--bg-primary)] border border-[var(--border-primary)] px-3 py-2 rounded text-sm outline-none focus:border-[var(--accent-primary)]"
+            />
+            <Button variant="secondary" onClick={() => generateLink("passphrase")}>
+              <Lock className="w-4 h-4 mr-2" />
+              Encrypt
+            </Button>
+          </div>
+        )}
+
+        {isBusy ? (
+          <div className="flex flex-col items-center justify-center py-8">
+            <Loader2 className="w-10 h-10 text-[var(--accent-primary)] animate-spin mb-4" />
+            <p className="text-sm text-[var(--fg-secondary)]">
+              {isPreparing
+                ? "Compressing document..."
+                : isEncrypting
+                  ? "Encrypting document..."
+                  : "Generating short link..."}
+            </p>
+          </div>
+        ) : isUrlTooLarge ? (
+          <>
+            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4 mb-6">
+              <p className="text-sm text-[var(--fg-secondary)] leading-relaxed mb-2">
+                <strong>This document is too large for URL sharing.</strong>
+              </p>
+              <p className="text-xs text-[var(--fg-secondary)] opacity-70">
+                {wordCount} words • URL-based sharing only works for shorter documents.
+              </p>
+              {shortenError && (
+                <p className="text-xs text-[var(--fg-secondary)] opacity-70 mt-1">
+                  Shortener: {shortenError}
+                </p>
+              )}
+            </div>
+            <div className="flex flex-col gap-3 mb-6">
+              <Button
+                variant="primary"
+                className="w-full justify-center"
+                onClick={() => {
+                  navigator.clipboard.writeText(markdown);
+                  toast.success("Content copied to clipboard!");
+                }}
+              >
+                <Clipboard className="w-4 h-4 mr-2" />
+                Copy Content to Clipboard
+              </Button>
+              <Button
+                variant="cyber"
+                className="w-full justify-center"
+                onClick={handleDownload}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download as .md File
+              </Button>
+            </div>
+            <p className="text-[10px] text-[var(--fg-secondary)] text-center mb-4 opacity-60">
+              Share the downloaded file via email, cloud storage, or messaging apps.
+            </p>
+            {partUrls ? (
+              <div className="border border-[var(--border-primary)] rounded p-3 mb-6 flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-[var(--accent-primary)]">
+                    {partUrls.length} part links
+                  </span>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => {
+                      navigator.clipboard.writeText(partUrls.join("\n"));
+                      toast.success("All part links copied!");
+                    }}
+                  >
+                    <Copy className="w-3.5 h-3.5 mr-1.5" />
+                    Copy All
+                  </Button>
+                </div>
+                <p className="text-[10px] text-[var(--fg-secondary)] opacity-70">
+                  The recipient opens every link (in any order) in the same browser.
+                </p>
+                <div className="flex flex-col gap-1.5 max-h-48 overflow-y-auto custom-scrollbar">
+                  {partUrls.map((url, i) => (
+                    <div key={i} className="flex gap-2 items-center">
+                      <span className="text-[10px] font-mono text-[var(--fg-secondary)] w-12 shrink-0">
+                        {i + 1}/{partUrls.length}
+                      </span>
+                      <input
+                        type="text"
+                        readOnly
+                        value={url}
+                        className="flex-1 bg-[var(--bg-primary)] border border-[var(--border-primary)] p-1.5 rounded text-[10px] font-mono min-w-0"
+                      />
+                      <button
+                        onClick={() => {
+                          navigator.clipboard.writeText(url);
+                          toast.success(`Part ${i + 1} copied!`);
+                        }}
+                        className="p-1.5 text-[var(--fg-secondary)] hover:text-[var(--accent-primary)]"
+                        title={`Copy part ${i + 1}`}
+                      >
+                        <Copy size={14} />
+                      </button>
+                      <button
+                        onClick={() => setQrTarget(qrTarget === i ? null : i)}
+                        className={cn(
+                          "p-1.5 hover:text-[var(--accent-primary)]",
+                          qrTarget === i ? "text-[var(--accent-primary)]" : "text-[var(--fg-secondary)]"
+                        )}
+                        title={`QR code for part ${i + 1}`}
+                      >
+                        <QrIcon size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {typeof qrTarget === "number" && partUrls[qrTarget] && (
+                  <div className="flex flex-col items-center gap-2 pt-2 border-t border-[var(--border-primary)]">
+                    <div className="flex items-center gap-3 text-xs font-bold text-[var(--fg-primary)]">
+                      <button
+                        disabled={qrTarget === 0}
+                        onClick={() => setQrTarget(qrTarget - 1)}
+                        className="p-1 hover:text-[var(--accent-primary)] disabled:opacity-30"
+                        title="Previous part"
+                      >
+                        <ChevronLeft size={16} />
+                      </button>
+                      Part {qrTarget + 1} of {partUrls.length}
+                      <button
+                        disabled={qrTarget === partUrls.length - 1}
+                        onClick={() => setQrTarget(qrTarget + 1)}
+                        className="p-1 hover:text-[var(--accent-primary)] disabled:opacity-30"
+                        title="Next part"
+                      >
+                        <ChevronRight size={16} />
+                      </button>
+                    </div>
+                    <QrCode
+                      value={partUrls[qrTarget]}
+                      fileName={`${fileName.trim() || "document"}-part-${qrTarget + 1}`}
+                    />
+                  </div>
+                )}
+              </div>
+            ) : (
+              splitPartCount > 1 &&
+              splitPartCount <= MAX_SHARE_PARTS && (
+                <Button
+                  variant="secondary"
+                  className="w-full justify-center mb-6"
+                  onClick={handleSplit}
+                >
+                  <Scissors className="w-4 h-4 mr-2" />
+                  Split into {splitPartCount} Links
+                </Button>
+              )
+            )}
+          </>
+        ) : linkMode ? (
+          <>
+            <div className="flex items-center gap-2 mb-2 text-[10px] font-bold uppercase tracking-widest text-[var(--accent-primary)]">
+              {activeMode.icon}
+              {activeMode.label} link
+            </div>
+            <p className="text-sm text-[var(--fg-secondary)] mb-2 leading-relaxed">
+              {activeMode.description}
+            </p>
+            {compression && (
+              <p className="text-[10px] text-[var(--fg-secondary)] font-mono opacity-70 mb-6">
+                {compression.codec.label} • compressed to{" "}
+                {Math.round(compression.ratio * 100)}% of original size •{" "}
+                {shareUrl.length} chars
+              </p>
+            )}
+            {comments.length > 0 && (
+              <p className="text-[10px] text-[var(--fg-secondary)] flex items-center gap-1.5 -mt-4 mb-6">
+                <MessageSquare className="w-3.5 h-3.5 shrink-0" />
+                Includes {comments.length} comment {comments.length === 1 ? "thread" : "threads"}.
+              </p>
+            )}
+            {sharedAssets && sharedAssets.omitted > 0 && (
+              <p className="text-[10px] text-yellow-500 flex items-center gap-1.5 -mt-4 mb-6">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                {sharedAssets.omitted} of {sharedAssets.embedded + sharedAssets.omitted} local
+                images left out{embedImages ? " to stay within the link size limit" : ""}; only their
+                alt text is shared.
+              </p>
+            )}
+            <div className="flex gap-2 mb-6 group">
+              <input
+                type="text"
+                readOnly
+                value={shareUrl}
+                className="flex-1 bg-[var(--bg-primary)] border border-[var(--border-primary)] p-3 rounded text-[10px] font-mono group-hover:border-[var(--accent-primary)] transition-colors min-w-0"
+              />
+              <Button
+                variant="primary"
+                onClick={() => {
+                  navigator.clipboard.writeText(shareUrl);
+                  toast.success("Copied!");
+                }}
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => setQrTarget(qrTarget === "link" ? null : "link")}
+                className={cn(qrTarget === "link" && "text-[var(--accent-primary)]")}
+                title="Show QR Code"
+              >
+                <QrIcon className="w-4 h-4" />
+              </Button>
+            </div>
+            {qrTarget === "link" && (
+              <div className="mb-6">
+                <QrCode value={shareUrl} fileName={`${fileName.trim() || "document"}-qr`} />
+              </div>
+            )}
+            {separateKey && (
+              <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 mb-6">
+                <p className="text-xs text-[var(--fg-secondary)] leading-relaxed mb-2">
+                  Short links cannot carry the key. Send this key separately; the
+                  viewer will ask for it.
+                </p>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={separateKey}
+                    className="flex-1 bg-[var(--bg-primary)] border border-[var(--border-primary)] p-2 rounded text-[10px] font-mono min-w-0"
+                  />
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => {
+                      navigator.clipboard.writeText(separateKey);
+                      toast.success("Key copied!");
+                    }}
+                  >
+                    <KeyRound className="w-3.5 h-3.5 mr-1.5" />
+                    Copy Key
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        ) : null}
+
+        <Button variant="ghost" className="w-full" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import {
+  DEFAULT_SHORTENER_SETTINGS,
+  loadShortenerSettings,
+  saveShortenerSettings,
+  SHORTENER_PROVIDERS,
+  type ShortenerSettings as Settings,
+} from "../lib/shortener";
+import { Button, toast } from "./ui";
+
+interface ShortenerSettingsProps {
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-3 py-2 rounded text-xs outline-none focus:border-[var(--accent-primary)]";
+
+const labelClass =
+  "text-[10px] font-bold text-[var(--fg-secondary)] uppercase tracking-widest ml-1";
+
+export const ShortenerSettings: React.FC<ShortenerSettingsProps> = ({
+  onSaved,
+  onCancel,
+}) => {
+  const [settings, setSettings] = useState<Settings>(loadShortenerSettings);
+
+  const update = <K extends keyof Settings>(key: K, value: Settings[K]) =>
+    setSettings((s) => ({ ...s, [key]: value }));
+
+  const handleSave = () => {
+    if (settings.provider === "custom") {
+      try {
+        new URL(settings.endpoint);
+      } catch {
+        toast.error("Enter a valid endpoint URL.");
+        return;
+      }
+    }
+    saveShortenerSettings(settings);
+    toast.success("Shortener settings saved!");
+    onSaved();
+  };
+
+  return (
+    <div className="border border-[var(--border-primary)] rounded p-4 mb-6 flex flex-col gap-3">
+      <div className="flex flex-col gap-1.5">
+        <label className={labelClass}>Link Shortener</label>
+        <select
+          value={settings.provider}
+          onChange={(e) => update("provider", e.target.value as Settings["provider"])}
+          className={inputClass}
+        >
+          {SHORTENER_PROVIDERS.map((provider) => (
+            <option key={provider.id} value={provider.id}>
+              {provider.label}
+            </option>
+          ))}
+        </select>
+        {settings.provider === "isgd" && (
+          <p className="text-[10px] text-[var(--fg-secondary)] opacity-70 ml-1">
+            Requests go through corsproxy.io. Use an encrypted link so neither service sees your content.
+          </p>
+        )}
+      </div>
+
+      {settings.provider === "custom" && (
+        <>
+          <div className="flex flex-col gap-1.5">
+            <label className={labelClass}>Endpoint</label>
+            <input
+              type="url"
+              value={settings.endpoint}
+              placeholder="https://sho.rt/rest/v3/short-urls"
+              onChange={(e) => update("endpoint", e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>Request Field</label>
+              <input
+                value={settings.requestField}
+                onChange={(e) => update("requestField", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>Response Field</label>
+              <input
+                value={settings.responseField}
+                placeholder="shortUrl or data.link"
+                onChange={(e) => update("responseField", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>API Key Header</label>
+              <input
+                value={settings.apiKeyHeader}
+                onChange={(e) => update("apiKeyHeader", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <label className={labelClass}>API Key</label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => update("apiKey", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {settings.provider !== "none" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="flex flex-col gap-1.5">
+            <label className={labelClass}>Timeout (ms)</label>
+            <input
+              type="number"
+              min={1000}
+              step={1000}
+              value={settings.timeoutMs}
+              onChange={(e) =>
+                update("timeoutMs", Number(e.target.value) || DEFAULT_SHORTENER_SETTINGS.timeoutMs)
+              }
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <label className={labelClass}>Retries</label>
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={settings.retries}
+              onChange={(e) =>
+                update("retries", Math.min(5, Math.max(0, Number(e.target.value) || 0)))
+              }
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
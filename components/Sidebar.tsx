@@ -0,0 +1,325 @@
+import React, { useState } from "react";
+import { cn } from "../utils";
+import type { WorkspaceDocument, WorkspaceFolder } from "../lib/workspace";
+import {
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  FilePlus,
+  FileText,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  LayoutTemplate,
+  Pencil,
+  Trash2,
+  X,
+} from "lucide-react";
+
+interface SidebarProps {
+  isOpen: boolean;
+  documents: WorkspaceDocument[];
+  folders: WorkspaceFolder[];
+  activeDocumentId: string | null;
+  onClose: () => void;
+  onOpenDocument: (id: string) => void;
+  onCreateDocument: (folderId: string | null) => void;
+  onCreateFromTemplate: (folderId: string | null) => void;
+  onCreateFolder: (parentId: string | null) => void;
+  onRenameDocument: (id: string, fileName: string) => void;
+  onRenameFolder: (id: string, name: string) => void;
+  onDuplicateDocument: (id: string) => void;
+  onDeleteDocument: (id: string) => void;
+  onDeleteFolder: (id: string) => void;
+  onMoveDocument: (id: string, folderId: string | null) => void;
+}
+
+type EditingTarget = { kind: "document" | "folder"; id: string } | null;
+
+const DRAG_MIME = "application/x-ghost-md-document";
+
+const formatModified = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday ? date.toLocaleTimeString() : date.toLocaleDateString();
+};
+
+export const Sidebar: React.FC<SidebarProps> = ({
+  isOpen,
+  documents,
+  folders,
+  activeDocumentId,
+  onClose,
+  onOpenDocument,
+  onCreateDocument,
+  onCreateFromTemplate,
+  onCreateFolder,
+  onRenameDocument,
+  onRenameFolder,
+  onDuplicateDocument,
+  onDeleteDocument,
+  onDeleteFolder,
+  onMoveDocument,
+}) => {
+  const [editing, setEditing] = useState<EditingTarget>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const toggleFolder = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      next.has(id) ? next.delete(id) : next.add(id);
+      return next;
+    });
+  };
+
+  const commitRename = (value: string) => {
+    const name = value.trim();
+    if (editing && name) {
+      editing.kind === "document"
+        ? onRenameDocument(editing.id, name)
+        : onRenameFolder(editing.id, name);
+    }
+    setEditing(null);
+  };
+
+  const dropProps = (folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_MIME)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(folderId ?? "root");
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      const id = e.dataTransfer.getData(DRAG_MIME);
+      if (!id) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      onMoveDocument(id, folderId);
+    },
+  });
+
+  const renderRenameInput = (initial: string) => (
+    <input
+      autoFocus
+      defaultValue={initial}
+      onClick={(e) => e.stopPropagation()}
+      onBlur={(e) => commitRename(e.target.value)}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === "Enter") commitRename(e.currentTarget.value);
+        if (e.key === "Escape") setEditing(null);
+      }}
+      className="flex-1 min-w-0 bg-[var(--bg-primary)] border border-[var(--accent-primary)] text-xs px-1 py-0.5 outline-none"
+    />
+  );
+
+  const renderDocument = (doc: WorkspaceDocument, depth: number) => {
+    const isActive = doc.id === activeDocumentId;
+    const isEditing = editing?.kind === "document" && editing.id === doc.id;
+    return (
+      <div
+        key={doc.id}
+        draggable={!isEditing}
+        onDragStart={(e) => e.dataTransfer.setData(DRAG_MIME, doc.id)}
+        onClick={() => !isEditing && onOpenDocument(doc.id)}
+        className={cn(
+          "group/item flex items-center gap-2 pr-2 py-1.5 cursor-pointer text-xs transition-colors",
+          isActive
+            ? "bg-[var(--bg-tertiary)] text-[var(--accent-primary)]"
+            : "text-[var(--fg-primary)] hover:bg-[var(--bg-tertiary)]/60"
+        )}
+        style={{ paddingLeft: `${12 + depth * 12}px` }}
+        title={`Last modified: ${new Date(doc.updatedAt).toLocaleString()}`}
+      >
+        <FileText className="w-3.5 h-3.5 shrink-0 opacity-70" />
+        {isEditing ? (
+          renderRenameInput(doc.fileName)
+        ) : (
+          <div className="flex-1 min-w-0">
+            <div className="truncate font-medium">{doc.fileName}.md</div>
+            <div className="text-[9px] text-[var(--fg-secondary)] font-mono opacity-70">
+              {formatModified(doc.updatedAt)}
+            </div>
+          </div>
+        )}
+        {!isEditing && (
+          <div className="hidden group-hover/item:flex items-center gap-0.5 shrink-0">
+            <SidebarAction
+              title="Rename"
+              icon={<Pencil size={12} />}
+              onClick={() => setEditing({ kind: "document", id: doc.id })}
+            />
+            <SidebarAction
+              title="Duplicate"
+              icon={<Copy size={12} />}
+              onClick={() => onDuplicateDocument(doc.id)}
+            />
+            <SidebarAction
+              title="Delete"
+              icon={<Trash2 size={12} />}
+              onClick={() => onDeleteDocument(doc.id)}
+              danger
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderFolder = (folder: WorkspaceFolder, depth: number): React.ReactNode => {
+    const isCollapsed = collapsed.has(folder.id);
+    const isEditing = editing?.kind === "folder" && editing.id === folder.id;
+    return (
+      <div key={folder.id} {...dropProps(folder.id)}>
+        <div
+          onClick={() => !isEditing && toggleFolder(folder.id)}
+          className={cn(
+            "group/item flex items-center gap-1.5 pr-2 py-1.5 cursor-pointer text-xs text-[var(--fg-primary)] hover:bg-[var(--bg-tertiary)]/60 transition-colors",
+            dropTarget === folder.id && "bg-[var(--accent-primary)]/20"
+          )}
+          style={{ paddingLeft: `${8 + depth * 12}px` }}
+        >
+          {isCollapsed ? (
+            <ChevronRight className="w-3 h-3 shrink-0 opacity-60" />
+          ) : (
+            <ChevronDown className="w-3 h-3 shrink-0 opacity-60" />
+          )}
+          {isCollapsed ? (
+            <Folder className="w-3.5 h-3.5 shrink-0 text-[var(--accent-primary)]" />
+          ) : (
+            <FolderOpen className="w-3.5 h-3.5 shrink-0 text-[var(--accent-primary)]" />
+          )}
+          {isEditing ? (
+            renderRenameInput(folder.name)
+          ) : (
+            <span className="flex-1 min-w-0 truncate font-bold">{folder.name}</span>
+          )}
+          {!isEditing && (
+            <div className="hidden group-hover/item:flex items-center gap-0.5 shrink-0">
+              <SidebarAction
+                title="New Document"
+                icon={<FilePlus size={12} />}
+                onClick={() => onCreateDocument(folder.id)}
+              />
+              <SidebarAction
+                title="New from Template"
+                icon={<LayoutTemplate size={12} />}
+                onClick={() => onCreateFromTemplate(folder.id)}
+              />
+              <SidebarAction
+                title="New Folder"
+                icon={<FolderPlus size={12} />}
+                onClick={() => onCreateFolder(folder.id)}
+              />
+              <SidebarAction
+                title="Rename"
+                icon={<Pencil size={12} />}
+                onClick={() => setEditing({ kind: "folder", id: folder.id })}
+              />
+              <SidebarAction
+                title="Delete Folder"
+                icon={<Trash2 size={12} />}
+                onClick={() => onDeleteFolder(folder.id)}
+                danger
+              />
+            </div>
+          )}
+        </div>
+        {!isCollapsed && renderLevel(folder.id, depth + 1)}
+      </div>
+    );
+  };
+
+  const renderLevel = (parentId: string | null, depth: number) => (
+    <>
+      {folders
+        .filter((f) => f.parentId === parentId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((f) => renderFolder(f, depth))}
+      {documents
+        .filter((d) => d.folderId === parentId)
+        .map((d) => renderDocument(d, depth))}
+    </>
+  );
+
+  return (
+    <aside
+      className={cn(
+        "bg-[var(--bg-secondary)] transition-all duration-300 flex flex-col z-50 overflow-hidden border-r border-[var(--border-primary)]",
+        // Mobile: Absolute positioning (Drawer style)
+        "absolute left-0 top-0 h-full shadow-2xl md:shadow-none",
+        // Desktop: Static positioning (Flex layout)
+        "md:static md:h-auto",
+        isOpen ? "w-64" : "w-0 border-none"
+      )}
+    >
+      <div className="p-4 border-b border-[var(--border-primary)] flex justify-between items-center sticky top-0 bg-[var(--bg-secondary)] z-10 shrink-0">
+        <div className="flex items-center gap-2">
+          <FolderOpen className="w-4 h-4 text-[var(--accent-primary)]" />
+          <h3 className="text-xs font-bold uppercase">Explorer</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <SidebarAction
+            title="New Document"
+            icon={<FilePlus size={14} />}
+            onClick={() => onCreateDocument(null)}
+          />
+          <SidebarAction
+            title="New from Template"
+            icon={<LayoutTemplate size={14} />}
+            onClick={() => onCreateFromTemplate(null)}
+          />
+          <SidebarAction
+            title="New Folder"
+            icon={<FolderPlus size={14} />}
+            onClick={() => onCreateFolder(null)}
+          />
+          <button onClick={onClose} className="hover:text-red-500 ml-1">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+      <div
+        {...dropProps(null)}
+        className={cn(
+          "flex-1 overflow-y-auto py-2 custom-scrollbar",
+          dropTarget === "root" && "bg-[var(--accent-primary)]/10"
+        )}
+      >
+        {renderLevel(null, 0)}
+      </div>
+      <div className="px-4 py-2 border-t border-[var(--border-primary)] text-[9px] text-[var(--fg-secondary)] font-mono uppercase opacity-60 shrink-0">
+        {documents.length} {documents.length === 1 ? "document" : "documents"}
+      </div>
+    </aside>
+  );
+};
+
+const SidebarAction = ({
+  icon,
+  onClick,
+  title,
+  danger,
+}: {
+  icon: React.ReactNode;
+  onClick: () => void;
+  title: string;
+  danger?: boolean;
+}) => (
+  <button
+    onClick={(e) => {
+      e.stopPropagation();
+      onClick();
+    }}
+    className={cn(
+      "p-1 rounded hover:bg-[var(--bg-primary)] transition-colors text-[var(--fg-secondary)]",
+      danger ? "hover:text-red-500" : "hover:text-[var(--accent-primary)]"
+    )}
+    title={title}
+  >
+    {icon}
+  </button>
+);
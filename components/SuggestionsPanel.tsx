@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from "react";
+import { cn } from "../utils";
+import { loadCommentAuthor, saveCommentAuthor } from "../lib/comments";
+import { ReplyLinkError } from "../lib/replyLinks";
+import { ReplyLinks } from "./ReplyLinks";
+import { Button, toast } from "./ui";
+import { Check, Link2, Loader2, PencilLine, Undo2, X } from "lucide-react";
+
+/** One suggested change as shown in the panel. */
+export interface SuggestionItem {
+  id: string;
+  // Text just before the change, so insertions have something to point at
+  context: string;
+  remove: string;
+  insert: string;
+  // The original text is no longer in the document
+  missing?: boolean;
+}
+
+interface SuggestionsPanelProps {
+  // Reviewers draft suggestions in the viewer; authors review them in the editor
+  mode: "draft" | "review";
+  items: SuggestionItem[];
+  activeId: string | null;
+  // Reviewer who made the suggestions, in review mode
+  author?: string;
+  onSelect: (id: string) => void;
+  onAccept?: (id: string) => void;
+  onReject: (id: string) => void;
+  onAcceptAll?: () => void;
+  onRejectAll?: () => void;
+  onCreateLink?: (author: string) => Promise<string[]>;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-2 py-1.5 rounded text-xs outline-none focus:border-[var(--accent-primary)]";
+
+const CONTEXT_LENGTH = 24;
+
+const Change = ({ item }: { item: SuggestionItem }) => {
+  const context = item.context.split("\n").pop()!.slice(-CONTEXT_LENGTH);
+  return (
+    <div className="font-mono text-[11px] leading-relaxed whitespace-pre-wrap break-words">
+      {context && <span className="text-[var(--fg-secondary)]">…{context}</span>}
+      {item.remove && (
+        <span className="bg-red-500/15 text-red-400 line-through decoration-red-400/70">
+          {item.remove}
+        </span>
+      )}
+      {item.insert && <span className="bg-green-500/15 text-green-400">{item.insert}</span>}
+    </div>
+  );
+};
+
+export const SuggestionsPanel: React.FC<SuggestionsPanelProps> = ({
+  mode,
+  items,
+  activeId,
+  author,
+  onSelect,
+  onAccept,
+  onReject,
+  onAcceptAll,
+  onRejectAll,
+  onCreateLink,
+  onClose,
+}) => {
+  const [reviewer, setReviewer] = useState(loadCommentAuthor);
+  const [links, setLinks] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const isDraft = mode === "draft";
+
+  // A link made before further edits would leave them out
+  useEffect(() => setLinks([]), [items]);
+
+  const updateReviewer = (name: string) => {
+    setReviewer(name);
+    saveCommentAuthor(name);
+    setLinks([]);
+  };
+
+  const handleCreateLink = async () => {
+    if (!onCreateLink) return;
+    setIsCreating(true);
+    try {
+      const created = await onCreateLink(reviewer);
+      setLinks(created);
+      await navigator.clipboard.writeText(created.join("\n"));
+      toast.success(
+        created.length > 1
+          ? `Suggestions links copied (${created.length} parts)!`
+          : "Suggestions link copied!"
+      );
+    } catch (error) {
+      console.error("Failed to create suggestions link:", error);
+      toast.error(
+        error instanceof ReplyLinkError ? error.message : "Failed to create the suggestions link."
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <aside className="absolute top-0 right-0 h-full w-full sm:w-80 z-30 bg-[var(--bg-secondary)] border-l border-[var(--border-primary)] shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-[var(--border-primary)] shrink-0">
+        <h3 className="text-sm font-bold flex items-center gap-2">
+          <PencilLine className="w-4 h-4 text-[var(--accent-primary)]" />
+          Suggestions
+          <span className="text-[10px] font-mono text-[var(--fg-secondary)]">{items.length}</span>
+        </h3>
+        <button onClick={onClose} className="text-[var(--fg-secondary)] hover:text-white">
+          <X size={18} />
+        </button>
+      </div>
+
+      {!isDraft && (
+        <div className="px-4 py-2 border-b border-[var(--border-primary)] shrink-0 flex items-center gap-1">
+          <span className="text-xs text-[var(--fg-secondary)] truncate mr-auto">
+            From <span className="font-bold text-[var(--fg-primary)]">{author}</span>
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-[10px]"
+            onClick={onAcceptAll}
+            disabled={items.every((item) => item.missing)}
+          >
+            Accept all
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-[10px]" onClick={onRejectAll}>
+            Reject all
+          </Button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-3 flex flex-col gap-2">
+        {items.length === 0 && (
+          <p className="text-xs text-[var(--fg-secondary)] p-2">
+            {isDraft
+              ? "No changes yet. Edit the text to suggest insertions and deletions."
+              : "No suggestions left to review."}
+          </p>
+        )}
+        {items.map((item) => (
+          <div
+            key={item.id}
+            onClick={() => onSelect(item.id)}
+            className={cn(
+              "p-3 rounded border flex flex-col gap-2 cursor-pointer transition-colors",
+              item.id === activeId
+                ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/5"
+                : "border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]/50",
+              item.missing && "opacity-70"
+            )}
+          >
+            {item.missing && (
+              <span className="text-[10px] font-bold text-red-400">Original text not found</span>
+            )}
+            <Change item={item} />
+            <div className="flex items-center gap-1 -mb-1" onClick={(e) => e.stopPropagation()}>
+              {!isDraft && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-[10px] hover:text-green-400"
+                  onClick={() => onAccept?.(item.id)}
+                  disabled={item.missing}
+                >
+                  <Check className="w-3 h-3 mr-1" />
+                  Accept
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-[10px] hover:text-red-500"
+                onClick={() => onReject(item.id)}
+              >
+                {isDraft ? <Undo2 className="w-3 h-3 mr-1" /> : <X className="w-3 h-3 mr-1" />}
+                {isDraft ? "Discard" : "Reject"}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isDraft && (
+        <div className="px-4 py-3 border-t border-[var(--border-primary)] shrink-0 flex flex-col gap-2">
+          <input
+            value={reviewer}
+            placeholder="Your name"
+            onChange={(e) => updateReviewer(e.target.value)}
+            className={inputClass}
+          />
+          {links.length > 0 && <ReplyLinks links={links} label="Suggestions" />}
+          <Button
+            variant="primary"
+            size="sm"
+            className="w-full"
+            onClick={handleCreateLink}
+            disabled={items.length === 0 || isCreating}
+          >
+            {isCreating ? (
+              <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="w-3.5 h-3.5 mr-2" />
+            )}
+            Create Suggestions Link
+          </Button>
+          <p className="text-[10px] text-[var(--fg-secondary)]">
+            Send the link to the author; they can accept or reject each change.
+          </p>
+        </div>
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { cn } from "../utils";
+import {
+  BUILT_IN_TEMPLATES,
+  defaultVariableValue,
+  deleteTemplate,
+  fillTemplate,
+  listTemplates,
+  saveDocumentAsTemplate,
+  templateVariables,
+  type DocumentTemplate,
+} from "../lib/templates";
+import { Button, toast } from "./ui";
+import { FilePlus, LayoutTemplate, Save, Trash2, X } from "lucide-react";
+
+interface TemplateGalleryProps {
+  // The open document, which can be saved as a template
+  currentContent: string;
+  currentFileName: string;
+  onCreate: (fileName: string, content: string) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] px-3 py-2 rounded text-xs outline-none focus:border-[var(--accent-primary)]";
+
+const labelClass =
+  "text-[10px] font-bold text-[var(--fg-secondary)] uppercase tracking-widest ml-1";
+
+// Lines of the filled-in template shown before creating the document
+const PREVIEW_LINES = 14;
+
+export const TemplateGallery: React.FC<TemplateGalleryProps> = ({
+  currentContent,
+  currentFileName,
+  onCreate,
+  onClose,
+}) => {
+  const [customTemplates, setCustomTemplates] = useState<DocumentTemplate[]>([]);
+  const [selected, setSelected] = useState<DocumentTemplate>(BUILT_IN_TEMPLATES[0]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [templateName, setTemplateName] = useState(currentFileName);
+
+  useEffect(() => {
+    listTemplates()
+      .then(setCustomTemplates)
+      .catch((error) => {
+        console.error("Failed to load templates:", error);
+        toast.error("Failed to load your templates.");
+      });
+  }, []);
+
+  const variables = useMemo(() => templateVariables(selected.content), [selected]);
+
+  // Each template starts with fresh defaults
+  useEffect(() => {
+    setValues(Object.fromEntries(variables.map((name) => [name, defaultVariableValue(name)])));
+  }, [variables]);
+
+  const filled = fillTemplate(selected.content, values);
+
+  const handleCreate = () => {
+    const fileName = (values.title || selected.name).trim().replace(/[\\/:*?"<>|]/g, "-");
+    onCreate(fileName || "untitled", filled);
+  };
+
+  const handleSaveTemplate = async () => {
+    try {
+      const template = await saveDocumentAsTemplate(templateName, currentContent);
+      if (!template) return;
+      setCustomTemplates((templates) => [...templates, template]);
+      setSelected(template);
+      toast.success(`Saved template: ${template.name}`);
+    } catch (error) {
+      console.error("Failed to save template:", error);
+      toast.error("Failed to save template.");
+    }
+  };
+
+  const handleDeleteTemplate = async (template: DocumentTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      await deleteTemplate(template.id);
+      setCustomTemplates((templates) => templates.filter((t) => t.id !== template.id));
+      if (selected.id === template.id) setSelected(BUILT_IN_TEMPLATES[0]);
+    } catch (error) {
+      console.error("Failed to delete template:", error);
+      toast.error("Failed to delete template.");
+    }
+  };
+
+  const renderTemplate = (template: DocumentTemplate) => (
+    <button
+      key={template.id}
+      onClick={() => setSelected(template)}
+      className={cn(
+        "group text-left px-3 py-2 rounded border transition-colors",
+        template.id === selected.id
+          ? "border-[var(--accent-primary)] bg-[var(--accent-primary)]/10"
+          : "border-transparent hover:bg-[var(--bg-tertiary)]"
+      )}
+    >
+      <div className="flex items-center gap-2 text-xs font-bold text-[var(--fg-primary)]">
+        <span className="truncate flex-1">{template.name}</span>
+        {!template.builtIn && (
+          <span
+            role="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleDeleteTemplate(template);
+            }}
+            className="hidden group-hover:block text-[var(--fg-secondary)] hover:text-red-500"
+            title="Delete template"
+          >
+            <Trash2 size={12} />
+          </span>
+        )}
+      </div>
+      <div className="text-[10px] text-[var(--fg-secondary)] truncate mt-0.5">
+        {template.description}
+      </div>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-md z-[100] flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="bg-[var(--bg-secondary)] border border-[var(--border-primary)] rounded-xl w-full max-w-4xl h-[85vh] shadow-2xl animate-in zoom-in-95 duration-200 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-[var(--border-primary)] shrink-0">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5 text-[var(--accent-primary)]" />
+            New from Template
+          </h3>
+          <button onClick={onClose} className="text-[var(--fg-secondary)] hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          <div className="md:w-64 shrink-0 border-b md:border-b-0 md:border-r border-[var(--border-primary)] flex flex-col max-h-60 md:max-h-none">
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-2 flex flex-col gap-1">
+              <h4 className={cn(labelClass, "px-2 pt-1")}>Built-in</h4>
+              {BUILT_IN_TEMPLATES.map(renderTemplate)}
+              <h4 className={cn(labelClass, "px-2 pt-3")}>My Templates</h4>
+              {customTemplates.length === 0 && (
+                <p className="text-[10px] text-[var(--fg-secondary)] px-2">
+                  Save a document as a template to reuse it.
+                </p>
+              )}
+              {customTemplates.map(renderTemplate)}
+            </div>
+            <div className="p-3 border-t border-[var(--border-primary)] flex gap-2 shrink-0">
+              <input
+                value={templateName}
+                placeholder="Template name"
+                onChange={(e) => setTemplateName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSaveTemplate()}
+                className="flex-1 min-w-0 bg-[var(--bg-primary)] border border-[var(--border-primary)] px-2 py-1.5 rounded text-xs outline-none focus:border-[var(--accent-primary)]"
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleSaveTemplate}
+                disabled={!templateName.trim()}
+                title="Save the current document as a template"
+              >
+                <Save className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0 min-h-0 overflow-y-auto custom-scrollbar p-4 gap-4">
+            {variables.length > 0 && (
+              <div className="grid sm:grid-cols-2 gap-3">
+                {variables.map((name) => (
+                  <div key={name} className="flex flex-col gap-1.5">
+                    <label className={labelClass}>{name}</label>
+                    <input
+                      value={values[name] ?? ""}
+                      placeholder={`{{${name}}}`}
+                      onChange={(e) => setValues((v) => ({ ...v, [name]: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-col gap-1.5 min-h-0">
+              <label className={labelClass}>Preview</label>
+              <pre className="bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded p-3 text-[11px] font-mono whitespace-pre-wrap break-words text-[var(--fg-secondary)]">
+                {filled.split("\n").slice(0, PREVIEW_LINES).join("\n")}
+                {filled.split("\n").length > PREVIEW_LINES && "\n…"}
+              </pre>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-6 py-3 border-t border-[var(--border-primary)] shrink-0">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" size="sm" onClick={handleCreate}>
+            <FilePlus className="w-3.5 h-3.5 mr-2" />
+            Create Document
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,46 +1,318 @@
-import React, { useEffect, useState } from 'react';
-import { useSearchParams, Link } from 'react-router-dom';
-import { decompressMarkdown } from '../utils';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams, useLocation, useNavigate, Link } from 'react-router-dom';
+import { decodePayload, UnsupportedCodecError } from '../lib/codec';
+import { decryptWithKey, decryptWithPassphrase, DecryptionError } from '../lib/crypto';
+import {
+  assembleParts,
+  clearCollectedParts,
+  collectPart,
+  isStoredPartsKey,
+  loadCollectedParts,
+  parsePartParams,
+  ShareChunkError,
+  type PayloadKind,
+  type SharePart,
+} from '../lib/chunks';
+import {
+  collectFeedback,
+  createThread,
+  detachComments,
+  isDetached,
+  resolveThreads,
+  type CommentMessage,
+  type CommentThread,
+} from '../lib/comments';
+import { getSourceSelection } from '../lib/commentHighlights';
+import { createSuggestionSet, diffProposal, discardChange } from '../lib/suggestions';
+import { buildReplyLinks, type ShareOrigin } from '../lib/replyLinks';
 import { MarkdownRenderer } from './MarkdownRenderer';
+import { CodeEditor, type CodeEditorHandle } from './CodeEditor';
+import { CommentsPanel } from './CommentsPanel';
+import { SuggestionsPanel } from './SuggestionsPanel';
 import { Button, toast, ThemeToggle } from './ui';
-import { Copy, PenLine } from 'lucide-react';
+import type { DiffLocationState } from './DiffView';
+import {
+  Copy,
+  PenLine,
+  Lock,
+  KeyRound,
+  Loader2,
+  Layers,
+  GitCompare,
+  MessageSquare,
+  MessageSquarePlus,
+  PencilLine,
+} from 'lucide-react';
+
+// Encrypted payload waiting for a secret: a passphrase (?e=) or a random key (?x=)
+// whose fragment was lost, e.g. after following a short link.
+interface LockedPayload {
+  kind: 'passphrase' | 'key';
+  payload: string;
+}
+
+// Multi-part share still waiting for some of its parts
+interface PendingParts {
+  setId: string;
+  total: number;
+  received: number[];
+}
 
 export const Viewer: React.FC = () => {
   const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [content, setContent] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [locked, setLocked] = useState<LockedPayload | null>(null);
+  const [secret, setSecret] = useState('');
+  const [secretError, setSecretError] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [pending, setPending] = useState<PendingParts | null>(null);
+  const [partLink, setPartLink] = useState('');
+  const [partLinkError, setPartLinkError] = useState<string | null>(null);
+  // Threads that came with the link; the reader's additions are sent back as feedback
+  const [sharedComments, setSharedComments] = useState<CommentThread[]>([]);
+  const [comments, setComments] = useState<CommentThread[]>([]);
+  // How the link was opened and which of the author's documents it shows;
+  // comments and suggestions go back sealed the same way, addressed to it
+  const [origin, setOrigin] = useState<ShareOrigin | null>(null);
+  const [sharedDocumentId, setSharedDocumentId] = useState<string | null>(null);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [commentDraft, setCommentDraft] = useState<{ start: number; end: number } | null>(null);
+  // Selection in the document, offered as a floating Comment button
+  const [selection, setSelection] = useState<{
+    start: number;
+    end: number;
+    top: number;
+    left: number;
+  } | null>(null);
+  const documentRef = useRef<HTMLElement>(null);
+  // The reviewer's edited copy while suggesting changes
+  const [proposed, setProposed] = useState<string | null>(null);
+  const [activeChangeId, setActiveChangeId] = useState<string | null>(null);
+  const suggestEditorRef = useRef<CodeEditorHandle>(null);
 
-  useEffect(() => {
-    const encoded = searchParams.get('c');
-    
-    if (encoded === null) {
-      setError('No content found in the URL. The link might be incomplete.');
+  const changes = useMemo(
+    () =>
+      proposed === null
+        ? []
+        : diffProposal(content, proposed).map((change) => ({ ...change, id: `${change.start}:${change.at}` })),
+    [content, proposed]
+  );
+  const changeItems = useMemo(
+    () =>
+      changes.map((change) => ({
+        id: change.id,
+        context: content.slice(Math.max(0, change.start - 40), change.start),
+        remove: content.slice(change.start, change.end),
+        insert: change.insert,
+      })),
+    [content, changes]
+  );
+  // Inserted text is highlighted in the reviewer's copy
+  const insertions = useMemo(() => changes.filter((change) => change.insert), [changes]);
+  const insertionRanges = useMemo(
+    () => insertions.map((change) => ({ start: change.at, end: change.at + change.insert.length })),
+    [insertions]
+  );
+  const feedback = useMemo(() => collectFeedback(sharedComments, comments), [sharedComments, comments]);
+  const feedbackCount = feedback.reduce((count, thread) => count + thread.messages.length, 0);
+
+  // Shared documents may carry review threads after the markdown
+  const showDocument = (shared: string) => {
+    const { markdown, threads, documentId } = detachComments(shared);
+    const resolved = resolveThreads(threads, markdown);
+    setContent(markdown);
+    setSharedDocumentId(documentId);
+    setSharedComments(resolved);
+    setComments(resolved);
+    setCommentDraft(null);
+    setError(null);
+  };
+
+  const loadCompressed = async (compressed: string) => {
+    let decoded: string | null;
+    try {
+      decoded = await decodePayload(compressed);
+    } catch (e) {
+      setError(e instanceof UnsupportedCodecError ? e.message : 'An error occurred while processing the content.');
+      return;
+    }
+    if (decoded === null) {
+      setError('The content was decrypted but could not be decompressed. The link might be corrupted.');
+      return;
+    }
+    showDocument(decoded);
+  };
+
+  // Opens a complete payload: compressed (c), key-encrypted (x) or passphrase-protected (e)
+  const openPayload = useCallback((kind: PayloadKind, payload: string, key: string) => {
+    if (kind === 'e') {
+      // Passphrase-protected links are decrypted once the user submits the prompt
+      setLocked({ kind: 'passphrase', payload });
+      setContent('');
       setLoading(false);
       return;
     }
 
-    if (encoded.trim() === '') {
+    if (kind === 'x') {
+      // Encrypted links carry their key in the fragment after the second '#'
+      if (!key) {
+        setLocked({ kind: 'key', payload });
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      setOrigin({ kind: 'x', secret: key });
+      decryptWithKey(payload, key)
+        .then(loadCompressed)
+        .catch((e) => {
+          console.error('Decryption error:', e);
+          setError(e instanceof DecryptionError ? e.message : 'Unable to decrypt this link. Your browser may not support WebCrypto.');
+        })
+        .finally(() => setLoading(false));
+      return;
+    }
+
+    if (payload.trim() === '') {
       setError('The shared link content is empty. Please check the URL.');
       setLoading(false);
       return;
     }
 
+    setOrigin({ kind: 'c', secret: '' });
+    decodePayload(payload)
+      .then((decoded) => {
+        if (decoded) {
+          showDocument(decoded);
+        } else {
+          setError('Failed to load content. The link data might be corrupted or invalid.');
+        }
+      })
+      .catch((e) => {
+        console.error("Decompression error:", e);
+        setError(e instanceof UnsupportedCodecError ? e.message : 'An error occurred while processing the content.');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Reassembles a multi-part share once every part has been collected
+  const completeParts = useCallback((parts: SharePart[], key: string) => {
+    try {
+      const payload = assembleParts(parts);
+      clearCollectedParts(parts[0].setId);
+      setPending(null);
+      openPayload(parts[0].kind, payload, key);
+    } catch (e) {
+      setError(e instanceof ShareChunkError ? e.message : 'Failed to reassemble the document.');
+    }
+  }, [openPayload]);
+
+  useEffect(() => {
+    setLocked(null);
+    setPending(null);
+    const key = location.hash.replace(/^#/, '');
+
+    let part: SharePart | null = null;
+    try {
+      part = parsePartParams(searchParams);
+    } catch (e) {
+      setError(e instanceof ShareChunkError ? e.message : 'This part link is invalid.');
+      setLoading(false);
+      return;
+    }
+    if (part) {
+      const parts = collectPart(part);
+      if (parts.length === part.total) {
+        completeParts(parts, key);
+      } else {
+        setPending({ setId: part.setId, total: part.total, received: parts.map((p) => p.index) });
+        setLoading(false);
+      }
+      return;
+    }
+
+    const kind = (['e', 'x', 'c'] as const).find((k) => searchParams.get(k) !== null);
+    if (!kind) {
+      setError('No content found in the URL. The link might be incomplete.');
+      setLoading(false);
+      return;
+    }
+    openPayload(kind, searchParams.get(kind)!, key);
+  }, [searchParams, location.hash, openPayload, completeParts]);
+
+  // Parts opened in other tabs land in localStorage; pick them up live
+  useEffect(() => {
+    if (!pending) return;
+    const handleStorage = (e: StorageEvent) => {
+      if (!isStoredPartsKey(e.key, pending.setId)) return;
+      const parts = loadCollectedParts(pending.setId);
+      if (parts.length === pending.total) {
+        completeParts(parts, location.hash.replace(/^#/, ''));
+      } else {
+        setPending({ ...pending, received: parts.map((p) => p.index) });
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [pending, completeParts, location.hash]);
+
+  const handleAddPart = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pending) return;
+    setPartLinkError(null);
+    try {
+      const query = partLink.slice(partLink.indexOf('?') + 1).split('#')[0];
+      const part = parsePartParams(new URLSearchParams(query));
+      if (!part) throw new ShareChunkError('That is not a part link.');
+      if (part.setId !== pending.setId) throw new ShareChunkError('That part belongs to a different document.');
+      const parts = collectPart(part);
+      setPartLink('');
+      if (parts.length === part.total) {
+        completeParts(parts, location.hash.replace(/^#/, ''));
+      } else {
+        setPending({ ...pending, received: parts.map((p) => p.index) });
+      }
+    } catch (err) {
+      setPartLinkError(err instanceof ShareChunkError ? err.message : 'Invalid part link.');
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!locked || !secret) return;
+    setIsDecrypting(true);
+    setSecretError(null);
     try {
-      const decoded = decompressMarkdown(encoded);
-      if (decoded) {
-        setContent(decoded);
-        setError(null);
+      if (locked.kind === 'passphrase') {
+        await loadCompressed(await decryptWithPassphrase(locked.payload, secret));
+        setOrigin({ kind: 'e', secret });
       } else {
-        setError('Failed to load content. The link data might be corrupted or invalid.');
+        // Accept either the bare key or a full link that still has its fragment
+        const key = secret.includes('#') ? secret.slice(secret.lastIndexOf('#') + 1) : secret;
+        await loadCompressed(await decryptWithKey(locked.payload, key));
+        setOrigin({ kind: 'x', secret: key });
       }
+      setLocked(null);
     } catch (e) {
-      console.error("Decompression error:", e);
-      setError('An error occurred while processing the content.');
+      if (e instanceof DecryptionError && e.reason === 'wrong-passphrase') {
+        setSecretError('Incorrect passphrase. Please try again.');
+      } else if (e instanceof DecryptionError && locked.kind === 'key' && e.reason !== 'unsupported') {
+        // A wrong key and a modified payload look the same without a key check
+        setSecretError(e.message);
+      } else if (e instanceof DecryptionError) {
+        setError(e.message);
+      } else {
+        console.error('Decryption error:', e);
+        setError('Unable to decrypt this link. Your browser may not support WebCrypto.');
+      }
     } finally {
-      setLoading(false);
+      setIsDecrypting(false);
     }
-  }, [searchParams]);
+  };
 
   const handleCopyMarkdown = async () => {
      try {
@@ -51,6 +323,103 @@ export const Viewer: React.FC = () => {
     }
   };
 
+  const handleSelectComment = (id: string) => {
+    setActiveCommentId(id);
+    setIsCommentsOpen(true);
+    document
+      .querySelector(`[data-comment-id="${id}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleDocumentMouseUp = () => {
+    const container = documentRef.current;
+    const range = container && getSourceSelection(container, content);
+    if (!range || range.end <= range.start) {
+      setSelection(null);
+      return;
+    }
+    const rect = window.getSelection()!.getRangeAt(0).getBoundingClientRect();
+    setSelection({ ...range, top: rect.bottom + 6, left: rect.left + rect.width / 2 });
+  };
+
+  // The floating button goes away with the selection it was offered for
+  useEffect(() => {
+    if (!selection) return;
+    const handleSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setSelection(null);
+    };
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [selection]);
+
+  const startComment = (range: { start: number; end: number }) => {
+    setCommentDraft(range);
+    setActiveCommentId(null);
+    setSelection(null);
+    setIsCommentsOpen(true);
+  };
+
+  const handleCreateThread = (message: CommentMessage) => {
+    if (!commentDraft) return;
+    const thread = createThread(content, commentDraft.start, commentDraft.end, message);
+    setComments((threads) => [...threads, thread]);
+    setActiveCommentId(thread.id);
+    setCommentDraft(null);
+  };
+
+  const handleReply = (id: string, message: CommentMessage) =>
+    setComments((threads) =>
+      threads.map((thread) => (thread.id === id ? { ...thread, messages: [...thread.messages, message] } : thread))
+    );
+
+  const handleCreateCommentsLink = (author: string) => {
+    if (!origin) throw new Error('The shared document has not been opened.');
+    return buildReplyLinks(
+      'comments',
+      { documentId: sharedDocumentId, author: author.trim() || 'Anonymous', createdAt: Date.now(), threads: feedback },
+      origin
+    );
+  };
+
+  const handleToggleSuggesting = () => {
+    if (proposed === null) {
+      setProposed(content);
+      setIsCommentsOpen(false);
+      setCommentDraft(null);
+      setSelection(null);
+      return;
+    }
+    if (changes.length > 0 && !window.confirm('Stop suggesting? Your suggested changes will be lost.')) return;
+    setProposed(null);
+    setActiveChangeId(null);
+  };
+
+  // Selects the changed text in the reviewer's copy
+  const handleSelectChange = (id: string) => {
+    const change = changes.find((c) => c.id === id);
+    if (!change) return;
+    setActiveChangeId(id);
+    suggestEditorRef.current?.setSelection(change.at, change.at + change.insert.length);
+  };
+
+  const handleDiscardChange = (id: string) => {
+    const change = changes.find((c) => c.id === id);
+    if (proposed === null || !change) return;
+    setProposed(discardChange(content, proposed, change));
+    setActiveChangeId(null);
+  };
+
+  const handleCreateSuggestionsLink = (author: string) => {
+    if (!origin) throw new Error('The shared document has not been opened.');
+    return buildReplyLinks('suggest', createSuggestionSet(content, changes, author, sharedDocumentId), origin);
+  };
+
+  // Compares the shared version against the reader's own draft
+  const handleCompare = () => {
+    const state: DiffLocationState = { after: { label: 'Shared link', content } };
+    navigate('/diff', { state });
+  };
+
   if (loading) {
     return (
       <div className="h-screen w-full flex items-center justify-center text-[var(--accent-primary)] bg-[var(--bg-primary)]">
@@ -73,6 +442,96 @@ export const Viewer: React.FC = () => {
     );
   }
 
+  if (pending !== null) {
+    return (
+      <div className="h-screen w-full flex flex-col items-center justify-center gap-4 bg-[var(--bg-primary)] px-4">
+        <form
+          onSubmit={handleAddPart}
+          className="bg-[var(--bg-secondary)] p-6 md:p-8 rounded border border-[var(--border-primary)] flex flex-col items-center w-full max-w-md text-center shadow-2xl"
+        >
+          <Layers className="w-8 h-8 text-[var(--accent-primary)] mb-3" />
+          <h2 className="text-xl text-[var(--fg-primary)] font-bold mb-2">
+            Part {pending.received.length} of {pending.total} loaded
+          </h2>
+          <p className="text-[var(--fg-secondary)] text-sm mb-4">
+            This document was shared as {pending.total} links. Open the remaining links in this browser, or paste them below.
+          </p>
+          <div className="flex flex-wrap justify-center gap-1.5 mb-6">
+            {Array.from({ length: pending.total }, (_, i) => i + 1).map((index) => (
+              <span
+                key={index}
+                className={
+                  pending.received.includes(index)
+                    ? 'w-7 h-7 flex items-center justify-center rounded text-[10px] font-bold font-mono bg-[var(--accent-primary)] text-[#181a1f]'
+                    : 'w-7 h-7 flex items-center justify-center rounded text-[10px] font-mono border border-[var(--border-primary)] text-[var(--fg-secondary)]'
+                }
+              >
+                {index}
+              </span>
+            ))}
+          </div>
+          <input
+            type="text"
+            autoFocus
+            value={partLink}
+            onChange={(e) => {
+              setPartLink(e.target.value);
+              setPartLinkError(null);
+            }}
+            placeholder="Paste the next part link"
+            className="w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] p-3 rounded text-xs outline-none focus:border-[var(--accent-primary)] mb-2 font-mono"
+          />
+          <p className="text-xs text-red-500 min-h-[1rem] mb-4">{partLinkError}</p>
+          <Button type="submit" variant="primary" className="w-full" disabled={!partLink}>
+            Add Part
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
+  if (locked !== null) {
+    const isPassphrase = locked.kind === 'passphrase';
+    return (
+      <div className="h-screen w-full flex flex-col items-center justify-center gap-4 bg-[var(--bg-primary)] px-4">
+        <form
+          onSubmit={handleUnlock}
+          className="bg-[var(--bg-secondary)] p-6 md:p-8 rounded border border-[var(--border-primary)] flex flex-col items-center w-full max-w-md text-center shadow-2xl"
+        >
+          {isPassphrase ? (
+            <Lock className="w-8 h-8 text-[var(--accent-primary)] mb-3" />
+          ) : (
+            <KeyRound className="w-8 h-8 text-[var(--accent-primary)] mb-3" />
+          )}
+          <h2 className="text-xl text-[var(--fg-primary)] font-bold mb-2">
+            {isPassphrase ? 'Protected Document' : 'Encrypted Document'}
+          </h2>
+          <p className="text-[var(--fg-secondary)] text-sm mb-6">
+            {isPassphrase
+              ? 'This document is encrypted. Enter the passphrase you received from the sender.'
+              : 'This link does not include its decryption key. Paste the key (or the full link) you received from the sender.'}
+          </p>
+          <input
+            type={isPassphrase ? 'password' : 'text'}
+            autoFocus
+            value={secret}
+            onChange={(e) => {
+              setSecret(e.target.value);
+              setSecretError(null);
+            }}
+            placeholder={isPassphrase ? 'Passphrase' : 'Decryption key'}
+            className="w-full bg-[var(--bg-primary)] border border-[var(--border-primary)] p-3 rounded text-sm outline-none focus:border-[var(--accent-primary)] mb-2 font-mono"
+          />
+          <p className="text-xs text-red-500 min-h-[1rem] mb-4">{secretError}</p>
+          <Button type="submit" variant="primary" className="w-full" disabled={!secret || isDecrypting}>
+            {isDecrypting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Lock className="w-4 h-4 mr-2" />}
+            {isDecrypting ? 'Decrypting...' : 'Unlock'}
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col h-screen overflow-hidden bg-[var(--bg-primary)]">
       {/* Header */}
@@ -86,13 +545,34 @@ export const Viewer: React.FC = () => {
           <h1 className="text-xs md:text-lg font-bold tracking-tight text-[var(--fg-primary)] truncate flex items-center gap-2">
             GHOST.md
             <span className="hidden xs:inline-block text-[8px] md:text-[10px] font-normal text-[var(--fg-secondary)] border border-[var(--border-primary)] px-1 rounded bg-[var(--bg-secondary)] whitespace-nowrap">
-              READ ONLY
+              {proposed === null ? 'READ ONLY' : 'SUGGESTING'}
             </span>
           </h1>
         </div>
         <div className="flex gap-1.5 md:gap-2 items-center shrink-0">
             <ThemeToggle />
             <div className="h-6 w-[1px] bg-[var(--border-primary)] mx-0.5 md:mx-1 hidden xs:block" />
+            <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleToggleSuggesting}
+                className={proposed === null ? 'px-2 md:px-3' : 'px-2 md:px-3 border-[var(--accent-primary)] text-[var(--accent-primary)]'}
+                title={proposed === null ? 'Suggest changes' : 'Stop suggesting'}
+            >
+                <PencilLine className="w-3.5 h-3.5 md:w-4 md:h-4 md:mr-2" />
+                <span className="hidden md:inline">{proposed === null ? 'Suggest' : 'Done'}</span>
+            </Button>
+            {proposed === null && (
+                <Button variant="secondary" size="sm" onClick={() => setIsCommentsOpen(!isCommentsOpen)} className="px-2 md:px-3" title="Show comments">
+                    <MessageSquare className="w-3.5 h-3.5 md:w-4 md:h-4 md:mr-2" />
+                    <span className="hidden md:inline">Comments</span>
+                    <span className="ml-1 font-mono text-[10px] opacity-70">{comments.length}</span>
+                </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={handleCompare} className="px-2 md:px-3" title="Compare with your draft">
+                <GitCompare className="w-3.5 h-3.5 md:w-4 md:h-4 md:mr-2" />
+                <span className="hidden md:inline">Compare</span>
+            </Button>
             <Button variant="secondary" size="sm" onClick={handleCopyMarkdown} className="px-2 md:px-3">
                 <Copy className="w-3.5 h-3.5 md:w-4 md:h-4 md:mr-2" />
                 <span className="hidden md:inline">Copy Markdown</span>
@@ -107,11 +587,82 @@ export const Viewer: React.FC = () => {
       </header>
 
       {/* Content */}
-      <main className="flex-1 overflow-y-auto p-4 md:p-12 custom-scrollbar">
-        <article className="max-w-3xl mx-auto w-full">
-            <MarkdownRenderer content={content} />
-        </article>
-      </main>
+      <div className="flex-1 relative overflow-hidden">
+        {proposed !== null ? (
+          <div className="h-full w-full overflow-hidden relative sm:pr-80">
+            <CodeEditor
+              ref={suggestEditorRef}
+              value={proposed}
+              onChange={(value) => {
+                setProposed(value);
+                setActiveChangeId(null);
+              }}
+              matches={insertionRanges}
+              currentMatchIndex={insertions.findIndex((change) => change.id === activeChangeId)}
+            />
+          </div>
+        ) : (
+          <main
+            ref={documentRef}
+            onMouseUp={handleDocumentMouseUp}
+            className="h-full overflow-y-auto p-4 md:p-12 custom-scrollbar"
+          >
+            <article className="max-w-3xl mx-auto w-full">
+                <MarkdownRenderer
+                  content={content}
+                  comments={comments
+                    .filter((thread) => !thread.resolved && !isDetached(thread))
+                    .map((thread) => ({ id: thread.id, start: thread.anchor.start, end: thread.anchor.end }))}
+                  activeCommentId={activeCommentId}
+                  onCommentClick={handleSelectComment}
+                />
+            </article>
+          </main>
+        )}
+        {proposed !== null && (
+          <SuggestionsPanel
+            mode="draft"
+            items={changeItems}
+            activeId={activeChangeId}
+            onSelect={handleSelectChange}
+            onReject={handleDiscardChange}
+            onCreateLink={handleCreateSuggestionsLink}
+            onClose={handleToggleSuggesting}
+          />
+        )}
+        {isCommentsOpen && (
+          <CommentsPanel
+            threads={comments}
+            activeThreadId={activeCommentId}
+            draft={commentDraft && { quote: content.slice(commentDraft.start, commentDraft.end) }}
+            emptyMessage="No comments yet. Select text in the document and choose Comment."
+            onSelect={handleSelectComment}
+            onCreate={handleCreateThread}
+            onCancelDraft={() => setCommentDraft(null)}
+            onReply={handleReply}
+            feedbackCount={feedbackCount}
+            onCreateLink={handleCreateCommentsLink}
+            onClose={() => {
+              setIsCommentsOpen(false);
+              setCommentDraft(null);
+              setActiveCommentId(null);
+            }}
+          />
+        )}
+      </div>
+
+      {selection && (
+        <button
+          // Keep the selection while clicking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => startComment(selection)}
+          style={{ top: selection.top, left: selection.left }}
+          className="fixed z-[60] -translate-x-1/2 flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-[var(--bg-secondary)] border border-[var(--accent-primary)] text-xs font-bold text-[var(--fg-primary)] shadow-xl hover:bg-[var(--bg-tertiary)] animate-in fade-in duration-150"
+        >
+          <MessageSquarePlus size={14} className="text-[var(--accent-primary)]" />
+          Comment
+        </button>
+      )}
     </div>
   );
 };
\ No newline at end of file
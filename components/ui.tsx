@@ -40,6 +40,20 @@ export const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
 Button.displayName = 'Button';
 
 // --- Theme Toggle ---
+export const THEMES = [
+  { id: 'gruvbox', label: 'Gruvbox Dark' },
+  { id: 'one-dark', label: 'One Dark Pro' },
+];
+
+const themeListeners: ((theme: string) => void)[] = [];
+
+// Also used by the command palette, so every toggle on the page follows along
+export const setTheme = (theme: string) => {
+  document.documentElement.setAttribute('data-theme', theme);
+  localStorage.setItem('ghost-md-theme', theme);
+  themeListeners.forEach((l) => l(theme));
+};
+
 export const ThemeToggle = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [currentTheme, setCurrentTheme] = useState('gruvbox');
@@ -48,6 +62,7 @@ export const ThemeToggle = () => {
   useEffect(() => {
     const saved = localStorage.getItem('ghost-md-theme') || 'gruvbox';
     setCurrentTheme(saved);
+    themeListeners.push(setCurrentTheme);
     
     const handleClickOutside = (event: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
@@ -55,13 +70,15 @@ export const ThemeToggle = () => {
       }
     };
     document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      const idx = themeListeners.indexOf(setCurrentTheme);
+      if (idx > -1) themeListeners.splice(idx, 1);
+    };
   }, []);
 
   const handleThemeChange = (theme: string) => {
-    document.documentElement.setAttribute('data-theme', theme);
-    localStorage.setItem('ghost-md-theme', theme);
-    setCurrentTheme(theme);
+    setTheme(theme);
     setIsOpen(false);
   };
 
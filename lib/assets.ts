@@ -0,0 +1,149 @@
+import { generateId } from "../utils";
+import { getRecord, putRecord } from "./db";
+
+// Images dropped or pasted into a document are stored locally in IndexedDB and
+// referenced from markdown as `asset://<id>`. They only exist in this browser,
+// so shared links either embed them as downscaled data URIs or leave them out.
+
+export interface Asset {
+  id: string;
+  name: string;
+  type: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+export interface SharedAssets {
+  markdown: string;
+  embedded: number;
+  omitted: number;
+}
+
+export const ASSET_PROTOCOL = "asset://";
+
+const ASSET_IMAGE_PATTERN = /!\[([^\]]*)\]\(asset:\/\/([\w-]+)\)/g;
+
+// Longest side in pixels, tried from largest to smallest until an image fits
+const SHARE_IMAGE_SIZES = [1024, 640, 400, 240, 160, 96, 64];
+const SHARE_IMAGE_QUALITY = 0.7;
+
+export const isAssetUrl = (url: string) => url.startsWith(ASSET_PROTOCOL);
+
+export const isImageFile = (file: File) => file.type.startsWith("image/");
+
+export const getAsset = (id: string): Promise<Asset | undefined> =>
+  getRecord<Asset>("assets", id);
+
+export const saveImageAsset = (file: File): Promise<Asset> =>
+  putRecord<Asset>("assets", {
+    id: generateId(),
+    name: file.name,
+    type: file.type,
+    blob: file,
+    createdAt: Date.now(),
+  });
+
+// Alt text from the file name, without characters that would break the link syntax
+const altText = (name: string) =>
+  name.replace(/\.[^/.]+$/, "").replace(/[[\]]/g, "") || "image";
+
+/** Stores the images and returns markdown referencing them, one per line. */
+export const insertImageAssets = async (files: File[]): Promise<string> => {
+  const assets = await Promise.all(files.filter(isImageFile).map(saveImageAsset));
+  return assets
+    .map((asset) => `![${altText(asset.name)}](${ASSET_PROTOCOL}${asset.id})`)
+    .join("\n");
+};
+
+// Object URLs are created once per asset and kept for the session
+const objectUrls = new Map<string, Promise<string | null>>();
+
+/** Resolves an `asset://` URL to an object URL, or null when the asset is missing. */
+export const resolveAssetUrl = (url: string): Promise<string | null> => {
+  const id = url.slice(ASSET_PROTOCOL.length);
+  let resolved = objectUrls.get(id);
+  if (!resolved) {
+    resolved = getAsset(id)
+      .then((asset) => (asset ? URL.createObjectURL(asset.blob) : null))
+      .catch(() => null);
+    objectUrls.set(id, resolved);
+  }
+  return resolved;
+};
+
+const loadBitmap = async (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// JPEG keeps photos and screenshots far smaller than PNG; transparency is
+// flattened onto white
+const toDataUrl = (img: HTMLImageElement, maxSide: number): string => {
+  const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", SHARE_IMAGE_QUALITY);
+};
+
+/**
+ * Rewrites `asset://` images for a shared link. With `embed`, each image is
+ * downscaled until it fits its share of `budget` characters and inlined as a
+ * data URI; images that don't fit (or all of them, without `embed`) are
+ * replaced by their alt text.
+ */
+export const prepareAssetsForSharing = async (
+  markdown: string,
+  { embed, budget }: { embed: boolean; budget: number }
+): Promise<SharedAssets> => {
+  const matches = Array.from(markdown.matchAll(ASSET_IMAGE_PATTERN));
+  if (matches.length === 0) return { markdown, embedded: 0, omitted: 0 };
+
+  const replacements = new Map<string, string>();
+  let remaining = budget;
+  let embedded = 0;
+
+  for (const [index, [match, alt, id]] of matches.entries()) {
+    if (replacements.has(match)) continue;
+    let replacement = `_[${alt || "image"}]_`;
+
+    const asset = embed ? await getAsset(id) : undefined;
+    if (asset && remaining > 0) {
+      // Later images get an equal share of what is left
+      const share = remaining / (matches.length - index);
+      try {
+        const img = await loadBitmap(asset.blob);
+        for (const size of SHARE_IMAGE_SIZES) {
+          const dataUrl = toDataUrl(img, size);
+          if (dataUrl && dataUrl.length <= share) {
+            replacement = `![${alt}](${dataUrl})`;
+            remaining -= dataUrl.length;
+            embedded++;
+            break;
+          }
+        }
+      } catch {
+        // Images that can't be decoded are left out and counted as omitted
+      }
+    }
+    replacements.set(match, replacement);
+  }
+
+  return {
+    markdown: markdown.replace(ASSET_IMAGE_PATTERN, (match) => replacements.get(match) ?? match),
+    embedded,
+    omitted: replacements.size - embedded,
+  };
+};
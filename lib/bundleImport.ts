@@ -0,0 +1,278 @@
+import { ASSET_PROTOCOL, saveImageAsset } from "./assets";
+import { IMPORT_ACCEPT, importFile } from "./importers";
+import {
+  createDocument,
+  createFolder,
+  DOCUMENT_LINK_PROTOCOL,
+  updateDocument,
+  type WorkspaceDocument,
+  type WorkspaceFolder,
+} from "./workspace";
+
+// Imports a set of files at once: several dropped files, a dropped directory or
+// a .zip archive. Directories become workspace folders, images become assets,
+// and relative links between the files are rewritten to `asset://` and `doc://`
+// references so they keep working inside GHOST.md.
+
+// Loaded on demand; only needed for .zip files
+const loadFflate = () => import("fflate");
+
+export interface BundleEntry {
+  // Path inside the bundle, "/"-separated, e.g. "guide/img/a.png"
+  path: string;
+  file: File;
+}
+
+export interface BundleImportResult {
+  documents: WorkspaceDocument[];
+  folders: WorkspaceFolder[];
+  images: number;
+  skipped: string[];
+}
+
+// Value for the `accept` attribute of file inputs that also take archives
+export const BUNDLE_ACCEPT = `${IMPORT_ACCEPT},.zip`;
+
+const DOCUMENT_EXTENSIONS = IMPORT_ACCEPT.split(",").map((ext) => ext.slice(1));
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  avif: "image/avif",
+};
+
+// Files we never want to import from archives or folders
+const IGNORED_PATH = /(^|\/)(__MACOSX|\.[^/]+)(\/|$)/;
+
+// Preferred first document to open after an import
+const INDEX_NAMES = ["readme", "index"];
+
+const extensionOf = (path: string) => path.split(".").pop()?.toLowerCase() ?? "";
+
+const dirnameOf = (path: string) => path.split("/").slice(0, -1).join("/");
+
+export const isZipFile = (file: File) => extensionOf(file.name) === "zip";
+
+const isDocumentPath = (path: string) => DOCUMENT_EXTENSIONS.includes(extensionOf(path));
+
+const isImagePath = (path: string) => extensionOf(path) in IMAGE_TYPES;
+
+const readDirectory = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty one
+  return new Promise((resolve, reject) => {
+    const readBatch = () =>
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...batch);
+          readBatch();
+        }
+      }, reject);
+    readBatch();
+  });
+};
+
+const walkEntry = async (entry: FileSystemEntry): Promise<BundleEntry[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ path: entry.fullPath.replace(/^\//, ""), file }];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(walkEntry))).flat();
+  }
+  return [];
+};
+
+/**
+ * Snapshots what was dropped. Must be called synchronously inside the drop
+ * handler; the DataTransfer is emptied once the event returns.
+ */
+export const readDroppedItems = (dataTransfer: DataTransfer): (() => Promise<BundleEntry[]>) => {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length > 0 && entries.every((entry) => entry !== null)) {
+    return async () =>
+      (await Promise.all(entries.map((entry) => walkEntry(entry!)))).flat();
+  }
+  // Browsers without the entries API only expose the top-level files
+  const files = Array.from(dataTransfer.files);
+  return async () => files.map((file) => ({ path: file.name, file }));
+};
+
+export const filesToEntries = (files: File[]): BundleEntry[] =>
+  files.map((file) => ({ path: file.webkitRelativePath || file.name, file }));
+
+const expandZip = async (zip: BundleEntry): Promise<BundleEntry[]> => {
+  const { unzip } = await loadFflate();
+  const data = new Uint8Array(await zip.file.arrayBuffer());
+  const files = await new Promise<Record<string, Uint8Array>>((resolve, reject) =>
+    unzip(data, (error, result) => (error ? reject(error) : resolve(result)))
+  );
+
+  // Archive contents go into a folder named after the archive, unless the
+  // archive already has a single top-level directory
+  const paths = Object.keys(files).filter((path) => !path.endsWith("/"));
+  const roots = new Set(paths.map((path) => path.split("/")[0]));
+  const hasSingleRoot = roots.size === 1 && paths.every((path) => path.includes("/"));
+  const prefix = hasSingleRoot
+    ? dirnameOf(zip.path)
+    : zip.path.replace(/\.zip$/i, "");
+
+  return paths.map((path) => {
+    const name = path.split("/").pop()!;
+    const type = IMAGE_TYPES[extensionOf(name)] ?? "";
+    return {
+      path: prefix ? `${prefix}/${path}` : path,
+      file: new File([files[path]], name, { type }),
+    };
+  });
+};
+
+/** Replaces .zip entries by their contents. */
+export const expandArchives = async (entries: BundleEntry[]): Promise<BundleEntry[]> =>
+  (
+    await Promise.all(
+      entries.map((entry) => (isZipFile(entry.file) ? expandZip(entry) : [entry]))
+    )
+  ).flat();
+
+// Resolves `target` relative to the directory `base`, or null if it leaves the bundle
+const resolvePath = (base: string, target: string): string | null => {
+  const parts = base ? base.split("/") : [];
+  for (const segment of target.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(segment);
+    }
+  }
+  return parts.join("/");
+};
+
+// Inline links/images `[x](target "title")` and reference definitions `[x]: target`
+const INLINE_LINK_PATTERN = /(\]\()(<[^>]+>|[^)\s]+)/g;
+const DEFINITION_PATTERN = /^( {0,3}\[[^\]]+\]:[ \t]*)(<[^>]+>|\S+)/gm;
+
+const rewriteLinks = (
+  markdown: string,
+  documentPath: string,
+  resolveTarget: (path: string) => string | null
+): string => {
+  const base = dirnameOf(documentPath);
+
+  const rewrite = (raw: string): string => {
+    const target = raw.startsWith("<") ? raw.slice(1, -1) : raw;
+    // Absolute URLs, site-absolute paths and in-page anchors stay as they are
+    if (/^([a-z][a-z\d+.-]*:|\/|#)/i.test(target)) return raw;
+
+    const [pathPart, hash = ""] = target.split("#");
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(pathPart.split("?")[0]);
+    } catch {
+      return raw;
+    }
+    const resolved = resolvePath(base, decoded);
+    const replacement = resolved !== null ? resolveTarget(resolved) : null;
+    if (!replacement) return raw;
+    return hash && replacement.startsWith(DOCUMENT_LINK_PROTOCOL)
+      ? `${replacement}#${hash}`
+      : replacement;
+  };
+
+  return markdown
+    .replace(INLINE_LINK_PATTERN, (_, open: string, target: string) => open + rewrite(target))
+    .replace(DEFINITION_PATTERN, (_, label: string, target: string) => label + rewrite(target));
+};
+
+/** Imports documents and images from `entries`, recreating their directories as folders. */
+export const importBundle = async (
+  entries: BundleEntry[],
+  parentFolderId: string | null = null
+): Promise<BundleImportResult> => {
+  const files = (await expandArchives(entries)).filter(
+    (entry) => !IGNORED_PATH.test(entry.path)
+  );
+  const documentEntries = files.filter((entry) => isDocumentPath(entry.path));
+  const imageEntries = files.filter((entry) => isImagePath(entry.path));
+  const skipped = files
+    .filter((entry) => !isDocumentPath(entry.path) && !isImagePath(entry.path))
+    .map((entry) => entry.path);
+
+  // Images first, so documents can reference them
+  const assetIds = new Map<string, string>();
+  for (const entry of imageEntries) {
+    const file = entry.file.type
+      ? entry.file
+      : new File([entry.file], entry.file.name, { type: IMAGE_TYPES[extensionOf(entry.path)] });
+    assetIds.set(entry.path, (await saveImageAsset(file)).id);
+  }
+
+  // One workspace folder per directory that contains documents
+  const folders: WorkspaceFolder[] = [];
+  const folderIds = new Map<string, string | null>([["", parentFolderId]]);
+  const ensureFolder = async (dir: string): Promise<string | null> => {
+    if (folderIds.has(dir)) return folderIds.get(dir)!;
+    const parentId = await ensureFolder(dirnameOf(dir));
+    const folder = await createFolder(dir.split("/").pop()!, parentId);
+    folders.push(folder);
+    folderIds.set(dir, folder.id);
+    return folder.id;
+  };
+
+  // Create every document before rewriting, so links between them can resolve
+  const imported: { entry: BundleEntry; doc: WorkspaceDocument }[] = [];
+  for (const entry of documentEntries) {
+    try {
+      const { fileName, markdown } = await importFile(entry.file);
+      const folderId = await ensureFolder(dirnameOf(entry.path));
+      imported.push({ entry, doc: await createDocument({ fileName, content: markdown, folderId }) });
+    } catch (error) {
+      console.error(`Failed to import ${entry.path}:`, error);
+      skipped.push(entry.path);
+    }
+  }
+
+  const documentIds = new Map(imported.map(({ entry, doc }) => [entry.path, doc.id]));
+  const resolveTarget = (path: string) => {
+    if (assetIds.has(path)) return ASSET_PROTOCOL + assetIds.get(path);
+    if (documentIds.has(path)) return DOCUMENT_LINK_PROTOCOL + documentIds.get(path);
+    return null;
+  };
+
+  const documents = await Promise.all(
+    imported.map(async ({ entry, doc }) => {
+      const content = rewriteLinks(doc.content, entry.path, resolveTarget);
+      if (content === doc.content) return doc;
+      return (await updateDocument(doc.id, { content })) ?? doc;
+    })
+  );
+
+  // Index documents first, then by path, so callers can open the natural entry point
+  const rank = (doc: WorkspaceDocument) =>
+    INDEX_NAMES.includes(doc.fileName.toLowerCase()) ? 0 : 1;
+  const paths = new Map(imported.map(({ entry, doc }) => [doc.id, entry.path]));
+  documents.sort(
+    (a, b) =>
+      paths.get(a.id)!.split("/").length - paths.get(b.id)!.split("/").length ||
+      rank(a) - rank(b) ||
+      paths.get(a.id)!.localeCompare(paths.get(b.id)!)
+  );
+
+  return { documents, folders, images: assetIds.size, skipped };
+};
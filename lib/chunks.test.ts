@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  assembleParts,
+  checksum,
+  collectPart,
+  loadCollectedParts,
+  MAX_SHARE_PARTS,
+  parsePartParams,
+  partToParams,
+  ShareChunkError,
+  splitPayload,
+} from "./chunks";
+
+const PAYLOAD = "v2.abcdefghijklmnopqrstuvwxyz-_0123456789";
+
+const toParams = (params: Record<string, string>) => new URLSearchParams(params);
+
+describe("checksum", () => {
+  it("is the CRC-32 of the UTF-16LE code units", () => {
+    expect(checksum("")).toBe("00000000");
+    expect(checksum("123456789")).toBe("a290e877");
+    expect(checksum("ü€")).toBe("d428a52e");
+  });
+});
+
+describe("splitPayload", () => {
+  it("splits into numbered parts that reassemble in any order", () => {
+    const parts = splitPayload("x", PAYLOAD, 10)!;
+    expect(parts).toHaveLength(5);
+    expect(parts.every((part) => part.data.length <= 10 && part.setId === checksum(PAYLOAD))).toBe(
+      true
+    );
+    expect(assembleParts([...parts].reverse())).toBe(PAYLOAD);
+  });
+
+  it("refuses to need more than MAX_SHARE_PARTS links", () => {
+    expect(splitPayload("c", "a".repeat(MAX_SHARE_PARTS + 1), 1)).toBeNull();
+    expect(splitPayload("c", PAYLOAD, 0)).toBeNull();
+  });
+
+  it("rejects incomplete sets and parts from another share", () => {
+    const parts = splitPayload("c", PAYLOAD, 10)!;
+    expect(() => assembleParts(parts.slice(1))).toThrow(ShareChunkError);
+    const [other] = splitPayload("c", PAYLOAD.toUpperCase(), 10)!;
+    expect(() => assembleParts([other, ...parts.slice(1)])).toThrow(/checksum/);
+  });
+});
+
+describe("parsePartParams", () => {
+  it("round-trips a part through its query parameters", () => {
+    const [part] = splitPayload("e", "ab+cd", 3)!;
+    const params = partToParams(part);
+    // Browsers decode an unescaped '+' in a link as a space
+    expect(parsePartParams(toParams({ ...params, d: params.d.replace("+", " ") }))).toEqual(part);
+  });
+
+  it("ignores links without a part", () => {
+    expect(parsePartParams(toParams({ c: PAYLOAD }))).toBeNull();
+  });
+
+  it("rejects incomplete, misnumbered and corrupted parts", () => {
+    const params = partToParams(splitPayload("c", PAYLOAD, 10)![1]);
+    expect(() => parsePartParams(toParams({ ...params, t: "z" }))).toThrow(/incomplete/);
+    expect(() => parsePartParams(toParams({ ...params, part: "6-5" }))).toThrow(/part number/);
+    expect(() => parsePartParams(toParams({ ...params, d: "tampered" }))).toThrow(/corrupted/);
+  });
+});
+
+describe("collectPart", () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps one copy of each part, in order", () => {
+    const [first, second] = splitPayload("c", PAYLOAD, 30)!;
+    collectPart(second);
+    collectPart(first);
+    expect(collectPart(second)).toEqual([first, second]);
+    expect(loadCollectedParts(first.setId)).toEqual([first, second]);
+  });
+});
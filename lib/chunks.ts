@@ -0,0 +1,144 @@
+// Splits share payloads that are too long for a single URL into numbered parts.
+// Each part link carries: payload kind, index/total, the set id (checksum of the
+// whole payload) and a checksum of its own slice, so the viewer can verify and
+// reassemble them in any order.
+
+export type PayloadKind = "c" | "x" | "e";
+
+export interface SharePart {
+  kind: PayloadKind;
+  index: number; // 1-based
+  total: number;
+  setId: string;
+  checksum: string;
+  data: string;
+}
+
+export class ShareChunkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareChunkError";
+  }
+}
+
+export const MAX_SHARE_PARTS = 50;
+
+const PARTS_STORAGE_PREFIX = "ghost-md-parts-";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 of the string's UTF-16 code units, as 8 hex characters
+export const checksum = (value: string): string => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    crc = CRC_TABLE[(crc ^ code) & 0xff] ^ (crc >>> 8);
+    crc = CRC_TABLE[(crc ^ (code >>> 8)) & 0xff] ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, "0");
+};
+
+/**
+ * Splits `payload` into parts whose data is at most `maxDataLength` characters.
+ * Returns null when it would need more than MAX_SHARE_PARTS links.
+ */
+export const splitPayload = (
+  kind: PayloadKind,
+  payload: string,
+  maxDataLength: number
+): SharePart[] | null => {
+  if (maxDataLength <= 0) return null;
+  const total = Math.ceil(payload.length / maxDataLength);
+  if (total > MAX_SHARE_PARTS) return null;
+
+  const setId = checksum(payload);
+  return Array.from({ length: total }, (_, i) => {
+    const data = payload.slice(i * maxDataLength, (i + 1) * maxDataLength);
+    return { kind, index: i + 1, total, setId, checksum: checksum(data), data };
+  });
+};
+
+export const partToParams = (part: SharePart): Record<string, string> => ({
+  part: `${part.index}-${part.total}`,
+  set: part.setId,
+  sum: part.checksum,
+  t: part.kind,
+  d: part.data,
+});
+
+// Length of the query parameters other than the data itself
+export const partOverhead = (total: number) =>
+  `part=${total}-${total}&set=00000000&sum=00000000&t=c&d=`.length;
+
+export const parsePartParams = (params: URLSearchParams): SharePart | null => {
+  const position = params.get("part");
+  if (position === null) return null;
+
+  const match = /^(\d+)-(\d+)$/.exec(position);
+  const setId = params.get("set");
+  const sum = params.get("sum");
+  const kind = params.get("t");
+  // Browsers turn '+' into ' ' when decoding query values
+  const data = params.get("d")?.replace(/ /g, "+");
+  if (!match || !setId || !sum || !data || (kind !== "c" && kind !== "x" && kind !== "e")) {
+    throw new ShareChunkError("This part link is incomplete.");
+  }
+
+  const index = Number(match[1]);
+  const total = Number(match[2]);
+  if (index < 1 || index > total || total > MAX_SHARE_PARTS) {
+    throw new ShareChunkError("This part link has an invalid part number.");
+  }
+  if (checksum(data) !== sum) {
+    throw new ShareChunkError(`Part ${index} of ${total} is corrupted (checksum mismatch).`);
+  }
+  return { kind, index, total, setId, checksum: sum, data };
+};
+
+// Collected parts are kept in localStorage so they can arrive in separate tabs
+export const loadCollectedParts = (setId: string): SharePart[] => {
+  try {
+    const saved = localStorage.getItem(PARTS_STORAGE_PREFIX + setId);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const collectPart = (part: SharePart): SharePart[] => {
+  const parts = loadCollectedParts(part.setId).filter((p) => p.index !== part.index);
+  parts.push(part);
+  parts.sort((a, b) => a.index - b.index);
+  localStorage.setItem(PARTS_STORAGE_PREFIX + part.setId, JSON.stringify(parts));
+  return parts;
+};
+
+export const clearCollectedParts = (setId: string) =>
+  localStorage.removeItem(PARTS_STORAGE_PREFIX + setId);
+
+export const isStoredPartsKey = (key: string | null, setId: string) =>
+  key === PARTS_STORAGE_PREFIX + setId;
+
+/** Joins a complete set of parts and verifies it against the set checksum. */
+export const assembleParts = (parts: SharePart[]): string => {
+  const [first] = parts;
+  if (!first || parts.length !== first.total) {
+    throw new ShareChunkError("Not all parts have been loaded yet.");
+  }
+  const payload = [...parts]
+    .sort((a, b) => a.index - b.index)
+    .map((p) => p.data)
+    .join("");
+  if (checksum(payload) !== first.setId) {
+    throw new ShareChunkError("The reassembled document failed its checksum. A part may be from a different share.");
+  }
+  return payload;
+};
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { compressMarkdown } from "../utils";
+import {
+  decodePayload,
+  deflateCodec,
+  encodePayload,
+  lzCodec,
+  UnsupportedCodecError,
+} from "./codec";
+
+const MARKDOWN = `# Notes\n\n${"Ünïcode and repeated text. ".repeat(40)}\n`;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("encodePayload", () => {
+  it("keeps the smallest encoding and round-trips it", async () => {
+    const lz = await lzCodec.encode(MARKDOWN);
+    const deflate = deflateCodec.header + (await deflateCodec.encode(MARKDOWN));
+    const encoded = await encodePayload(MARKDOWN);
+    expect(encoded.payload.length).toBe(Math.min(lz.length, deflate.length));
+    expect(encoded.ratio).toBeCloseTo(
+      encoded.payload.length / new TextEncoder().encode(MARKDOWN).length
+    );
+    expect(await decodePayload(encoded.payload)).toBe(MARKDOWN);
+  });
+
+  it("falls back to another codec when one fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(deflateCodec, "encode").mockRejectedValue(new Error("broken"));
+    const encoded = await encodePayload(MARKDOWN);
+    expect(encoded.codec).toBe(lzCodec);
+    expect(await decodePayload(encoded.payload)).toBe(MARKDOWN);
+  });
+
+  it("throws when no codec can encode", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(lzCodec, "encode").mockRejectedValue(new Error("broken"));
+    vi.spyOn(deflateCodec, "isSupported").mockReturnValue(false);
+    await expect(encodePayload(MARKDOWN)).rejects.toThrow("No codec could encode the document.");
+  });
+});
+
+describe("decodePayload", () => {
+  it("decodes legacy LZ-String payloads", async () => {
+    expect(await decodePayload(compressMarkdown(MARKDOWN))).toBe(MARKDOWN);
+  });
+
+  it("decodes deflate payloads", async () => {
+    const payload = deflateCodec.header + (await deflateCodec.encode(MARKDOWN));
+    expect(await decodePayload(payload)).toBe(MARKDOWN);
+  });
+
+  it("returns null for corrupted deflate data", async () => {
+    expect(await decodePayload("v2.not-deflate")).toBeNull();
+  });
+
+  it("rejects codecs it doesn't know or can't run", async () => {
+    await expect(decodePayload("v9.data")).rejects.toThrow(UnsupportedCodecError);
+    vi.spyOn(deflateCodec, "isSupported").mockReturnValue(false);
+    await expect(decodePayload("v2.data")).rejects.toThrow(/cannot decode Deflate/);
+  });
+});
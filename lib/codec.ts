@@ -0,0 +1,114 @@
+import { base64UrlToBytes, bytesToBase64Url, compressMarkdown, decompressMarkdown } from "../utils";
+
+// Versioned share payloads. Legacy `?c=` links carry bare LZ-String output;
+// newer codecs prefix their data with a version header such as "v2.".
+// LZ-String's URI alphabet has no '.', so the two can never be confused.
+
+export interface Codec {
+  id: string;
+  label: string;
+  header: string;
+  isSupported: () => boolean;
+  encode: (markdown: string) => Promise<string>;
+  decode: (data: string) => Promise<string | null>;
+}
+
+export interface EncodedPayload {
+  payload: string;
+  codec: Codec;
+  // Payload length relative to the UTF-8 size of the markdown
+  ratio: number;
+}
+
+const transform = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> =>
+  new Uint8Array(
+    await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer()
+  );
+
+export const lzCodec: Codec = {
+  id: "lz",
+  label: "LZ-String",
+  header: "",
+  isSupported: () => true,
+  encode: async (markdown) => compressMarkdown(markdown),
+  decode: async (data) => decompressMarkdown(data),
+};
+
+export const deflateCodec: Codec = {
+  id: "deflate",
+  label: "Deflate",
+  header: "v2.",
+  isSupported: () =>
+    typeof CompressionStream !== "undefined" &&
+    typeof DecompressionStream !== "undefined",
+  encode: async (markdown) =>
+    bytesToBase64Url(
+      await transform(
+        new TextEncoder().encode(markdown),
+        new CompressionStream("deflate-raw")
+      )
+    ),
+  decode: async (data) =>
+    new TextDecoder().decode(
+      await transform(base64UrlToBytes(data), new DecompressionStream("deflate-raw"))
+    ),
+};
+
+// Ordered by preference when two codecs produce the same length
+export const CODECS: Codec[] = [lzCodec, deflateCodec];
+
+/** Encodes with every supported codec and keeps the smallest result. */
+export const encodePayload = async (markdown: string): Promise<EncodedPayload> => {
+  const candidates = await Promise.all(
+    CODECS.filter((codec) => codec.isSupported()).map(async (codec) => {
+      try {
+        return { codec, payload: codec.header + (await codec.encode(markdown)) };
+      } catch (error) {
+        console.error(`Codec ${codec.id} failed:`, error);
+        return null;
+      }
+    })
+  );
+
+  let best: { codec: Codec; payload: string } | null = null;
+  for (const candidate of candidates) {
+    if (candidate && (!best || candidate.payload.length < best.payload.length)) best = candidate;
+  }
+  if (!best) throw new Error("No codec could encode the document.");
+
+  const size = new TextEncoder().encode(markdown).length;
+  return { ...best, ratio: size ? best.payload.length / size : 1 };
+};
+
+export class UnsupportedCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedCodecError";
+  }
+}
+
+/** Decodes any payload produced by encodePayload, including legacy LZ-String links. */
+export const decodePayload = async (payload: string): Promise<string | null> => {
+  const versioned = /^v\d+\./.exec(payload);
+  if (!versioned) return lzCodec.decode(payload);
+
+  const codec = CODECS.find((c) => c.header === versioned[0]);
+  if (!codec) {
+    throw new UnsupportedCodecError(
+      "This link was created with a newer version of GHOST.md."
+    );
+  }
+  if (!codec.isSupported()) {
+    throw new UnsupportedCodecError(
+      `Your browser cannot decode ${codec.label}-compressed links.`
+    );
+  }
+  try {
+    return await codec.decode(payload.slice(codec.header.length));
+  } catch {
+    return null;
+  }
+};
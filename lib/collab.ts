@@ -0,0 +1,229 @@
+import * as Y from "yjs";
+import { Awareness } from "y-protocols/awareness";
+import { generateId } from "../utils";
+import {
+  getCollabTransport,
+  type CollabStatus,
+  type CollabTransportId,
+} from "./collabTransports";
+
+// Real-time collaboration sessions. The shared document is a Yjs CRDT: every
+// browser edits its own copy of a Y.Text and the transport exchanges updates,
+// so concurrent edits merge without a server deciding the order. Presence
+// (name, colour and selection) travels as Yjs awareness state.
+
+export interface CollabSettings {
+  transport: CollabTransportId;
+  // Relay for the WebSocket transport, signaling server for WebRTC
+  serverUrl: string;
+  name: string;
+  color: string;
+}
+
+export interface CollabSelection {
+  anchor: number;
+  head: number;
+}
+
+export interface CollabPeer {
+  clientId: number;
+  name: string;
+  color: string;
+  selection: CollabSelection | null;
+}
+
+export interface CollabSession {
+  room: string;
+  doc: Y.Doc;
+  text: Y.Text;
+  awareness: Awareness;
+  // File name chosen by whoever started the session
+  meta: Y.Map<string>;
+  leave: () => void;
+}
+
+// Shape of our awareness state; selections are relative positions so they
+// stay attached to the same characters while others type
+interface PresenceState {
+  user?: { name: string; color: string };
+  selection?: { anchor: unknown; head: unknown } | null;
+}
+
+const SETTINGS_KEY = "ghost-md-collab";
+const ROOM_PARAM = "room";
+
+export const COLLAB_COLORS = [
+  "#fabd2f",
+  "#fb4934",
+  "#b8bb26",
+  "#83a598",
+  "#d3869b",
+  "#8ec07c",
+  "#fe8019",
+];
+
+export const DEFAULT_COLLAB_SETTINGS: CollabSettings = {
+  transport: "websocket",
+  serverUrl: "ws://localhost:4444",
+  name: "",
+  color: COLLAB_COLORS[0],
+};
+
+export const loadCollabSettings = (): CollabSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved
+      ? { ...DEFAULT_COLLAB_SETTINGS, ...JSON.parse(saved) }
+      : {
+          ...DEFAULT_COLLAB_SETTINGS,
+          color: COLLAB_COLORS[Math.floor(Math.random() * COLLAB_COLORS.length)],
+        };
+  } catch {
+    return DEFAULT_COLLAB_SETTINGS;
+  }
+};
+
+export const saveCollabSettings = (settings: CollabSettings) =>
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+// Room ids double as the invitation secret, so they are long and random
+export const createRoomId = () => generateId() + generateId();
+
+export const buildInviteUrl = (room: string, settings: CollabSettings): string => {
+  const params = new URLSearchParams({
+    [ROOM_PARAM]: room,
+    transport: settings.transport,
+    server: settings.serverUrl,
+  });
+  return `${window.location.origin}/#/?${params}`;
+};
+
+/** Reads an invitation from the editor's query parameters. */
+export const parseInvite = (
+  params: URLSearchParams
+): { room: string; settings: Partial<CollabSettings> } | null => {
+  const room = params.get(ROOM_PARAM);
+  if (!room) return null;
+  const settings: Partial<CollabSettings> = {};
+  const transport = params.get("transport");
+  if (transport === "websocket" || transport === "webrtc") settings.transport = transport;
+  const server = params.get("server");
+  if (server) settings.serverUrl = server;
+  return { room, settings };
+};
+
+/**
+ * Joins (or starts) the session for `room`. When `initial` is given this
+ * browser starts the session and seeds the shared text with it; people who
+ * join start empty and receive the content from the others.
+ */
+export const joinCollabSession = async ({
+  room,
+  settings,
+  initial,
+  onStatus,
+}: {
+  room: string;
+  settings: CollabSettings;
+  initial?: { content: string; fileName: string };
+  onStatus: (status: CollabStatus) => void;
+}): Promise<CollabSession> => {
+  const doc = new Y.Doc();
+  const text = doc.getText("markdown");
+  const meta = doc.getMap<string>("meta");
+  if (initial) {
+    doc.transact(() => {
+      text.insert(0, initial.content);
+      meta.set("fileName", initial.fileName);
+    });
+  }
+
+  const awareness = new Awareness(doc);
+  awareness.setLocalStateField("user", {
+    name: settings.name.trim() || "Anonymous",
+    color: settings.color,
+  });
+
+  try {
+    const disconnect = await getCollabTransport(settings.transport).connect({
+      room,
+      serverUrl: settings.serverUrl,
+      doc,
+      awareness,
+      onStatus,
+    });
+    return {
+      room,
+      doc,
+      text,
+      awareness,
+      meta,
+      leave: () => {
+        disconnect();
+        awareness.destroy();
+        doc.destroy();
+      },
+    };
+  } catch (error) {
+    awareness.destroy();
+    doc.destroy();
+    throw error;
+  }
+};
+
+/** Applies an edit made outside Yjs (typing, undo, snippets...) as a minimal change. */
+export const applyTextChange = (text: Y.Text, value: string) => {
+  const current = text.toString();
+  if (current === value) return;
+  let start = 0;
+  while (start < current.length && start < value.length && current[start] === value[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < value.length - start &&
+    current[current.length - 1 - end] === value[value.length - 1 - end]
+  ) {
+    end++;
+  }
+  text.doc!.transact(() => {
+    text.delete(start, current.length - start - end);
+    text.insert(start, value.slice(start, value.length - end));
+  });
+};
+
+export const setLocalSelection = (
+  session: CollabSession,
+  selection: CollabSelection | null
+) => {
+  const toRelative = (index: number) =>
+    Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(session.text, index));
+  session.awareness.setLocalStateField(
+    "selection",
+    selection ? { anchor: toRelative(selection.anchor), head: toRelative(selection.head) } : null
+  );
+};
+
+/** Everyone else in the session, with selections resolved against the current text. */
+export const getCollabPeers = (session: CollabSession): CollabPeer[] => {
+  const toAbsolute = (json: unknown) =>
+    Y.createAbsolutePositionFromRelativePosition(
+      Y.createRelativePositionFromJSON(json),
+      session.doc
+    )?.index ?? null;
+
+  const peers: CollabPeer[] = [];
+  session.awareness.getStates().forEach((state: PresenceState, clientId) => {
+    if (clientId === session.doc.clientID || !state.user) return;
+    const anchor = state.selection ? toAbsolute(state.selection.anchor) : null;
+    const head = state.selection ? toAbsolute(state.selection.head) : null;
+    peers.push({
+      clientId,
+      name: state.user.name,
+      color: state.user.color,
+      selection: anchor !== null && head !== null ? { anchor, head } : null,
+    });
+  });
+  return peers;
+};
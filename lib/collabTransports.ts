@@ -0,0 +1,251 @@
+import * as Y from "yjs";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as syncProtocol from "y-protocols/sync";
+import * as decoding from "lib0/decoding";
+import * as encoding from "lib0/encoding";
+import { base64UrlToBytes, bytesToBase64Url, generateId } from "../utils";
+
+// Pluggable transports for collaboration sessions. A transport carries Yjs
+// document updates and awareness (presence) between the browsers in a room;
+// none of them stores anything, so no central database is needed.
+//
+// Both built-in transports talk to the relay in `server/relay.js`: the
+// WebSocket transport sends every update through it, while WebRTC only uses it
+// for signaling and then connects the browsers directly.
+
+export type CollabTransportId = "websocket" | "webrtc";
+
+export type CollabStatus = "connecting" | "connected" | "disconnected";
+
+export interface CollabConnectOptions {
+  room: string;
+  serverUrl: string;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  onStatus: (status: CollabStatus) => void;
+}
+
+export interface CollabTransport {
+  id: CollabTransportId;
+  label: string;
+  /** Joins the room and returns a function that leaves it; rejects if it can't be reached. */
+  connect: (options: CollabConnectOptions) => Promise<() => void>;
+}
+
+// Loaded on demand; only needed for WebRTC sessions
+const loadWebrtc = () => import("y-webrtc");
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 10000;
+// How long joining waits for the relay before giving up
+const CONNECT_TIMEOUT_MS = 10000;
+
+/**
+ * Relays Yjs sync and awareness messages through the pub/sub relay. Every
+ * message is broadcast to the whole room, so peers introduce themselves with a
+ * sync step 1 the first time they hear from each other and answer each other's
+ * with the updates the other side is missing.
+ */
+export const websocketTransport: CollabTransport = {
+  id: "websocket",
+  label: "WebSocket relay",
+  connect: async ({ room, serverUrl, doc, awareness, onStatus }) => {
+    // Identifies our own messages, which the relay echoes back
+    const peerId = generateId();
+    const knownPeers = new Set<string>();
+    let socket: WebSocket | null = null;
+    let reconnectDelay = RECONNECT_MIN_MS;
+    let reconnectTimer: number | undefined;
+    let closed = false;
+    // Settles the first connection; later drops reconnect instead
+    let settleFirst: ((error?: Error) => void) | null = null;
+    const firstConnection = new Promise<void>((resolve, reject) => {
+      settleFirst = (error) => {
+        settleFirst = null;
+        if (error) reject(error);
+        else resolve();
+      };
+    });
+
+    const publish = (encoder: encoding.Encoder) => {
+      if (socket?.readyState !== WebSocket.OPEN) return;
+      const data = bytesToBase64Url(encoding.toUint8Array(encoder));
+      socket.send(JSON.stringify({ type: "publish", topic: room, from: peerId, data }));
+    };
+
+    const publishSyncStep1 = () => {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(encoder, doc);
+      publish(encoder);
+    };
+
+    const publishAwareness = (clients: number[]) => {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(
+        encoder,
+        awarenessProtocol.encodeAwarenessUpdate(awareness, clients)
+      );
+      publish(encoder);
+    };
+
+    const handleMessage = (from: string, data: string) => {
+      if (!knownPeers.has(from)) {
+        // A new peer: let it know what we have so it can send what we lack
+        knownPeers.add(from);
+        publishSyncStep1();
+        publishAwareness([doc.clientID]);
+      }
+      const decoder = decoding.createDecoder(base64UrlToBytes(data));
+      const type = decoding.readVarUint(decoder);
+      if (type === MESSAGE_SYNC) {
+        const reply = encoding.createEncoder();
+        encoding.writeVarUint(reply, MESSAGE_SYNC);
+        syncProtocol.readSyncMessage(decoder, reply, doc, websocketTransport);
+        // Only a sync step 1 produces a reply
+        if (encoding.length(reply) > 1) publish(reply);
+      } else if (type === MESSAGE_AWARENESS) {
+        awarenessProtocol.applyAwarenessUpdate(
+          awareness,
+          decoding.readVarUint8Array(decoder),
+          websocketTransport
+        );
+      }
+    };
+
+    const handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+      if (origin === websocketTransport) return;
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      publish(encoder);
+    };
+
+    const handleAwarenessUpdate = (
+      { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      if (origin === websocketTransport) return;
+      publishAwareness([...added, ...updated, ...removed]);
+    };
+
+    const open = () => {
+      onStatus("connecting");
+      const ws = new WebSocket(serverUrl);
+      socket = ws;
+      ws.onopen = () => {
+        reconnectDelay = RECONNECT_MIN_MS;
+        knownPeers.clear();
+        ws.send(JSON.stringify({ type: "subscribe", topics: [room] }));
+        onStatus("connected");
+        settleFirst?.();
+        publishSyncStep1();
+        publishAwareness([doc.clientID]);
+      };
+      ws.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data);
+          if (message.type === "publish" && message.topic === room && message.from !== peerId) {
+            handleMessage(message.from, message.data);
+          }
+        } catch (error) {
+          console.error("Invalid collaboration message:", error);
+        }
+      };
+      ws.onclose = () => {
+        if (socket !== ws) return;
+        socket = null;
+        onStatus("disconnected");
+        if (settleFirst) {
+          settleFirst(new Error(`Could not connect to ${serverUrl}`));
+          return;
+        }
+        if (closed) return;
+        reconnectTimer = window.setTimeout(open, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    const leave = () => {
+      closed = true;
+      window.clearTimeout(reconnectTimer);
+      // Tell the others we left instead of waiting for our presence to time out
+      awarenessProtocol.removeAwarenessStates(awareness, [doc.clientID], "leave");
+      doc.off("update", handleDocUpdate);
+      awareness.off("update", handleAwarenessUpdate);
+      socket?.close();
+    };
+
+    doc.on("update", handleDocUpdate);
+    awareness.on("update", handleAwarenessUpdate);
+    open();
+
+    const connectTimer = window.setTimeout(
+      () => settleFirst?.(new Error(`Timed out connecting to ${serverUrl}`)),
+      CONNECT_TIMEOUT_MS
+    );
+    try {
+      await firstConnection;
+    } catch (error) {
+      leave();
+      onStatus("disconnected");
+      throw error;
+    } finally {
+      window.clearTimeout(connectTimer);
+    }
+    return leave;
+  },
+};
+
+/** Peer-to-peer through y-webrtc, using the relay as signaling server. */
+export const webrtcTransport: CollabTransport = {
+  id: "webrtc",
+  label: "WebRTC (peer-to-peer)",
+  connect: async ({ room, serverUrl, doc, awareness, onStatus }) => {
+    const { WebrtcProvider } = await loadWebrtc();
+    onStatus("connecting");
+    const provider = new WebrtcProvider(room, doc, { signaling: [serverUrl], awareness });
+    provider.on("status", ({ connected }: { connected: boolean }) =>
+      onStatus(connected ? "connected" : "disconnected")
+    );
+
+    // Joining only succeeds once the signaling server answers; peers come later
+    const signaling = provider.signalingConns[0];
+    let settleFirst: ((error?: Error) => void) | null = null;
+    const firstConnection = new Promise<void>((resolve, reject) => {
+      settleFirst = (error) => {
+        settleFirst = null;
+        if (error) reject(error);
+        else resolve();
+      };
+    });
+    const handleConnect = () => settleFirst?.();
+    if (signaling.connected) handleConnect();
+    else signaling.on("connect", handleConnect);
+
+    const connectTimer = window.setTimeout(
+      () => settleFirst?.(new Error(`Timed out connecting to ${serverUrl}`)),
+      CONNECT_TIMEOUT_MS
+    );
+    try {
+      await firstConnection;
+    } catch (error) {
+      provider.destroy();
+      onStatus("disconnected");
+      throw error;
+    } finally {
+      window.clearTimeout(connectTimer);
+      signaling.off("connect", handleConnect);
+    }
+    return () => provider.destroy();
+  },
+};
+
+export const COLLAB_TRANSPORTS: CollabTransport[] = [websocketTransport, webrtcTransport];
+
+export const getCollabTransport = (id: CollabTransportId): CollabTransport =>
+  COLLAB_TRANSPORTS.find((transport) => transport.id === id) ?? websocketTransport;
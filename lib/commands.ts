@@ -0,0 +1,131 @@
+// The editor's command registry. Every action the editor offers is a command;
+// the toolbar, the keyboard shortcuts and the command palette all run them by
+// id, so a shortcut shown in the palette is the one that actually fires.
+
+export interface Command {
+  id: string;
+  title: string;
+  category: string;
+  // Shortcuts such as "Mod+Shift+P", the first one shown; Mod is Cmd on macOS and Ctrl elsewhere
+  keybindings?: string[];
+  run: () => void;
+}
+
+/** Shortcuts the user assigned, by command id; they replace the command's own. */
+export type KeybindingOverrides = Record<string, string[]>;
+
+const KEYBINDINGS_KEY = "ghost-md-keybindings";
+
+export const loadKeybindings = (): KeybindingOverrides => {
+  try {
+    const saved = localStorage.getItem(KEYBINDINGS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveKeybindings = (overrides: KeybindingOverrides) =>
+  localStorage.setItem(KEYBINDINGS_KEY, JSON.stringify(overrides));
+
+export const applyKeybindings = (commands: Command[], overrides: KeybindingOverrides): Command[] =>
+  commands.map((command) =>
+    overrides[command.id] ? { ...command, keybindings: overrides[command.id] } : command
+  );
+
+export const isMacPlatform = () => navigator.platform.toUpperCase().indexOf("MAC") >= 0;
+
+const MAC_SYMBOLS: Record<string, string> = {
+  Mod: "⌘",
+  Shift: "⇧",
+  Alt: "⌥",
+};
+
+/** "Mod+Shift+P" as "⌘⇧P" on macOS and "Ctrl+Shift+P" elsewhere. */
+export const formatKeybinding = (binding: string): string => {
+  const parts = binding.split("+");
+  if (isMacPlatform()) return parts.map((part) => MAC_SYMBOLS[part] ?? part).join("");
+  return parts.map((part) => (part === "Mod" ? "Ctrl" : part)).join("+");
+};
+
+export const matchesKeybinding = (
+  e: Pick<KeyboardEvent, "key" | "code" | "metaKey" | "ctrlKey" | "shiftKey" | "altKey">,
+  binding: string
+): boolean => {
+  const parts = binding.split("+");
+  const key = parts[parts.length - 1];
+  const mod = isMacPlatform() ? e.metaKey : e.ctrlKey;
+  if (mod !== parts.includes("Mod")) return false;
+  if (e.shiftKey !== parts.includes("Shift")) return false;
+  if (e.altKey !== parts.includes("Alt")) return false;
+  // e.key is a symbol with Alt held on macOS, so letters also match by their physical key
+  return e.key.toLowerCase() === key.toLowerCase() || e.code === `Key${key.toUpperCase()}`;
+};
+
+// Keys that can be bound without a modifier without getting in the way of typing
+const FUNCTION_KEY = /^F\d{1,2}$/;
+
+/**
+ * The binding a key press makes, such as "Mod+Shift+K"; null for modifiers on
+ * their own and for keys that would type text.
+ */
+export const keybindingFromEvent = (
+  e: Pick<KeyboardEvent, "key" | "code" | "metaKey" | "ctrlKey" | "shiftKey" | "altKey">
+): string | null => {
+  if (["Control", "Meta", "Shift", "Alt", "+"].includes(e.key)) return null;
+  const mod = isMacPlatform() ? e.metaKey : e.ctrlKey;
+  // Letters by their physical key, so Alt and Shift don't change their name
+  const key = /^Key[A-Z]$/.test(e.code)
+    ? e.code.slice(3)
+    : e.key.length === 1
+      ? e.key.toUpperCase()
+      : e.key;
+  if (!mod && !e.altKey && !FUNCTION_KEY.test(key)) return null;
+  return [mod && "Mod", e.shiftKey && "Shift", e.altKey && "Alt", key].filter(Boolean).join("+");
+};
+
+export const isValidKeybinding = (binding: string) =>
+  /^(?:(?:Mod|Shift|Alt)\+)*[^+]+$/.test(binding);
+
+export const findCommandForEvent = (
+  commands: Command[],
+  e: Parameters<typeof matchesKeybinding>[0]
+): Command | undefined =>
+  commands.find((command) => command.keybindings?.some((binding) => matchesKeybinding(e, binding)));
+
+/**
+ * Scores how well the query's characters appear, in order, in the text; null
+ * when they don't. Runs of consecutive characters and matches at the start of
+ * words score higher.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s:/(-]/.test(haystack[index - 1])) score += 3;
+    previous = index;
+    position = index + 1;
+  }
+  // Prefer shorter titles among equally good matches
+  return score - haystack.length / 100;
+};
+
+/** Commands matching the query, best first; all of them, in order, for an empty query. */
+export const searchCommands = (commands: Command[], query: string): Command[] => {
+  if (!query.trim()) return commands;
+  return commands
+    .map((command) => ({
+      command,
+      score: fuzzyScore(query, `${command.category}: ${command.title}`),
+    }))
+    .filter((result): result is { command: Command; score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((result) => result.command);
+};
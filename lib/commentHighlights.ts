@@ -0,0 +1,125 @@
+// Comment highlights in the rendered preview. Text that appears verbatim in the
+// source is split at the commented ranges and wrapped in <mark> elements; text
+// that doesn't (entities, escapes) is wrapped whole. Elements also carry their
+// source offsets so that a selection in the preview can be traced back to the
+// markdown it came from.
+
+export interface CommentRange {
+  id: string;
+  start: number;
+  end: number;
+}
+
+interface HtmlNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HtmlNode[];
+  position?: { start: { offset?: number }; end: { offset?: number } };
+}
+
+// Their text is read back as a string (highlighting, diagrams), so it's left alone
+const OPAQUE_TAGS = new Set(["code", "pre"]);
+
+const toMark = (child: HtmlNode, range: CommentRange): HtmlNode => ({
+  type: "element",
+  tagName: "mark",
+  properties: { dataCommentId: range.id },
+  children: [child],
+});
+
+const splitText = (node: HtmlNode, ranges: CommentRange[]): HtmlNode[] => {
+  const start = node.position?.start.offset;
+  const end = node.position?.end.offset;
+  const value = node.value ?? "";
+  if (start === undefined || end === undefined) return [node];
+  const overlapping = ranges
+    .filter((range) => range.start < end && range.end > start)
+    .sort((a, b) => a.start - b.start);
+  if (overlapping.length === 0) return [node];
+  if (value.length !== end - start) return [toMark(node, overlapping[0])];
+
+  const text = (from: number, to: number): HtmlNode => ({
+    type: "text",
+    value: value.slice(from - start, to - start),
+  });
+  const parts: HtmlNode[] = [];
+  let cursor = start;
+  for (const range of overlapping) {
+    const from = Math.max(range.start, cursor);
+    const to = Math.min(range.end, end);
+    if (to <= from) continue;
+    if (from > cursor) parts.push(text(cursor, from));
+    parts.push(toMark(text(from, to), range));
+    cursor = to;
+  }
+  if (cursor < end) parts.push(text(cursor, end));
+  return parts;
+};
+
+const highlight = (node: HtmlNode, ranges: CommentRange[]) => {
+  const start = node.position?.start.offset;
+  const end = node.position?.end.offset;
+  if (node.type === "element" && start !== undefined && end !== undefined) {
+    node.properties = { ...node.properties, dataSourceStart: start, dataSourceEnd: end };
+  }
+  if (!node.children || OPAQUE_TAGS.has(node.tagName ?? "")) return;
+  node.children = node.children.flatMap((child) => {
+    if (child.type === "text") return splitText(child, ranges);
+    highlight(child, ranges);
+    return [child];
+  });
+};
+
+/** Rehype plugin marking commented ranges and source offsets. */
+export const rehypeCommentHighlights =
+  ({ ranges }: { ranges: CommentRange[] }) =>
+  (tree: HtmlNode) =>
+    highlight(tree, ranges);
+
+/** Removes comment marks and source offsets from a copy of the preview, for export. */
+export const stripCommentHighlights = (root: HTMLElement) => {
+  root.querySelectorAll("mark[data-comment-id]").forEach((mark) => mark.replaceWith(...mark.childNodes));
+  root.querySelectorAll<HTMLElement>("[data-source-start]").forEach((element) => {
+    delete element.dataset.sourceStart;
+    delete element.dataset.sourceEnd;
+  });
+};
+
+/**
+ * Maps the current selection inside a rendered preview to a range of the
+ * markdown source, using the innermost element that contains all of it.
+ */
+export const getSourceSelection = (
+  container: HTMLElement,
+  markdown: string
+): { start: number; end: number } | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.commonAncestorContainer)) return null;
+  const text = selection.toString().trim();
+  if (!text) return null;
+
+  const ancestor = range.commonAncestorContainer;
+  const element = (ancestor instanceof Element ? ancestor : ancestor.parentElement)?.closest<HTMLElement>(
+    "[data-source-start]"
+  );
+  if (!element || !container.contains(element)) return null;
+  const blockStart = Number(element.dataset.sourceStart);
+  const source = markdown.slice(blockStart, Number(element.dataset.sourceEnd));
+
+  const index = source.indexOf(text);
+  if (index !== -1) return { start: blockStart + index, end: blockStart + index + text.length };
+
+  // Formatting inside the selection makes the source differ from the rendered
+  // text; span from its first word to its last instead
+  const words = text.split(/\s+/);
+  const first = source.indexOf(words[0]);
+  const last = source.lastIndexOf(words[words.length - 1]);
+  if (first !== -1 && last >= first) {
+    return { start: blockStart + first, end: blockStart + last + words[words.length - 1].length };
+  }
+  return { start: blockStart, end: blockStart + source.length };
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  attachComments,
+  collectFeedback,
+  CommentsLinkError,
+  createMessage,
+  createThread,
+  detachComments,
+  findAnchor,
+  isDetached,
+  mergeFeedback,
+  parseCommentFeedback,
+  rebaseThreads,
+  resolveThreads,
+  type CommentThread,
+} from "./comments";
+
+const MARKDOWN = "Intro. The word here. Middle text. The word there. End.";
+
+/** A thread on the `occurrence`-th (0-based) copy of `quote` in the markdown. */
+const threadOn = (markdown: string, quote: string, occurrence = 0): CommentThread => {
+  let start = -1;
+  for (let i = 0; i <= occurrence; i++) start = markdown.indexOf(quote, start + 1);
+  return createThread(markdown, start, start + quote.length, createMessage("Ada", "Why?"));
+};
+
+const quoted = (markdown: string, thread: CommentThread) =>
+  markdown.slice(thread.anchor.start, thread.anchor.end);
+
+describe("findAnchor", () => {
+  it("prefers the occurrence with the matching context", () => {
+    const { anchor } = threadOn(MARKDOWN, "word", 1);
+    // The old offset now points at the first occurrence
+    const moved = { ...anchor, start: MARKDOWN.indexOf("word") };
+    expect(findAnchor(MARKDOWN, moved)).toEqual({ start: anchor.start, end: anchor.end });
+  });
+
+  it("finds nothing for missing or empty quotes", () => {
+    const { anchor } = threadOn(MARKDOWN, "word");
+    expect(findAnchor("No match.", anchor)).toBeNull();
+    expect(findAnchor(MARKDOWN, { ...anchor, quote: "" })).toBeNull();
+  });
+});
+
+describe("rebaseThreads", () => {
+  const thread = threadOn(MARKDOWN, "word here");
+
+  it("moves anchors past edits before them", () => {
+    const after = `New opening. ${MARKDOWN}`;
+    const [rebased] = rebaseThreads([thread], MARKDOWN, after);
+    expect(quoted(after, rebased)).toBe("word here");
+  });
+
+  it("keeps text typed at either edge outside the range", () => {
+    const after = MARKDOWN.replace("word here", "[word here]");
+    const [rebased] = rebaseThreads([thread], MARKDOWN, after);
+    expect(quoted(after, rebased)).toBe("word here");
+  });
+
+  it("keeps the part of the range that survived an edit", () => {
+    const after = MARKDOWN.replace("word here", "word");
+    const [rebased] = rebaseThreads([thread], MARKDOWN, after);
+    expect(quoted(after, rebased)).toBe("word");
+  });
+
+  it("detaches when the text is deleted and reattaches when it returns", () => {
+    const deleted = MARKDOWN.replace("word here", "");
+    const [detached] = rebaseThreads([thread], MARKDOWN, deleted);
+    expect(isDetached(detached)).toBe(true);
+    const [restored] = rebaseThreads([detached], deleted, MARKDOWN);
+    expect(quoted(MARKDOWN, restored)).toBe("word here");
+  });
+});
+
+describe("resolveThreads", () => {
+  it("finds each thread's text in another copy", () => {
+    const thread = threadOn(MARKDOWN, "Middle");
+    const copy = `# Title\n\n${MARKDOWN}`;
+    const [resolved] = resolveThreads([thread], copy);
+    expect(quoted(copy, resolved)).toBe("Middle");
+    expect(isDetached(resolveThreads([thread], "Gone.")[0])).toBe(true);
+  });
+});
+
+describe("attachComments", () => {
+  it("round-trips the threads and document id through shared markdown", () => {
+    const threads = [threadOn(MARKDOWN, "word")];
+    const shared = attachComments(MARKDOWN, threads, "doc-1");
+    expect(detachComments(shared)).toEqual({ markdown: MARKDOWN, threads, documentId: "doc-1" });
+    expect(detachComments(attachComments(MARKDOWN, [], "doc-1")).documentId).toBe("doc-1");
+    expect(detachComments(MARKDOWN)).toEqual({ markdown: MARKDOWN, threads: [], documentId: null });
+  });
+
+  it("keeps the markdown when the threads are unreadable", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const shared = `${MARKDOWN}\n\n<!-- ghost-md:comments bm90IGpzb24 -->\n`;
+    expect(detachComments(shared)).toEqual({ markdown: MARKDOWN, threads: [], documentId: null });
+    vi.restoreAllMocks();
+  });
+});
+
+describe("feedback", () => {
+  const shared = [threadOn(MARKDOWN, "word")];
+  const reply = createMessage("Bo", "Because.");
+  const added = threadOn(MARKDOWN, "Middle");
+  const recipient = [{ ...shared[0], messages: [...shared[0].messages, reply] }, added];
+
+  it("collects only the threads and replies added since sharing", () => {
+    expect(collectFeedback(shared, recipient)).toEqual([
+      { ...shared[0], messages: [reply] },
+      added,
+    ]);
+  });
+
+  it("merges replies into their threads and skips ones already there", () => {
+    const feedback = collectFeedback(shared, recipient);
+    const merged = mergeFeedback(shared, feedback, MARKDOWN);
+    expect(merged.added).toBe(2);
+    expect(merged.threads.map((thread) => thread.messages.length)).toEqual([2, 1]);
+    expect(mergeFeedback(merged.threads, feedback, MARKDOWN).added).toBe(0);
+  });
+
+  it("reads feedback from JSON and rejects corrupted links", () => {
+    const feedback = { author: "Bo", createdAt: 1, threads: [] };
+    expect(parseCommentFeedback(JSON.stringify(feedback))).toEqual({
+      ...feedback,
+      documentId: null,
+    });
+    expect(() => parseCommentFeedback("{}")).toThrow(CommentsLinkError);
+  });
+});
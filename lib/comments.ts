@@ -0,0 +1,295 @@
+import { base64UrlToBytes, bytesToBase64Url, generateId } from "../utils";
+
+// Review comments on a document. A thread is anchored to a range of the
+// markdown source by its offsets, the quoted text and a little context on each
+// side. Offsets follow edits as they are made; when the text around a thread
+// changed too much to follow (a paste over it, a restore, a shared copy) the
+// quote and its context find the range again.
+
+export interface CommentMessage {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: number;
+}
+
+export interface CommentAnchor {
+  start: number;
+  end: number;
+  quote: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface CommentThread {
+  id: string;
+  anchor: CommentAnchor;
+  // The opening comment followed by the replies
+  messages: CommentMessage[];
+  resolved: boolean;
+  createdAt: number;
+}
+
+/** Comments and replies a recipient of a shared link sends back to the author. */
+export interface CommentFeedback {
+  // The author's document the shared link was made from, if it said
+  documentId: string | null;
+  author: string;
+  createdAt: number;
+  // New threads, and existing ones with only the new replies
+  threads: CommentThread[];
+}
+
+export class CommentsLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommentsLinkError";
+  }
+}
+
+const CONTEXT_LENGTH = 32;
+const AUTHOR_KEY = "ghost-md-comment-author";
+
+export const loadCommentAuthor = () => localStorage.getItem(AUTHOR_KEY) ?? "";
+
+export const saveCommentAuthor = (name: string) => localStorage.setItem(AUTHOR_KEY, name);
+
+export const createAnchor = (markdown: string, start: number, end: number): CommentAnchor => ({
+  start,
+  end,
+  quote: markdown.slice(start, end),
+  prefix: markdown.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+  suffix: markdown.slice(end, end + CONTEXT_LENGTH),
+});
+
+export const createMessage = (author: string, body: string): CommentMessage => ({
+  id: generateId(),
+  author: author.trim() || "Anonymous",
+  body,
+  createdAt: Date.now(),
+});
+
+export const createThread = (
+  markdown: string,
+  start: number,
+  end: number,
+  message: CommentMessage
+): CommentThread => ({
+  id: generateId(),
+  anchor: createAnchor(markdown, start, end),
+  messages: [message],
+  resolved: false,
+  createdAt: message.createdAt,
+});
+
+/** The commented text was deleted; the thread reattaches if it comes back. */
+export const isDetached = (thread: CommentThread) => thread.anchor.start === thread.anchor.end;
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+};
+
+/**
+ * Finds the quoted text in `markdown`, preferring the occurrence whose
+ * surroundings match the saved context and then the one nearest the old offset.
+ */
+export const findAnchor = (
+  markdown: string,
+  anchor: CommentAnchor
+): { start: number; end: number } | null => {
+  if (!anchor.quote) return null;
+  let best: { start: number; end: number } | null = null;
+  let bestScore = -Infinity;
+  for (
+    let index = markdown.indexOf(anchor.quote);
+    index !== -1;
+    index = markdown.indexOf(anchor.quote, index + 1)
+  ) {
+    const end = index + anchor.quote.length;
+    const context =
+      commonSuffixLength(markdown.slice(Math.max(0, index - CONTEXT_LENGTH), index), anchor.prefix) +
+      commonPrefixLength(markdown.slice(end, end + CONTEXT_LENGTH), anchor.suffix);
+    // Distance only breaks ties between occurrences with the same context
+    const score = context - Math.abs(index - anchor.start) / (markdown.length + 1);
+    if (score > bestScore) {
+      best = { start: index, end };
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const rebaseAnchor = (anchor: CommentAnchor, before: string, after: string): CommentAnchor => {
+  // The edit is whatever lies between the common prefix and suffix
+  const editStart = commonPrefixLength(before, after);
+  const suffix = Math.min(
+    commonSuffixLength(before, after),
+    before.length - editStart,
+    after.length - editStart
+  );
+  const editEnd = before.length - suffix;
+  const delta = after.length - before.length;
+  const detached = anchor.start === anchor.end;
+
+  const mapPosition = (position: number) =>
+    position < editStart ? position : position >= editEnd ? position + delta : editStart;
+
+  if (!detached) {
+    if (anchor.end <= editStart || anchor.start >= editEnd) {
+      // Untouched; text typed right at either edge stays outside the range
+      const insertedAtStart = anchor.start === editStart && editStart === editEnd;
+      const end = anchor.end === editStart ? anchor.end : mapPosition(anchor.end);
+      return createAnchor(after, insertedAtStart ? anchor.start + delta : mapPosition(anchor.start), end);
+    }
+    // Keep whatever part of the range survived the edit
+    const start = anchor.start < editStart ? anchor.start : editEnd + delta;
+    const end = anchor.end > editEnd ? anchor.end + delta : editStart;
+    if (end > start) return createAnchor(after, start, end);
+  }
+
+  const found = findAnchor(after, anchor);
+  if (found) return createAnchor(after, found.start, found.end);
+  // Nothing left: keep the old quote so the thread can find it again
+  const position = mapPosition(anchor.start);
+  return { ...anchor, start: position, end: position };
+};
+
+/** Moves every thread's anchor through an edit of the document. */
+export const rebaseThreads = (
+  threads: CommentThread[],
+  before: string,
+  after: string
+): CommentThread[] =>
+  threads.length === 0 || before === after
+    ? threads
+    : threads.map((thread) => ({ ...thread, anchor: rebaseAnchor(thread.anchor, before, after) }));
+
+/** Finds each thread's text again in a copy of the document, e.g. a shared one. */
+export const resolveThreads = (threads: CommentThread[], markdown: string): CommentThread[] =>
+  threads.map((thread) => {
+    const { anchor } = thread;
+    if (anchor.end > anchor.start && markdown.slice(anchor.start, anchor.end) === anchor.quote) {
+      return thread;
+    }
+    const found = findAnchor(markdown, anchor);
+    const position = Math.min(anchor.start, markdown.length);
+    return {
+      ...thread,
+      anchor: found
+        ? createAnchor(markdown, found.start, found.end)
+        : { ...anchor, start: position, end: position },
+    };
+  });
+
+// Shared links carry the id of the author's document and the threads after the
+// markdown, in HTML comments that renderers skip. Replies name the document so
+// they reach the right one. The data is base64url, so it can never contain "-->".
+const SHARED_DOCUMENT_PATTERN = /\n\n<!-- ghost-md:document ([\w-]+) -->\n$/;
+const SHARED_COMMENTS_PATTERN = /\n\n<!-- ghost-md:comments ([\w-]+) -->\n$/;
+
+/** Appends the document id and threads to the markdown for a shared link. */
+export const attachComments = (
+  markdown: string,
+  threads: CommentThread[],
+  documentId: string | null = null
+): string => {
+  let shared = markdown;
+  if (documentId) shared += `\n\n<!-- ghost-md:document ${documentId} -->\n`;
+  if (threads.length === 0) return shared;
+  const data = bytesToBase64Url(new TextEncoder().encode(JSON.stringify(threads)));
+  return `${shared}\n\n<!-- ghost-md:comments ${data} -->\n`;
+};
+
+/** Splits shared markdown back into the document, its threads and its id. */
+export const detachComments = (
+  shared: string
+): { markdown: string; threads: CommentThread[]; documentId: string | null } => {
+  let markdown = shared;
+  let threads: CommentThread[] = [];
+  const comments = SHARED_COMMENTS_PATTERN.exec(markdown);
+  if (comments) {
+    markdown = markdown.slice(0, comments.index);
+    try {
+      const parsed = JSON.parse(new TextDecoder().decode(base64UrlToBytes(comments[1])));
+      if (Array.isArray(parsed)) threads = parsed;
+    } catch (error) {
+      console.error("Failed to read shared comments:", error);
+    }
+  }
+  const document = SHARED_DOCUMENT_PATTERN.exec(markdown);
+  if (!document) return { markdown, threads, documentId: null };
+  return { markdown: markdown.slice(0, document.index), threads, documentId: document[1] };
+};
+
+/** The threads and replies added since the document was shared. */
+export const collectFeedback = (
+  shared: CommentThread[],
+  threads: CommentThread[]
+): CommentThread[] => {
+  const sharedMessages = new Set(shared.flatMap((thread) => thread.messages.map((m) => m.id)));
+  return threads
+    .map((thread) => ({
+      ...thread,
+      messages: thread.messages.filter((message) => !sharedMessages.has(message.id)),
+    }))
+    .filter((thread) => thread.messages.length > 0);
+};
+
+/** Reads the feedback carried by a comments link; see lib/replyLinks. */
+export const parseCommentFeedback = (json: string): CommentFeedback => {
+  try {
+    const feedback = JSON.parse(json) as CommentFeedback;
+    if (!Array.isArray(feedback.threads)) throw new Error("Missing threads");
+    return { ...feedback, documentId: feedback.documentId ?? null };
+  } catch {
+    throw new CommentsLinkError("The comments link is corrupted.");
+  }
+};
+
+/**
+ * Adds feedback to the document's threads: replies join their thread, new
+ * threads find their text in the current markdown. Messages already there
+ * (a link opened twice) are skipped.
+ */
+export const mergeFeedback = (
+  threads: CommentThread[],
+  feedback: CommentThread[],
+  markdown: string
+): { threads: CommentThread[]; added: number } => {
+  const known = new Set(threads.flatMap((thread) => thread.messages.map((m) => m.id)));
+  const byId = new Map(threads.map((thread) => [thread.id, thread]));
+  const created: CommentThread[] = [];
+  let added = 0;
+  for (const incoming of feedback) {
+    const messages = incoming.messages.filter((message) => !known.has(message.id));
+    if (messages.length === 0) continue;
+    added += messages.length;
+    const existing = byId.get(incoming.id);
+    if (existing) {
+      byId.set(existing.id, { ...existing, messages: [...existing.messages, ...messages] });
+    } else {
+      created.push({ ...incoming, messages });
+    }
+  }
+  return {
+    threads: [
+      ...threads.map((thread) => byId.get(thread.id)!),
+      ...resolveThreads(created, markdown),
+    ],
+    added,
+  };
+};
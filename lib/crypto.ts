@@ -0,0 +1,204 @@
+import { base64UrlToBytes, bytesToBase64Url } from "../utils";
+
+// Passphrase-protected payloads (version 1):
+//   "1." + base64url(salt[16] | iv[12] | keyCheck[8] | AES-GCM ciphertext)
+// The key is derived with PBKDF2-SHA256. The extra derived bytes in `keyCheck`
+// let us tell a wrong passphrase apart from a payload that was modified.
+//
+// Random-key payloads (version 1):
+//   "1." + base64url(iv[12] | AES-GCM ciphertext)
+// The raw 256-bit key travels separately (in the URL fragment) as base64url.
+
+export const ENCRYPTED_PAYLOAD_VERSION = "1";
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const KEY_CHECK_LENGTH = 8;
+
+export type DecryptionFailure =
+  | "wrong-passphrase"
+  | "invalid-key"
+  | "tampered"
+  | "unsupported";
+
+export class DecryptionError extends Error {
+  reason: DecryptionFailure;
+
+  constructor(reason: DecryptionFailure, message: string) {
+    super(message);
+    this.name = "DecryptionError";
+    this.reason = reason;
+  }
+}
+
+const deriveKeyMaterial = async (passphrase: string, salt: Uint8Array) => {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+      baseKey,
+      (32 + KEY_CHECK_LENGTH) * 8
+    )
+  );
+  const key = await crypto.subtle.importKey(
+    "raw",
+    bits.subarray(0, 32),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"]
+  );
+  return { key, keyCheck: bits.subarray(32) };
+};
+
+const splitPayload = (payload: string): Uint8Array => {
+  const [version, body] = payload.split(".", 2);
+  if (version !== ENCRYPTED_PAYLOAD_VERSION || !body) {
+    throw new DecryptionError(
+      "unsupported",
+      "This protected link uses an unknown format."
+    );
+  }
+  try {
+    return base64UrlToBytes(body);
+  } catch {
+    throw new DecryptionError("tampered", "The protected link data is corrupted.");
+  }
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+export const encryptWithPassphrase = async (
+  plaintext: string,
+  passphrase: string
+): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const { key, keyCheck } = await deriveKeyMaterial(passphrase, salt);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(plaintext)
+    )
+  );
+
+  const packed = new Uint8Array(
+    SALT_LENGTH + IV_LENGTH + KEY_CHECK_LENGTH + ciphertext.length
+  );
+  packed.set(salt, 0);
+  packed.set(iv, SALT_LENGTH);
+  packed.set(keyCheck, SALT_LENGTH + IV_LENGTH);
+  packed.set(ciphertext, SALT_LENGTH + IV_LENGTH + KEY_CHECK_LENGTH);
+
+  return `${ENCRYPTED_PAYLOAD_VERSION}.${bytesToBase64Url(packed)}`;
+};
+
+export const decryptWithPassphrase = async (
+  payload: string,
+  passphrase: string
+): Promise<string> => {
+  const packed = splitPayload(payload);
+  const headerLength = SALT_LENGTH + IV_LENGTH + KEY_CHECK_LENGTH;
+  if (packed.length <= headerLength) {
+    throw new DecryptionError("tampered", "The protected link data is incomplete.");
+  }
+
+  const salt = packed.subarray(0, SALT_LENGTH);
+  const iv = packed.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
+  const expectedCheck = packed.subarray(SALT_LENGTH + IV_LENGTH, headerLength);
+  const ciphertext = packed.subarray(headerLength);
+
+  const { key, keyCheck } = await deriveKeyMaterial(passphrase, salt);
+  if (!bytesEqual(keyCheck, expectedCheck)) {
+    throw new DecryptionError("wrong-passphrase", "Incorrect passphrase.");
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv },
+      key,
+      ciphertext
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new DecryptionError(
+      "tampered",
+      "The passphrase is correct but the content has been modified or truncated."
+    );
+  }
+};
+
+const importRawKey = async (encodedKey: string, usage: KeyUsage): Promise<CryptoKey> => {
+  let rawKey: Uint8Array;
+  try {
+    rawKey = base64UrlToBytes(encodedKey.trim());
+  } catch {
+    throw new DecryptionError("invalid-key", "The decryption key is malformed.");
+  }
+  if (rawKey.length !== 32) {
+    throw new DecryptionError("invalid-key", "The decryption key is malformed.");
+  }
+  return crypto.subtle.importKey("raw", rawKey, "AES-GCM", false, [usage]);
+};
+
+/** Encrypts with an existing random key, e.g. a reply to an encrypted link. */
+export const encryptWithKey = async (
+  plaintext: string,
+  encodedKey: string
+): Promise<string> => {
+  const key = await importRawKey(encodedKey, "encrypt");
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(plaintext)
+    )
+  );
+
+  const packed = new Uint8Array(IV_LENGTH + ciphertext.length);
+  packed.set(iv, 0);
+  packed.set(ciphertext, IV_LENGTH);
+
+  return `${ENCRYPTED_PAYLOAD_VERSION}.${bytesToBase64Url(packed)}`;
+};
+
+export const encryptWithRandomKey = async (
+  plaintext: string
+): Promise<{ payload: string; key: string }> => {
+  const key = bytesToBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  return { payload: await encryptWithKey(plaintext, key), key };
+};
+
+export const decryptWithKey = async (
+  payload: string,
+  encodedKey: string
+): Promise<string> => {
+  const packed = splitPayload(payload);
+  if (packed.length <= IV_LENGTH) {
+    throw new DecryptionError("tampered", "The encrypted link data is incomplete.");
+  }
+
+  const key = await importRawKey(encodedKey, "decrypt");
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: packed.subarray(0, IV_LENGTH) },
+      key,
+      packed.subarray(IV_LENGTH)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new DecryptionError(
+      "tampered",
+      "The key does not match, or the content has been modified or truncated."
+    );
+  }
+};
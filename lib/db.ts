@@ -0,0 +1,118 @@
+// Thin promise wrapper around the browser's IndexedDB.
+// Every persistent store used by GHOST.md is declared here so schema
+// upgrades live in one place.
+
+const DB_NAME = "ghost-md";
+const DB_VERSION = 4;
+
+export type StoreName = "documents" | "folders" | "assets" | "revisions" | "templates";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super("GHOST.md is open in another tab with an older version. Close it and reload this page.");
+    this.name = "DatabaseBlockedError";
+  }
+}
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains("documents")) {
+          const documents = db.createObjectStore("documents", { keyPath: "id" });
+          documents.createIndex("updatedAt", "updatedAt");
+        }
+        if (!db.objectStoreNames.contains("folders")) {
+          db.createObjectStore("folders", { keyPath: "id" });
+        }
+        // v2: images dropped or pasted into documents
+        if (!db.objectStoreNames.contains("assets")) {
+          db.createObjectStore("assets", { keyPath: "id" });
+        }
+        // v3: version history of each document
+        if (!db.objectStoreNames.contains("revisions")) {
+          const revisions = db.createObjectStore("revisions", { keyPath: "id" });
+          revisions.createIndex("documentId", "documentId");
+        }
+        // v4: documents saved as templates
+        if (!db.objectStoreNames.contains("templates")) {
+          db.createObjectStore("templates", { keyPath: "id" });
+        }
+      };
+
+      let blocked = false;
+      // A tab still holding the previous version keeps the upgrade from starting
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new DatabaseBlockedError());
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Already reported as blocked; the next call opens a fresh connection
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version of the app in another tab upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        // Allow a later call to retry (e.g. after the user closes a blocking tab)
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return promisifyRequest(run(tx.objectStore(storeName)));
+};
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore<T[]>(storeName, "readonly", (store) => store.getAll());
+
+export const getRecordsByIndex = <T>(
+  storeName: StoreName,
+  indexName: string,
+  key: IDBValidKey
+): Promise<T[]> =>
+  withStore<T[]>(storeName, "readonly", (store) => store.index(indexName).getAll(key));
+
+export const getRecord = <T>(
+  storeName: StoreName,
+  key: IDBValidKey
+): Promise<T | undefined> =>
+  withStore<T | undefined>(storeName, "readonly", (store) => store.get(key));
+
+export const putRecord = async <T>(storeName: StoreName, value: T): Promise<T> => {
+  await withStore(storeName, "readwrite", (store) => store.put(value));
+  return value;
+};
+
+export const deleteRecord = (storeName: StoreName, key: IDBValidKey): Promise<undefined> =>
+  withStore(storeName, "readwrite", (store) => store.delete(key));
@@ -0,0 +1,151 @@
+import { diffArrays, diffLines, diffWordsWithSpace, type ChangeObject } from "diff";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+
+// Compares two markdown texts for the compare view: line by line (with the
+// words that changed inside modified lines) for the source, and block by block
+// (paragraphs, lists, tables, code...) for the rendered preview.
+
+export type ChangeKind = "unchanged" | "added" | "removed" | "changed";
+
+export interface LineSide {
+  number: number;
+  text: string;
+  // Word-level breakdown, only set on changed lines
+  words?: ChangeObject<string>[];
+}
+
+export interface LineRow {
+  kind: ChangeKind;
+  before: LineSide | null;
+  after: LineSide | null;
+}
+
+export interface BlockChange {
+  kind: ChangeKind;
+  before: string | null;
+  after: string | null;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+const toLines = (value: string) => value.replace(/\n$/, "").split("\n");
+
+/**
+ * Pairs a run of removed items with the run of added items that replaces it:
+ * matching positions become "changed", the rest stay added or removed.
+ */
+const pairRuns = <T, R>(
+  removed: T[],
+  added: T[],
+  toRow: (kind: ChangeKind, before: T | null, after: T | null) => R
+): R[] => {
+  const rows: R[] = [];
+  for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+    const before = i < removed.length ? removed[i] : null;
+    const after = i < added.length ? added[i] : null;
+    const kind = before !== null && after !== null ? "changed" : before !== null ? "removed" : "added";
+    rows.push(toRow(kind, before, after));
+  }
+  return rows;
+};
+
+/** Side-by-side line diff; replaced lines are paired and diffed word by word. */
+export const diffMarkdownLines = (before: string, after: string): LineRow[] => {
+  const rows: LineRow[] = [];
+  let beforeNumber = 1;
+  let afterNumber = 1;
+  let removed: string[] = [];
+
+  const flush = (added: string[]) => {
+    rows.push(
+      ...pairRuns(removed, added, (kind, left, right): LineRow => {
+        const words = kind === "changed" ? diffWordsWithSpace(left!, right!) : undefined;
+        return {
+          kind,
+          before:
+            left === null
+              ? null
+              : { number: beforeNumber++, text: left, words: words?.filter((w) => !w.added) },
+          after:
+            right === null
+              ? null
+              : { number: afterNumber++, text: right, words: words?.filter((w) => !w.removed) },
+        };
+      })
+    );
+    removed = [];
+  };
+
+  for (const part of diffLines(before, after)) {
+    const lines = toLines(part.value);
+    if (part.removed) {
+      removed.push(...lines);
+    } else if (part.added) {
+      flush(lines);
+    } else {
+      flush([]);
+      for (const text of lines) {
+        rows.push({
+          kind: "unchanged",
+          before: { number: beforeNumber++, text },
+          after: { number: afterNumber++, text },
+        });
+      }
+    }
+  }
+  flush([]);
+  return rows;
+};
+
+/** Source of each top-level block (paragraph, heading, list, table, code, ...). */
+export const splitBlocks = (markdown: string): string[] => {
+  const tree = unified().use(remarkParse).use(remarkGfm).use(remarkMath).parse(markdown);
+  return tree.children
+    .map((node) => markdown.slice(node.position!.start.offset, node.position!.end.offset))
+    .filter((block) => block.trim() !== "");
+};
+
+/** Block-level diff for the rendered preview. */
+export const diffMarkdownBlocks = (before: string, after: string): BlockChange[] => {
+  const changes: BlockChange[] = [];
+  let removed: string[] = [];
+
+  const flush = (added: string[]) => {
+    changes.push(
+      ...pairRuns(removed, added, (kind, left, right): BlockChange => ({
+        kind,
+        before: left,
+        after: right,
+      }))
+    );
+    removed = [];
+  };
+
+  for (const part of diffArrays(splitBlocks(before), splitBlocks(after))) {
+    if (part.removed) {
+      removed.push(...part.value);
+    } else if (part.added) {
+      flush(part.value);
+    } else {
+      flush([]);
+      changes.push(
+        ...part.value.map((block): BlockChange => ({ kind: "unchanged", before: block, after: block }))
+      );
+    }
+  }
+  flush([]);
+  return changes;
+};
+
+export const countChanges = (changes: { kind: ChangeKind }[]): DiffStats => ({
+  added: changes.filter((change) => change.kind === "added").length,
+  removed: changes.filter((change) => change.kind === "removed").length,
+  changed: changes.filter((change) => change.kind === "changed").length,
+});
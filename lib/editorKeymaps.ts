@@ -0,0 +1,313 @@
+import type { Extension } from "@codemirror/state";
+import { ViewPlugin, type EditorView } from "@codemirror/view";
+import { SearchPatternError } from "./search";
+
+// Keybinding modes for the editor. Vim and Emacs are loaded the first time
+// they are picked. Vim's `:s` is handed to the editor's search & replace
+// instead of Vim's own, so substitutions show up in the search bar and a
+// whole-document one is checkpointed like Replace All.
+
+export type EditorKeymapId = "default" | "vim" | "emacs";
+
+export const EDITOR_KEYMAPS: { id: EditorKeymapId; label: string }[] = [
+  { id: "default", label: "Default" },
+  { id: "vim", label: "Vim" },
+  { id: "emacs", label: "Emacs" },
+];
+
+/** A `:s/pattern/replacement/flags` command over a range of lines. */
+export interface SubstituteCommand {
+  // In Vim's syntax; see translateVimPattern
+  pattern: string;
+  // In String.prototype.replace syntax ($1, $&)
+  replacement: string;
+  global: boolean;
+  ignoreCase: boolean;
+  // Offsets of the lines it applies to
+  from: number;
+  to: number;
+  wholeDocument: boolean;
+}
+
+export interface KeymapHooks {
+  // Vim's mode (NORMAL, INSERT, VISUAL…), or null when the keymap has none
+  onModeChange: (mode: string | null) => void;
+  onSubstitute: (command: SubstituteCommand) => void;
+}
+
+const KEYMAP_KEY = "ghost-md-keymap";
+
+const loadVim = () => import("@replit/codemirror-vim");
+const loadEmacs = () => import("@replit/codemirror-emacs");
+
+export const loadEditorKeymap = (): EditorKeymapId => {
+  const saved = localStorage.getItem(KEYMAP_KEY);
+  return saved === "vim" || saved === "emacs" ? saved : "default";
+};
+
+export const saveEditorKeymap = (id: EditorKeymapId) => localStorage.setItem(KEYMAP_KEY, id);
+
+// Ex commands are registered on the global Vim object; each editor finds its
+// own hooks through its view
+const hooksByView = new WeakMap<EditorView, KeymapHooks>();
+let isSubstituteDefined = false;
+
+/** Splits `/a/b/g` at unescaped separators; escaped separators lose their backslash. */
+const splitBySeparator = (argString: string): string[] => {
+  const separator = argString[0];
+  const parts = [""];
+  for (let i = 1; i < argString.length; i++) {
+    const char = argString[i];
+    if (char === "\\" && argString[i + 1] === separator) {
+      parts[parts.length - 1] += separator;
+      i++;
+    } else if (char === "\\" && i + 1 < argString.length) {
+      parts[parts.length - 1] += char + argString[++i];
+    } else if (char === separator && parts.length < 3) {
+      parts.push("");
+    } else {
+      parts[parts.length - 1] += char;
+    }
+  }
+  return parts;
+};
+
+// Vim writes groups as \1 and the whole match as &
+const toReplaceSyntax = (replacement: string) =>
+  replacement.replace(/\\(\d)|\\&|&|\$/g, (token, group) =>
+    group ? `$${group}` : token === "\\&" ? "&" : token === "&" ? "$&" : "$$"
+  );
+
+// Operators in very magic mode (\v); in the default magic mode they need a backslash
+const VIM_OPERATORS = "()|+=?{<>";
+
+// Vim's character class shorthands, with \n, \t, \r and \e
+const VIM_CLASSES: Record<string, string> = {
+  s: "\\s",
+  S: "\\S",
+  d: "\\d",
+  D: "\\D",
+  w: "\\w",
+  W: "\\W",
+  a: "[A-Za-z]",
+  A: "[^A-Za-z]",
+  l: "[a-z]",
+  L: "[^a-z]",
+  u: "[A-Z]",
+  U: "[^A-Z]",
+  x: "[0-9A-Fa-f]",
+  X: "[^0-9A-Fa-f]",
+  o: "[0-7]",
+  O: "[^0-7]",
+  h: "[A-Za-z_]",
+  H: "[^A-Za-z_]",
+  n: "\\n",
+  t: "\\t",
+  r: "\\r",
+  e: "\\x1b",
+};
+
+const POSIX_CLASSES: Record<string, string> = {
+  alpha: "A-Za-z",
+  digit: "0-9",
+  alnum: "A-Za-z0-9",
+  upper: "A-Z",
+  lower: "a-z",
+  space: "\\s",
+  xdigit: "0-9A-Fa-f",
+};
+
+const escapeChar = (char: string) => (/[.*+?^${}()|[\]\\/]/.test(char) ? `\\${char}` : char);
+
+/** Reads a `[…]` collection starting at `start`; null when it is never closed. */
+const readCollection = (pattern: string, start: number): { source: string; end: number } | null => {
+  let i = start + 1;
+  let source = "[";
+  if (pattern[i] === "^") source += pattern[i++];
+  // A ] right after the opening bracket is a literal one
+  if (pattern[i] === "]") {
+    source += "\\]";
+    i++;
+  }
+  for (; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "]") return { source: source + "]", end: i };
+    const posix = /^\[:(\w+):\]/.exec(pattern.slice(i));
+    if (posix && POSIX_CLASSES[posix[1]]) {
+      source += POSIX_CLASSES[posix[1]];
+      i += posix[0].length - 1;
+    } else if (char === "\\" && i + 1 < pattern.length) {
+      source += char + pattern[++i];
+    } else {
+      source += char === "[" ? "\\[" : char;
+    }
+  }
+  return null;
+};
+
+/** Reads the `{n,m}` or `{-n,m}` count after a brace; `-` makes it lazy. */
+const readCount = (pattern: string, start: number): { source: string; end: number } => {
+  const close = pattern.indexOf("}", start);
+  if (close === -1) throw new SearchPatternError("Missing } after \\{");
+  // The closing brace may be escaped as \}
+  const body = pattern.slice(start, close).replace(/\\$/, "");
+  const count = /^(-?)(\d*)(,(\d*))?$/.exec(body);
+  if (!count) throw new SearchPatternError(`Invalid count: {${body}}`);
+  const [, lazy, min, comma, max] = count;
+  let source: string;
+  if (!min && !comma) source = "*";
+  else if (!comma) source = `{${min}}`;
+  else source = `{${min || 0},${max ?? ""}}`;
+  return { source: source + (lazy ? "?" : ""), end: close };
+};
+
+/**
+ * Translates a Vim pattern into a JavaScript regular expression source: groups
+ * as \( \), alternation as \|, counts as \{n,m}, word boundaries as \< \>, the
+ * \v \m \M \V modes, and \c or \C for the case, which wins over the i and I flags.
+ */
+export const translateVimPattern = (
+  pattern: string
+): { source: string; ignoreCase: boolean | null } => {
+  let source = "";
+  let ignoreCase: boolean | null = null;
+  let mode: "very" | "magic" | "nomagic" = "magic";
+
+  const operator = (char: string, i: number): number => {
+    switch (char) {
+      case "<":
+        source += "(?<!\\w)(?=\\w)";
+        return i;
+      case ">":
+        source += "(?<=\\w)(?!\\w)";
+        return i;
+      case "=":
+        source += "?";
+        return i;
+      case "{": {
+        const count = readCount(pattern, i + 1);
+        source += count.source;
+        return count.end;
+      }
+      default:
+        source += char;
+        return i;
+    }
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char !== "\\") {
+      if (mode === "very" && VIM_OPERATORS.includes(char)) {
+        i = operator(char, i);
+      } else if ("^$".includes(char) || (mode !== "nomagic" && ".*".includes(char))) {
+        source += char;
+      } else if (char === "[" && mode !== "nomagic") {
+        const collection = readCollection(pattern, i);
+        source += collection ? collection.source : "\\[";
+        if (collection) i = collection.end;
+      } else {
+        source += escapeChar(char);
+      }
+      continue;
+    }
+
+    const next = pattern[++i];
+    if (next === undefined) {
+      source += "\\\\";
+    } else if (mode !== "very" && VIM_OPERATORS.includes(next)) {
+      i = operator(next, i);
+    } else if (mode === "nomagic" && (next === "." || next === "*")) {
+      source += next;
+    } else if (mode === "nomagic" && next === "[") {
+      const collection = readCollection(pattern, i);
+      source += collection ? collection.source : "\\[";
+      if (collection) i = collection.end;
+    } else if (next === "v" || next === "m" || next === "M" || next === "V") {
+      mode = next === "v" ? "very" : next === "m" ? "magic" : "nomagic";
+    } else if (next === "c" || next === "C") {
+      ignoreCase = next === "c";
+    } else if (/[1-9]/.test(next)) {
+      source += `\\${next}`;
+    } else if (VIM_CLASSES[next]) {
+      source += VIM_CLASSES[next];
+    } else if (next === "_") {
+      // \_x also matches a line break
+      const what = pattern[++i];
+      if (what === ".") source += "[\\s\\S]";
+      else if (what === "^" || what === "$") source += what;
+      else if (what && VIM_CLASSES[what]) source += `(?:${VIM_CLASSES[what]}|\\n)`;
+      else throw new SearchPatternError(`Unsupported item: \\_${what ?? ""}`);
+    } else if (/[a-zA-Z%@&]/.test(next)) {
+      throw new SearchPatternError(`Unsupported item: \\${next}`);
+    } else {
+      source += escapeChar(next);
+    }
+  }
+  return { source, ignoreCase };
+};
+
+const MODE_LABELS: Record<string, string> = {
+  normal: "NORMAL",
+  insert: "INSERT",
+  visual: "VISUAL",
+  replace: "REPLACE",
+};
+
+const vimExtension = async (hooks: KeymapHooks): Promise<Extension> => {
+  const { vim, getCM, Vim } = await loadVim();
+
+  if (!isSubstituteDefined) {
+    isSubstituteDefined = true;
+    Vim.defineEx("substitute", "s", (cm, params) => {
+      const view: EditorView = cm.cm6;
+      const onSubstitute = hooksByView.get(view)?.onSubstitute;
+      const [pattern, replacement, flags = ""] = splitBySeparator(params.argString ?? "");
+      if (!onSubstitute || !pattern || replacement === undefined) return;
+      const { doc } = view.state;
+      const lineStart = params.line ?? doc.lineAt(view.state.selection.main.head).number - 1;
+      const lineEnd = Math.max(params.lineEnd ?? lineStart, lineStart);
+      onSubstitute({
+        pattern,
+        replacement: toReplaceSyntax(replacement),
+        global: flags.includes("g"),
+        ignoreCase: flags.includes("i"),
+        from: doc.line(lineStart + 1).from,
+        to: doc.line(Math.min(lineEnd + 1, doc.lines)).to,
+        wholeDocument: lineStart === 0 && lineEnd + 1 >= doc.lines,
+      });
+    });
+  }
+
+  const modeIndicator = ViewPlugin.define((view) => {
+    hooksByView.set(view, hooks);
+    const cm = getCM(view);
+    const handleModeChange = (event: { mode: string; subMode?: string }) => {
+      const mode = MODE_LABELS[event.mode] ?? event.mode.toUpperCase();
+      hooks.onModeChange(
+        event.subMode === "linewise" ? "V-LINE" : event.subMode === "blockwise" ? "V-BLOCK" : mode
+      );
+    };
+    cm?.on("vim-mode-change", handleModeChange);
+    hooks.onModeChange("NORMAL");
+    return {
+      destroy() {
+        cm?.off("vim-mode-change", handleModeChange);
+        hooksByView.delete(view);
+      },
+    };
+  });
+
+  return [vim(), modeIndicator];
+};
+
+/** The editor extension for a keymap; the default keymap is built into the editor. */
+export const loadKeymapExtension = async (
+  id: EditorKeymapId,
+  hooks: KeymapHooks
+): Promise<Extension> => {
+  if (id === "vim") return vimExtension(hooks);
+  hooks.onModeChange(null);
+  if (id === "emacs") return (await loadEmacs()).emacs();
+  return [];
+};
@@ -0,0 +1,492 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import type {
+  Definition,
+  List,
+  ListItem,
+  PhrasingContent,
+  Root,
+  RootContent,
+  Table as MdTable,
+} from "mdast";
+import type {
+  ParagraphChild,
+  Paragraph as DocxParagraph,
+  Table as DocxTable,
+} from "docx";
+import { isAssetUrl, resolveAssetUrl } from "./assets";
+import { renderMermaid } from "./mermaid";
+import { remarkPageBreaks } from "./pageBreak";
+
+// Converts markdown to a Word document entirely in the browser. The markdown is
+// parsed with the same remark plugins as the preview and the AST is mapped to
+// docx paragraphs, lists and tables. Math and Mermaid diagrams, which Word cannot
+// render natively, are rasterised and embedded as images.
+
+// Loaded on demand; only needed when exporting
+const loadDocx = () => import("docx");
+const loadKatex = () => import("katex");
+const loadHtml2Canvas = () => import("html2canvas");
+
+type Docx = Awaited<ReturnType<typeof loadDocx>>;
+type Block = DocxParagraph | DocxTable;
+
+interface PngImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+interface InlineStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  // Character style id, e.g. "Hyperlink"
+  style?: string;
+}
+
+const MONOSPACE_FONT = "Consolas";
+// Widest an image may be on a Letter/A4 page with default margins, in pixels
+const MAX_IMAGE_WIDTH = 600;
+const IMAGE_SCALE = 2;
+const BULLET_REFERENCE = "ghost-bullets";
+const NUMBER_REFERENCE = "ghost-numbers";
+const LIST_LEVELS = 9;
+
+const canvasToPng = async (canvas: HTMLCanvasElement): Promise<PngImage> => {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Could not encode image.");
+  return {
+    data: new Uint8Array(await blob.arrayBuffer()),
+    width: canvas.width / IMAGE_SCALE,
+    height: canvas.height / IMAGE_SCALE,
+  };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image: ${src}`));
+    img.src = src;
+  });
+
+// Re-encodes any browser-readable image (including SVG and WebP) as PNG
+const rasterize = async (
+  src: string,
+  width: number,
+  height: number,
+  background?: string
+): Promise<PngImage> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * IMAGE_SCALE));
+  canvas.height = Math.max(1, Math.round(height * IMAGE_SCALE));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvasToPng(canvas);
+};
+
+const imageFromUrl = async (url: string): Promise<PngImage> => {
+  const src = isAssetUrl(url) ? await resolveAssetUrl(url) : new URL(url, window.location.href).href;
+  if (!src) throw new Error(`Asset not found: ${url}`);
+  const img = await loadImage(src);
+  return rasterize(img.src, img.naturalWidth || MAX_IMAGE_WIDTH, img.naturalHeight || MAX_IMAGE_WIDTH);
+};
+
+const mermaidToPng = async (chart: string): Promise<PngImage> => {
+  const svg = await renderMermaid(chart);
+  const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
+  const root = doc.documentElement;
+  const [, , width = 0, height = 0] = (root.getAttribute("viewBox") ?? "")
+    .split(/[\s,]+/)
+    .map(Number);
+  if (!width || !height) throw new Error("Diagram has no size.");
+  // Mermaid sizes its SVG with CSS; an image needs explicit dimensions
+  root.setAttribute("width", String(width));
+  root.setAttribute("height", String(height));
+  root.removeAttribute("style");
+
+  const background = getComputedStyle(document.documentElement).getPropertyValue("--bg-primary").trim();
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(root)], { type: "image/svg+xml" })
+  );
+  try {
+    return await rasterize(url, width, height, background || "#ffffff");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// KaTeX output is HTML + CSS, so it is laid out off-screen and captured
+const mathToPng = async (value: string, displayMode: boolean): Promise<PngImage> => {
+  const [{ default: katex }, { default: html2canvas }] = await Promise.all([
+    loadKatex(),
+    loadHtml2Canvas(),
+  ]);
+  const container = document.createElement("div");
+  container.style.cssText =
+    "position: fixed; left: -100000px; top: 0; display: inline-block; padding: 2px; background: #fff; color: #000; font-size: 16px";
+  container.innerHTML = katex.renderToString(value, { displayMode, throwOnError: true });
+  document.body.appendChild(container);
+  try {
+    const canvas = await html2canvas(container, {
+      scale: IMAGE_SCALE,
+      backgroundColor: "#ffffff",
+      logging: false,
+    });
+    return await canvasToPng(canvas);
+  } finally {
+    container.remove();
+  }
+};
+
+const fitWidth = ({ width, height }: PngImage) =>
+  width > MAX_IMAGE_WIDTH
+    ? { width: MAX_IMAGE_WIDTH, height: Math.round((height * MAX_IMAGE_WIDTH) / width) }
+    : { width: Math.round(width), height: Math.round(height) };
+
+const buildDocument = async (docx: Docx, tree: Root, title: string): Promise<Blob> => {
+  const definitions = new Map<string, Definition>();
+  let listInstance = 0;
+
+  const blocks = async (
+    nodes: RootContent[],
+    options: { listLevel?: number; quote?: boolean }
+  ): Promise<Block[]> => {
+    const result: Block[] = [];
+    for (const node of nodes) {
+      result.push(...(await block(node, options)));
+    }
+    return result;
+  };
+
+  const block = async (
+    node: RootContent,
+    options: { listLevel?: number; quote?: boolean }
+  ): Promise<Block[]> => {
+    const { Paragraph, HeadingLevel, AlignmentType, BorderStyle, PageBreak, TextRun } = docx;
+
+    switch (node.type) {
+      case "heading": {
+        const levels = [
+          HeadingLevel.HEADING_1,
+          HeadingLevel.HEADING_2,
+          HeadingLevel.HEADING_3,
+          HeadingLevel.HEADING_4,
+          HeadingLevel.HEADING_5,
+          HeadingLevel.HEADING_6,
+        ];
+        return [
+          new Paragraph({
+            heading: levels[node.depth - 1],
+            children: await inlines(node.children, {}),
+          }),
+        ];
+      }
+      case "paragraph":
+        return [
+          new Paragraph({
+            style: options.quote ? "BlockQuote" : undefined,
+            children: await inlines(node.children, {}),
+          }),
+        ];
+      case "blockquote":
+        return blocks(node.children, { ...options, quote: true });
+      case "list":
+        return list(node, options.listLevel ?? 0);
+      case "code":
+        return [await codeBlock(node.value, node.lang)];
+      case "math":
+        return [
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [await math(node.value, true)],
+          }),
+        ];
+      case "table":
+        return [await table(node)];
+      case "thematicBreak":
+        return [
+          new Paragraph({
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: "CCCCCC", space: 1 } },
+          }),
+        ];
+      case "footnoteDefinition":
+        return [
+          new Paragraph({
+            children: [
+              new TextRun({ text: `[${node.label ?? node.identifier}]`, superScript: true }),
+            ],
+          }),
+          ...(await blocks(node.children, options)),
+        ];
+      default:
+        // Page breaks come from remarkPageBreaks; raw HTML is dropped, as in the preview
+        if ((node as { type: string }).type === "pageBreak") {
+          return [new Paragraph({ children: [new PageBreak()] })];
+        }
+        return [];
+    }
+  };
+
+  const list = async (node: List, level: number): Promise<Block[]> => {
+    const instance = ++listInstance;
+    const result: Block[] = [];
+    for (const item of node.children) {
+      result.push(...(await listItem(item, node.ordered === true, level, instance)));
+    }
+    return result;
+  };
+
+  const listItem = async (
+    item: ListItem,
+    ordered: boolean,
+    level: number,
+    instance: number
+  ): Promise<Block[]> => {
+    const { Paragraph, TextRun } = docx;
+    const result: Block[] = [];
+    const isTask = typeof item.checked === "boolean";
+    let first = true;
+
+    for (const child of item.children) {
+      if (child.type === "list") {
+        result.push(...(await list(child, Math.min(level + 1, LIST_LEVELS - 1))));
+        continue;
+      }
+      if (child.type === "paragraph" && first) {
+        const runs = await inlines(child.children, {});
+        // Task items get a checkbox glyph instead of a bullet
+        result.push(
+          isTask
+            ? new Paragraph({
+                indent: { left: 720 * (level + 1), hanging: 360 },
+                children: [new TextRun({ text: item.checked ? "☒ " : "☐ " }), ...runs],
+              })
+            : new Paragraph({
+                numbering: {
+                  reference: ordered ? NUMBER_REFERENCE : BULLET_REFERENCE,
+                  level,
+                  instance,
+                },
+                children: runs,
+              })
+        );
+      } else {
+        result.push(...(await block(child, { listLevel: level })));
+      }
+      first = false;
+    }
+    return result;
+  };
+
+  const codeBlock = async (value: string, lang?: string | null): Promise<DocxParagraph> => {
+    const { Paragraph, TextRun, AlignmentType } = docx;
+
+    if (lang === "mermaid") {
+      try {
+        return new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [image(await mermaidToPng(value), "Mermaid diagram")],
+        });
+      } catch (error) {
+        console.error("Mermaid export failed, falling back to source:", error);
+      }
+    }
+
+    return new Paragraph({
+      style: "CodeBlock",
+      children: value
+        .split("\n")
+        .map((line, i) => new TextRun({ text: line, break: i > 0 ? 1 : undefined })),
+    });
+  };
+
+  const math = async (value: string, displayMode: boolean): Promise<ParagraphChild> => {
+    try {
+      return image(await mathToPng(value, displayMode), value);
+    } catch (error) {
+      console.error("Math export failed, falling back to source:", error);
+      return new docx.TextRun({ text: value, font: MONOSPACE_FONT });
+    }
+  };
+
+  const image = (png: PngImage, description: string) => {
+    return new docx.ImageRun({
+      type: "png",
+      data: png.data,
+      transformation: fitWidth(png),
+      altText: { name: description, description, title: description },
+    });
+  };
+
+  const table = async (node: MdTable): Promise<DocxTable> => {
+    const { Table, TableRow, TableCell, Paragraph, WidthType, AlignmentType } = docx;
+    const alignments = {
+      left: AlignmentType.LEFT,
+      center: AlignmentType.CENTER,
+      right: AlignmentType.RIGHT,
+    };
+
+    const rows = await Promise.all(
+      node.children.map(async (row, rowIndex) => {
+        const isHeader = rowIndex === 0;
+        const cells = await Promise.all(
+          row.children.map(async (cell, cellIndex) => {
+            const align = node.align?.[cellIndex];
+            return new TableCell({
+              children: [
+                new Paragraph({
+                  alignment: align ? alignments[align] : undefined,
+                  children: await inlines(cell.children, { bold: isHeader }),
+                }),
+              ],
+            });
+          })
+        );
+        return new TableRow({ tableHeader: isHeader, children: cells });
+      })
+    );
+
+    return new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows });
+  };
+
+  const inlines = async (nodes: PhrasingContent[], style: InlineStyle): Promise<ParagraphChild[]> => {
+    const result: ParagraphChild[] = [];
+    for (const node of nodes) {
+      result.push(...(await inline(node, style)));
+    }
+    return result;
+  };
+
+  const inline = async (node: PhrasingContent, style: InlineStyle): Promise<ParagraphChild[]> => {
+    const { TextRun, ExternalHyperlink } = docx;
+
+    switch (node.type) {
+      case "text":
+        return [new TextRun({ text: node.value, ...style })];
+      case "strong":
+        return inlines(node.children, { ...style, bold: true });
+      case "emphasis":
+        return inlines(node.children, { ...style, italics: true });
+      case "delete":
+        return inlines(node.children, { ...style, strike: true });
+      case "inlineCode":
+        return [
+          new TextRun({
+            text: node.value,
+            font: MONOSPACE_FONT,
+            shading: { type: docx.ShadingType.CLEAR, color: "auto", fill: "F3F3F3" },
+            ...style,
+          }),
+        ];
+      case "break":
+        return [new TextRun({ break: 1 })];
+      case "inlineMath":
+        return [await math(node.value, false)];
+      case "link":
+      case "linkReference": {
+        const url =
+          node.type === "link" ? node.url : definitions.get(node.identifier)?.url;
+        if (!url) return inlines(node.children, style);
+        return [
+          new ExternalHyperlink({
+            link: url,
+            children: await inlines(node.children, { ...style, style: "Hyperlink" }),
+          }),
+        ];
+      }
+      case "image":
+      case "imageReference": {
+        const url =
+          node.type === "image" ? node.url : definitions.get(node.identifier)?.url;
+        const alt = node.alt ?? "";
+        if (url) {
+          try {
+            return [image(await imageFromUrl(url), alt || "Image")];
+          } catch (error) {
+            console.error("Image export failed:", error);
+          }
+        }
+        return [new TextRun({ text: alt ? `[${alt}]` : "[image]", italics: true })];
+      }
+      case "footnoteReference":
+        return [new TextRun({ text: `[${node.label ?? node.identifier}]`, superScript: true })];
+      default:
+        return [];
+    }
+  };
+
+  const { Document, Packer, AlignmentType, LevelFormat } = docx;
+
+  tree.children.forEach((node) => {
+    if (node.type === "definition") definitions.set(node.identifier, node);
+  });
+
+  const children = await blocks(tree.children, {});
+
+  const listLevels = (format: "bullet" | "number") =>
+    Array.from({ length: LIST_LEVELS }, (_, level) => ({
+      level,
+      format: format === "bullet" ? LevelFormat.BULLET : LevelFormat.DECIMAL,
+      text: format === "bullet" ? ["•", "◦", "▪"][level % 3] : `%${level + 1}.`,
+      alignment: AlignmentType.LEFT,
+      style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+    }));
+
+  const doc = new Document({
+    title,
+    creator: "GHOST.md",
+    numbering: {
+      config: [
+        { reference: BULLET_REFERENCE, levels: listLevels("bullet") },
+        { reference: NUMBER_REFERENCE, levels: listLevels("number") },
+      ],
+    },
+    styles: {
+      paragraphStyles: [
+        {
+          id: "CodeBlock",
+          name: "Code Block",
+          basedOn: "Normal",
+          run: { font: MONOSPACE_FONT, size: 19 },
+          paragraph: {
+            spacing: { before: 120, after: 120 },
+            shading: { type: docx.ShadingType.CLEAR, color: "auto", fill: "F3F3F3" },
+          },
+        },
+        {
+          id: "BlockQuote",
+          name: "Block Quote",
+          basedOn: "Normal",
+          run: { italics: true, color: "555555" },
+          paragraph: {
+            indent: { left: 720 },
+            border: {
+              left: { style: docx.BorderStyle.SINGLE, size: 18, color: "CCCCCC", space: 12 },
+            },
+          },
+        },
+      ],
+    },
+    sections: [{ children }],
+  });
+
+  return Packer.toBlob(doc);
+};
+
+/** Converts markdown to a .docx file and returns it as a Blob. */
+export const exportDocx = async (markdown: string, title: string): Promise<Blob> => {
+  const processor = unified().use(remarkParse).use(remarkGfm).use(remarkMath).use(remarkPageBreaks);
+  const tree = (await processor.run(processor.parse(markdown))) as Root;
+  return buildDocument(await loadDocx(), tree, title);
+};
@@ -0,0 +1,139 @@
+import katexCss from "katex/dist/katex.min.css?inline";
+import { PAGE_BREAK_CLASS } from "./pageBreak";
+import { stripCommentHighlights } from "./commentHighlights";
+
+// Builds a single self-contained HTML file from the rendered preview.
+// Shiki output and Mermaid SVGs are already inline in the DOM; stylesheets,
+// KaTeX fonts and images are embedded so the file works offline.
+
+const THEME_VARIABLES = [
+  "--bg-primary",
+  "--bg-secondary",
+  "--bg-tertiary",
+  "--border-primary",
+  "--accent-primary",
+  "--accent-hover",
+  "--fg-primary",
+  "--fg-secondary",
+];
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const fetchAsDataUrl = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP error: ${response.status}`);
+  return blobToDataUrl(await response.blob());
+};
+
+// Rules from every stylesheet we are allowed to read (cross-origin sheets throw)
+const collectDocumentCss = (): string =>
+  Array.from(document.styleSheets)
+    .map((sheet) => {
+      try {
+        return Array.from(sheet.cssRules)
+          .map((rule) => rule.cssText)
+          .join("\n");
+      } catch {
+        return "";
+      }
+    })
+    .join("\n");
+
+const themeVariablesCss = (): string => {
+  const computed = getComputedStyle(document.documentElement);
+  const declarations = THEME_VARIABLES.map(
+    (name) => `  ${name}: ${computed.getPropertyValue(name).trim()};`
+  );
+  return `:root {\n${declarations.join("\n")}\n}`;
+};
+
+// KaTeX ships woff2/woff/ttf for every font; woff2 alone keeps the file small
+const inlineKatexCss = async (): Promise<string> => {
+  const css = katexCss.replace(
+    /,\s*url\([^)]*\.(?:woff|ttf)\)\s*format\("(?:woff|truetype)"\)/g,
+    ""
+  );
+  const urls = Array.from(new Set(Array.from(css.matchAll(/url\(([^)]+)\)/g), (m) => m[1])));
+  const inlined = await Promise.all(
+    urls.map(async (url) => {
+      const clean = url.replace(/^["']|["']$/g, "");
+      if (clean.startsWith("data:")) return [url, url] as const;
+      try {
+        return [url, `"${await fetchAsDataUrl(new URL(clean, window.location.href).href)}"`] as const;
+      } catch {
+        return [url, url] as const;
+      }
+    })
+  );
+  return inlined.reduce((acc, [from, to]) => acc.split(`url(${from})`).join(`url(${to})`), css);
+};
+
+const inlineImages = async (root: HTMLElement) => {
+  await Promise.all(
+    Array.from(root.querySelectorAll("img")).map(async (img) => {
+      const src = img.getAttribute("src");
+      if (!src || src.startsWith("data:")) return;
+      try {
+        img.setAttribute("src", await fetchAsDataUrl(img.src));
+      } catch {
+        // Cross-origin images without CORS headers stay as links
+      }
+    })
+  );
+};
+
+export const buildStandaloneHtml = async (
+  source: HTMLElement,
+  title: string
+): Promise<string> => {
+  const content = source.cloneNode(true) as HTMLElement;
+  // Interactive controls (copy buttons etc.) are meaningless in a static file
+  content.querySelectorAll("button").forEach((button) => button.remove());
+  // Review comments aren't part of the exported document
+  stripCommentHighlights(content);
+  content.removeAttribute("id");
+  await inlineImages(content);
+
+  const styles = [
+    themeVariablesCss(),
+    collectDocumentCss(),
+    content.querySelector(".katex") ? await inlineKatexCss() : "",
+    "body { margin: 0; padding: 2rem 1rem; }",
+    ".ghost-export { max-width: 48rem; margin: 0 auto; }",
+    `@media print { .${PAGE_BREAK_CLASS} { break-after: page; visibility: hidden; } }`,
+  ].join("\n");
+
+  const theme = document.documentElement.getAttribute("data-theme") || "gruvbox";
+
+  return `<!DOCTYPE html>
+<html lang="en" class="dark" data-theme="${escapeHtml(theme)}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<meta name="generator" content="GHOST.md" />
+<title>${escapeHtml(title)}</title>
+<style>
+${styles.replace(/<\/style/gi, "<\\/style")}
+</style>
+</head>
+<body>
+<main class="ghost-export">
+${content.innerHTML}
+</main>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,260 @@
+import { PAGE_BREAK_CLASS } from "./pageBreak";
+import { stripCommentHighlights } from "./commentHighlights";
+
+// Builds a paginated PDF from the rendered preview, independent of the browser's
+// print dialog. The preview is re-laid out off-screen at the page's content
+// width, page breaks are chosen so code blocks, tables, diagrams and images stay
+// whole where they fit, then each page is rasterised and placed on a jsPDF page
+// with a vector header and footer.
+
+// Loaded on demand; both libraries are large and only needed here
+const loadPdfLibraries = () => Promise.all([import("jspdf"), import("html2canvas")]);
+
+export type PageSizeId = "a4" | "letter" | "legal";
+export type PageOrientation = "portrait" | "landscape";
+
+export interface PdfSettings {
+  pageSize: PageSizeId;
+  orientation: PageOrientation;
+  marginMm: number;
+  // Templates; {title}, {page}, {pages} and {date} are substituted
+  header: string;
+  footer: string;
+}
+
+// Portrait dimensions in millimetres
+export const PAGE_SIZES: { id: PageSizeId; label: string; width: number; height: number }[] = [
+  { id: "a4", label: "A4", width: 210, height: 297 },
+  { id: "letter", label: "US Letter", width: 215.9, height: 279.4 },
+  { id: "legal", label: "US Legal", width: 215.9, height: 355.6 },
+];
+
+export const MIN_MARGIN_MM = 5;
+export const MAX_MARGIN_MM = 50;
+
+const SETTINGS_KEY = "ghost-md-pdf";
+
+export const DEFAULT_PDF_SETTINGS: PdfSettings = {
+  pageSize: "a4",
+  orientation: "portrait",
+  marginMm: 15,
+  header: "{title}",
+  footer: "Page {page} of {pages}",
+};
+
+export const loadPdfSettings = (): PdfSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_PDF_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PDF_SETTINGS;
+  } catch {
+    return DEFAULT_PDF_SETTINGS;
+  }
+};
+
+export const savePdfSettings = (settings: PdfSettings) =>
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+const PX_PER_MM = 96 / 25.4;
+const RENDER_SCALE = 2;
+const HEADER_FONT_SIZE = 9;
+
+// Blocks moved to the next page rather than cut, as long as they fit on one
+const KEEP_TOGETHER = "div, pre, table, blockquote, img, svg, figure, hr, .katex-display";
+// Boundaries inside a block where a cut looks natural
+const CUT_POINTS = "li, tr, .line, p";
+
+const getPageDimensions = (settings: PdfSettings) => {
+  const size = PAGE_SIZES.find((s) => s.id === settings.pageSize) ?? PAGE_SIZES[0];
+  return settings.orientation === "portrait"
+    ? { width: size.width, height: size.height }
+    : { width: size.height, height: size.width };
+};
+
+const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  );
+
+// Resolves any CSS colour (including var(...)) to RGB via the computed style
+const resolveColor = (value: string, probeParent: HTMLElement): [number, number, number] => {
+  const probe = document.createElement("span");
+  probe.style.color = value;
+  probeParent.appendChild(probe);
+  const [r = 0, g = 0, b = 0] = (getComputedStyle(probe).color.match(/\d+(\.\d+)?/g) ?? []).map(Number);
+  probe.remove();
+  return [r, g, b];
+};
+
+const waitForImages = (root: HTMLElement) =>
+  Promise.all(
+    Array.from(root.querySelectorAll("img")).map((img) =>
+      img.complete ? Promise.resolve() : img.decode().catch(() => undefined)
+    )
+  );
+
+/**
+ * Returns the y offsets (in CSS px, relative to `root`) at which each page starts.
+ * Only top-level blocks of the rendered markdown are considered for placement.
+ */
+export const computePageBreaks = (root: HTMLElement, pageHeight: number): number[] => {
+  const rootTop = root.getBoundingClientRect().top;
+  const offset = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    return { top: rect.top - rootTop, bottom: rect.bottom - rootTop };
+  };
+
+  // Finds the lowest natural boundary inside `block` that still fits on the page
+  const findCut = (block: HTMLElement, pageStart: number, pageEnd: number): number => {
+    let cut = pageStart;
+    block.querySelectorAll(CUT_POINTS).forEach((el) => {
+      const { bottom } = offset(el);
+      if (bottom <= pageEnd && bottom > cut) cut = bottom;
+    });
+    if (cut > pageStart) return cut;
+
+    // Fall back to whole lines of text
+    const lineHeight = parseFloat(getComputedStyle(block).lineHeight);
+    const { top } = offset(block);
+    if (lineHeight > 0 && top < pageEnd) {
+      const lines = Math.floor((pageEnd - Math.max(top, pageStart)) / lineHeight);
+      if (lines > 0) return Math.max(top, pageStart) + lines * lineHeight;
+    }
+    return pageEnd;
+  };
+
+  const body = root.querySelector(".markdown-body") ?? root;
+  const blocks = Array.from(body.children) as HTMLElement[];
+  const starts = [0];
+  let pageStart = 0;
+
+  blocks.forEach((block, index) => {
+    const { top, bottom } = offset(block);
+
+    if (block.classList.contains(PAGE_BREAK_CLASS)) {
+      if (top > pageStart) {
+        pageStart = top;
+        starts.push(pageStart);
+      }
+      return;
+    }
+
+    while (bottom - pageStart > pageHeight) {
+      const pageEnd = pageStart + pageHeight;
+      const keepTogether = block.matches(KEEP_TOGETHER) || /^H[1-6]$/.test(block.tagName);
+
+      if (top > pageStart && keepTogether && bottom - top <= pageHeight) {
+        // Keep a heading with the block that follows it
+        const previous = blocks[index - 1];
+        const previousTop = previous && /^H[1-6]$/.test(previous.tagName) ? offset(previous).top : top;
+        pageStart = previousTop > pageStart ? previousTop : top;
+      } else {
+        pageStart = findCut(block, pageStart, pageEnd);
+      }
+      starts.push(pageStart);
+    }
+  });
+
+  return starts;
+};
+
+/** Renders `source` (the preview content) to a PDF and returns it as a Blob. */
+export const exportPdf = async (
+  source: HTMLElement,
+  title: string,
+  settings: PdfSettings
+): Promise<Blob> => {
+  const [{ jsPDF }, { default: html2canvas }] = await loadPdfLibraries();
+
+  const page = getPageDimensions(settings);
+  const margin = Math.min(Math.max(settings.marginMm, MIN_MARGIN_MM), MAX_MARGIN_MM);
+  const contentWidth = page.width - margin * 2;
+  const contentHeight = page.height - margin * 2;
+  const pageHeightPx = contentHeight * PX_PER_MM;
+
+  // Lay the content out at exactly the printable width
+  const container = document.createElement("div");
+  container.style.cssText = [
+    "position: fixed",
+    "left: -100000px",
+    "top: 0",
+    `width: ${contentWidth * PX_PER_MM}px`,
+    "background: var(--bg-primary)",
+    "color: var(--fg-primary)",
+  ].join(";");
+  const content = source.cloneNode(true) as HTMLElement;
+  content.removeAttribute("id");
+  content.style.cssText = "max-width: none; margin: 0; padding: 0";
+  content.querySelectorAll("button").forEach((button) => button.remove());
+  stripCommentHighlights(content);
+  content.querySelectorAll<HTMLElement>(`.${PAGE_BREAK_CLASS}`).forEach((marker) => {
+    marker.style.cssText = "height: 0; margin: 0; overflow: hidden; visibility: hidden";
+  });
+  container.appendChild(content);
+  document.body.appendChild(container);
+
+  try {
+    await waitForImages(container);
+
+    const starts = computePageBreaks(container, pageHeightPx);
+    const totalHeight = container.scrollHeight;
+    const background = resolveColor("var(--bg-primary)", container);
+    const textColor = resolveColor("var(--fg-secondary)", container);
+
+    const pdf = new jsPDF({
+      unit: "mm",
+      format: [page.width, page.height],
+      orientation: settings.orientation,
+    });
+    pdf.setProperties({ title, creator: "GHOST.md" });
+    pdf.setFontSize(HEADER_FONT_SIZE);
+
+    const date = new Date().toLocaleDateString();
+    const pages = starts.length;
+
+    // One capture per page keeps every canvas well inside browser size limits
+    for (const [i, start] of starts.entries()) {
+      const end = Math.min(starts[i + 1] ?? totalHeight, start + pageHeightPx, totalHeight);
+      const canvas = await html2canvas(container, {
+        y: start,
+        height: Math.max(1, end - start),
+        scale: RENDER_SCALE,
+        useCORS: true,
+        backgroundColor: `rgb(${background.join(",")})`,
+        logging: false,
+      });
+
+      if (i > 0) pdf.addPage([page.width, page.height], settings.orientation);
+      pdf.setFillColor(...background);
+      pdf.rect(0, 0, page.width, page.height, "F");
+      pdf.addImage(
+        canvas.toDataURL("image/png"),
+        "PNG",
+        margin,
+        margin,
+        contentWidth,
+        canvas.height / RENDER_SCALE / PX_PER_MM,
+        undefined,
+        "FAST"
+      );
+
+      const values = { title, page: i + 1, pages, date };
+      pdf.setTextColor(...textColor);
+      if (settings.header.trim()) {
+        pdf.text(fillTemplate(settings.header, values), page.width / 2, margin / 2, {
+          align: "center",
+          baseline: "middle",
+        });
+      }
+      if (settings.footer.trim()) {
+        pdf.text(fillTemplate(settings.footer, values), page.width / 2, page.height - margin / 2, {
+          align: "center",
+          baseline: "middle",
+        });
+      }
+    }
+
+    return pdf.output("blob");
+  } finally {
+    container.remove();
+  }
+};
@@ -0,0 +1,112 @@
+import { generateId } from "../utils";
+import { deleteRecord, getRecordsByIndex, putRecord } from "./db";
+
+// Persistent version history. Every document keeps its revisions in IndexedDB;
+// each revision points at the one it was edited from, so undo and redo walk a
+// tree and restoring an old version never throws newer ones away. Named
+// revisions (checkpoints) are kept forever, the rest are pruned to a limit.
+
+export interface Revision {
+  id: string;
+  documentId: string;
+  content: string;
+  // Revision this one was edited from; undo follows it
+  parentId: string | null;
+  // Set for checkpoints, e.g. "Before Replace All"
+  label: string | null;
+  createdAt: number;
+}
+
+// Unnamed revisions kept per document; older ones are dropped when it is opened
+const MAX_REVISIONS = 500;
+
+/** Revisions of a document, oldest first. */
+export const listRevisions = async (documentId: string): Promise<Revision[]> =>
+  (await getRecordsByIndex<Revision>("revisions", "documentId", documentId)).sort(
+    (a, b) => a.createdAt - b.createdAt
+  );
+
+export const recordRevision = (
+  init: Pick<Revision, "documentId" | "content" | "parentId"> & { label?: string | null }
+): Promise<Revision> =>
+  putRecord<Revision>("revisions", {
+    id: generateId(),
+    documentId: init.documentId,
+    content: init.content,
+    parentId: init.parentId,
+    label: init.label ?? null,
+    createdAt: Date.now(),
+  });
+
+export const labelRevision = (revision: Revision, label: string): Promise<Revision> =>
+  putRecord<Revision>("revisions", { ...revision, label });
+
+export const deleteRevisions = async (documentId: string) => {
+  const revisions = await getRecordsByIndex<Revision>("revisions", "documentId", documentId);
+  await Promise.all(revisions.map((revision) => deleteRecord("revisions", revision.id)));
+};
+
+/**
+ * Loads the history of a document and finds the revision matching `content`,
+ * recording one when the document changed outside the history (new, imported,
+ * or last edited before history existed).
+ */
+export const openHistory = async (
+  documentId: string,
+  content: string
+): Promise<{ revisions: Revision[]; head: Revision }> => {
+  let revisions = await listRevisions(documentId);
+
+  const unnamed = revisions.filter((revision) => !revision.label);
+  if (unnamed.length > MAX_REVISIONS) {
+    const pruned = new Set(
+      unnamed.slice(0, unnamed.length - MAX_REVISIONS).map((revision) => revision.id)
+    );
+    await Promise.all([...pruned].map((id) => deleteRecord("revisions", id)));
+
+    // Revisions edited from a pruned one hang off its nearest kept ancestor instead,
+    // so undo still walks past the gap
+    const byId = new Map(revisions.map((revision) => [revision.id, revision]));
+    const keptAncestor = (parentId: string | null): string | null => {
+      while (parentId && pruned.has(parentId)) parentId = byId.get(parentId)?.parentId ?? null;
+      return parentId;
+    };
+    revisions = await Promise.all(
+      revisions
+        .filter((revision) => !pruned.has(revision.id))
+        .map((revision) =>
+          revision.parentId && pruned.has(revision.parentId)
+            ? putRecord<Revision>("revisions", {
+                ...revision,
+                parentId: keptAncestor(revision.parentId),
+              })
+            : revision
+        )
+    );
+  }
+
+  const current = [...revisions].reverse().find((revision) => revision.content === content);
+  if (current) return { revisions, head: current };
+
+  const head = await recordRevision({
+    documentId,
+    content,
+    parentId: revisions[revisions.length - 1]?.id ?? null,
+  });
+  return { revisions: [...revisions, head], head };
+};
+
+/**
+ * Names the current version of a document that isn't open, like a checkpoint
+ * taken in the editor; a version that already has a name gets a copy.
+ */
+export const checkpointDocument = async (
+  documentId: string,
+  content: string,
+  label: string
+): Promise<Revision> => {
+  const { head } = await openHistory(documentId, content);
+  return head.label
+    ? recordRevision({ documentId, content, parentId: head.id, label })
+    : labelRevision(head, label);
+};
@@ -0,0 +1,143 @@
+import { unified } from "unified";
+import rehypeParse from "rehype-parse";
+import rehypeRemark from "rehype-remark";
+import remarkGfm from "remark-gfm";
+import remarkStringify from "remark-stringify";
+
+// Turns files and rich clipboard content into GFM markdown. HTML is cleaned up in
+// the DOM first (Google Docs and Word express most formatting as inline styles),
+// then converted through rehype -> remark. DOCX is converted to HTML by mammoth
+// and goes through the same path.
+
+// Loaded on demand; only needed for .docx files
+const loadMammoth = () => import("mammoth");
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export interface ImportedFile {
+  fileName: string;
+  markdown: string;
+}
+
+const MARKDOWN_EXTENSIONS = ["md", "markdown", "txt"];
+const HTML_EXTENSIONS = ["html", "htm"];
+const DOCX_EXTENSIONS = ["docx"];
+
+// Value for the `accept` attribute of file inputs
+export const IMPORT_ACCEPT = [...MARKDOWN_EXTENSIONS, ...HTML_EXTENSIONS, ...DOCX_EXTENSIONS]
+  .map((ext) => `.${ext}`)
+  .join(",");
+
+// Word paragraph styles that hold code, including the ones our DOCX export writes
+const DOCX_STYLE_MAP = [
+  "p[style-name='Code Block'] => pre:separator('\\n')",
+  "p[style-name='Source Code'] => pre:separator('\\n')",
+  "p[style-name='HTML Preformatted'] => pre:separator('\\n')",
+  "p[style-name='Block Quote'] => blockquote > p:fresh",
+  "p[style-name='Quote'] => blockquote > p:fresh",
+  "r[style-name='Code'] => code",
+];
+
+// Structure worth converting; anything else is pasted as plain text
+const RICH_HTML_PATTERN =
+  /<(h[1-6]|ul|ol|table|strong|b|em|i|a|pre|code|blockquote|img|del|s)\b|docs-internal-guid/i;
+
+const MONOSPACE_PATTERN = /mono|courier|consolas|menlo/i;
+
+/** Whether clipboard HTML carries formatting that plain text would lose. */
+export const isRichHtml = (html: string) => RICH_HTML_PATTERN.test(html);
+
+const unwrap = (el: Element) => el.replaceWith(...Array.from(el.childNodes));
+
+// Maps inline styles on spans to semantic elements rehype-remark understands
+const convertStyledSpans = (doc: Document) => {
+  doc.querySelectorAll<HTMLElement>("span[style]").forEach((span) => {
+    const { fontWeight, fontStyle, textDecoration, fontFamily, verticalAlign } = span.style;
+    const tags: string[] = [];
+    if (fontWeight === "bold" || Number(fontWeight) >= 600) tags.push("strong");
+    if (fontStyle === "italic") tags.push("em");
+    if (textDecoration.includes("line-through")) tags.push("del");
+    if (MONOSPACE_PATTERN.test(fontFamily)) tags.push("code");
+    if (verticalAlign === "super") tags.push("sup");
+    if (verticalAlign === "sub") tags.push("sub");
+
+    // Headings are already bold; a <strong> inside one would add noise
+    const inHeading = span.closest("h1, h2, h3, h4, h5, h6");
+    const wrappers = tags.filter((tag) => !(inHeading && tag === "strong"));
+    if (wrappers.length === 0) {
+      unwrap(span);
+      return;
+    }
+
+    const outer = doc.createElement(wrappers[0]);
+    const inner = wrappers
+      .slice(1)
+      .reduce((parent, tag) => parent.appendChild(doc.createElement(tag)), outer);
+    inner.append(...Array.from(span.childNodes));
+    span.replaceWith(outer);
+  });
+};
+
+const cleanHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll("script, style, meta, link, title, noscript").forEach((el) => el.remove());
+  // Google Docs wraps the whole selection in <b style="font-weight:normal">
+  doc.querySelectorAll('b[id^="docs-internal-guid"]').forEach(unwrap);
+  convertStyledSpans(doc);
+  // Google Docs links go through a redirect; keep the real target
+  doc.querySelectorAll<HTMLAnchorElement>('a[href^="https://www.google.com/url?"]').forEach((a) => {
+    const target = new URL(a.href).searchParams.get("q");
+    if (target) a.setAttribute("href", target);
+  });
+  return doc.body.innerHTML;
+};
+
+/** Converts an HTML document or fragment to GFM markdown. */
+export const htmlToMarkdown = async (html: string): Promise<string> => {
+  const file = await unified()
+    .use(rehypeParse, { fragment: true })
+    .use(rehypeRemark)
+    .use(remarkGfm)
+    .use(remarkStringify, {
+      bullet: "-",
+      emphasis: "_",
+      fences: true,
+      listItemIndent: "one",
+      rule: "-",
+    })
+    .process(cleanHtml(html));
+  return String(file).trim() + "\n";
+};
+
+const docxToMarkdown = async (file: File): Promise<string> => {
+  const { default: mammoth } = await loadMammoth();
+  const { value } = await mammoth.convertToHtml(
+    { arrayBuffer: await file.arrayBuffer() },
+    { styleMap: DOCX_STYLE_MAP }
+  );
+  return htmlToMarkdown(value);
+};
+
+/** Reads a markdown, text, HTML or DOCX file and returns its content as markdown. */
+export const importFile = async (file: File): Promise<ImportedFile> => {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  const fileName = file.name.replace(/\.[^/.]+$/, "");
+
+  if (MARKDOWN_EXTENSIONS.includes(extension)) {
+    return { fileName, markdown: await file.text() };
+  }
+  if (HTML_EXTENSIONS.includes(extension)) {
+    return { fileName, markdown: await htmlToMarkdown(await file.text()) };
+  }
+  if (DOCX_EXTENSIONS.includes(extension)) {
+    return { fileName, markdown: await docxToMarkdown(file) };
+  }
+  throw new ImportError(
+    `Unsupported file type. Supported: ${IMPORT_ACCEPT.split(",").join(", ")}`
+  );
+};
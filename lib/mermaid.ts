@@ -0,0 +1,37 @@
+// Shared Mermaid setup for the preview and for exports that embed diagrams.
+
+// Dynamic import; Mermaid is only downloaded once a diagram is rendered
+const loadMermaid = () => import("mermaid");
+
+let mermaidInitialized = false;
+
+// Initialize Mermaid lazily
+const initializeMermaid = async () => {
+  if (!mermaidInitialized) {
+    const mermaidModule = await loadMermaid();
+    mermaidModule.default.initialize({
+      startOnLoad: false,
+      theme: "dark",
+      securityLevel: "loose",
+      themeVariables: {
+        fontFamily: "Inter",
+        primaryColor: "#d79921",
+        primaryTextColor: "#ebdbb2",
+        primaryBorderColor: "#d79921",
+        lineColor: "#ebdbb2",
+        secondaryColor: "#3c3836",
+        tertiaryColor: "#282828",
+      },
+    });
+    mermaidInitialized = true;
+  }
+  return loadMermaid();
+};
+
+/** Renders a Mermaid chart to an SVG string. Throws on invalid syntax. */
+export const renderMermaid = async (chart: string): Promise<string> => {
+  const mermaidModule = await initializeMermaid();
+  const id = "mermaid-" + Math.random().toString(36).substring(2, 9);
+  const { svg } = await mermaidModule.default.render(id, chart);
+  return svg;
+};
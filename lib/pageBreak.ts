@@ -0,0 +1,30 @@
+// Manual page breaks: a `<!-- pagebreak -->` comment on its own line becomes a
+// `div.page-break`, which the preview shows as a divider and PDF export honours.
+// react-markdown drops raw HTML, so the comment has to be converted before that.
+
+export const PAGE_BREAK_CLASS = "page-break";
+
+const PAGE_BREAK_PATTERN = /^<!--\s*pagebreak\s*-->$/i;
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: Record<string, unknown>;
+}
+
+const replacePageBreaks = (node: MarkdownNode) => {
+  node.children?.forEach((child, index, children) => {
+    if (child.type === "html" && PAGE_BREAK_PATTERN.test(child.value?.trim() ?? "")) {
+      children[index] = {
+        type: "pageBreak",
+        data: { hName: "div", hProperties: { className: [PAGE_BREAK_CLASS] } },
+      };
+    } else {
+      replacePageBreaks(child);
+    }
+  });
+};
+
+/** Remark plugin turning `<!-- pagebreak -->` markers into page-break elements. */
+export const remarkPageBreaks = () => (tree: MarkdownNode) => replacePageBreaks(tree);
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_SHAREABLE_URL_LENGTH } from "../utils";
+import { encodePayload } from "./codec";
+import { encryptWithRandomKey } from "./crypto";
+import {
+  buildReplyLinks,
+  openReply,
+  readReplyParams,
+  ReplyLinkError,
+  type ReplyParams,
+  type SealedReply,
+} from "./replyLinks";
+
+const FEEDBACK = { documentId: "doc-1", author: "Ada", createdAt: 1, threads: [] };
+
+/** Reads a link the way the editor route sees it: query parameters and fragment. */
+const readLink = (link: string): ReplyParams | null => {
+  const route = link.slice(link.indexOf("#/") + 2);
+  const [path, key = ""] = route.split("#");
+  return readReplyParams(new URLSearchParams(path.slice(path.indexOf("?") + 1)), key);
+};
+
+const readComplete = (link: string): SealedReply => {
+  const params = readLink(link);
+  if (params?.status !== "complete") throw new Error("Expected a complete reply");
+  return params.reply;
+};
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal("window", { location: { origin: "https://ghost.test" } });
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("reply links", () => {
+  it("round-trips a compressed reply", async () => {
+    const [link] = await buildReplyLinks("comments", FEEDBACK, { kind: "c", secret: "" });
+    expect(link).toMatch(/^https:\/\/ghost\.test\/#\/\?comments=.+&t=c$/);
+    const reply = readComplete(link);
+    expect(JSON.parse(await openReply(reply, ""))).toEqual(FEEDBACK);
+  });
+
+  it("encrypts with the share's key and carries it in the fragment", async () => {
+    const { key } = await encryptWithRandomKey("shared document");
+    const [link] = await buildReplyLinks("suggest", FEEDBACK, { kind: "x", secret: key });
+    expect(link).not.toContain("Ada");
+    expect(link.endsWith(`#${key}`)).toBe(true);
+    const reply = readComplete(link);
+    expect(reply).toMatchObject({ type: "suggest", kind: "x", key });
+    expect(JSON.parse(await openReply(reply, reply.key))).toEqual(FEEDBACK);
+  });
+
+  it("encrypts with the share's passphrase", async () => {
+    const [link] = await buildReplyLinks("comments", FEEDBACK, {
+      kind: "e",
+      secret: "correct horse",
+    });
+    const reply = readComplete(link);
+    expect(reply.key).toBe("");
+    await expect(openReply(reply, "wrong horse")).rejects.toMatchObject({
+      reason: "wrong-passphrase",
+    });
+    expect(JSON.parse(await openReply(reply, "correct horse"))).toEqual(FEEDBACK);
+  }, 20000);
+
+  it("splits long replies into parts that are collected in any order", async () => {
+    const threads = Array.from({ length: 200 }, (_, i) => ({ id: `t${i}`, body: Math.random() }));
+    const feedback = { ...FEEDBACK, threads };
+    const links = await buildReplyLinks("comments", feedback, { kind: "c", secret: "" });
+    expect(links.length).toBeGreaterThan(1);
+    for (const link of links) expect(link.length).toBeLessThanOrEqual(MAX_SHAREABLE_URL_LENGTH);
+
+    const [first, ...rest] = [...links].reverse();
+    expect(readLink(first)).toMatchObject({ status: "partial", received: 1, total: links.length });
+    const last = rest.pop()!;
+    rest.forEach(readLink);
+    const reply = readComplete(last);
+    expect(JSON.parse(await openReply(reply, ""))).toEqual(feedback);
+  });
+
+  it("reads suggestions links from before replies were sealed", async () => {
+    const { payload } = await encodePayload(JSON.stringify(FEEDBACK));
+    const reply = readComplete(`https://ghost.test/#/?suggest=${payload}`);
+    expect(reply).toMatchObject({ type: "suggest", kind: "c" });
+    expect(JSON.parse(await openReply(reply, ""))).toEqual(FEEDBACK);
+  });
+
+  it("ignores other editor links and rejects broken ones", () => {
+    expect(readLink("https://ghost.test/#/?room=abc")).toBeNull();
+    expect(() => readLink("https://ghost.test/#/?comments=abc&t=z")).toThrow(ReplyLinkError);
+    expect(() => readLink("https://ghost.test/#/?reply=comments&part=1-2")).toThrow(ReplyLinkError);
+  });
+});
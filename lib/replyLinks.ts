@@ -0,0 +1,142 @@
+import { MAX_SHAREABLE_URL_LENGTH } from "../utils";
+import {
+  assembleParts,
+  clearCollectedParts,
+  collectPart,
+  MAX_SHARE_PARTS,
+  parsePartParams,
+  partOverhead,
+  partToParams,
+  ShareChunkError,
+  splitPayload,
+  type PayloadKind,
+} from "./chunks";
+import { decodePayload, encodePayload } from "./codec";
+import {
+  decryptWithKey,
+  decryptWithPassphrase,
+  encryptWithKey,
+  encryptWithPassphrase,
+} from "./crypto";
+
+// Links the recipient of a shared document sends back to its author: comments
+// (?comments=) and suggestions (?suggest=). A reply is sealed the way the share
+// it answers was: compressed only, encrypted with the share's random key (which
+// rides in the fragment, as on share links) or with its passphrase. The kind is
+// in ?t=. Replies too long for one URL are split into part links, marked with
+// ?reply=, that the editor collects like the viewer collects share parts.
+
+export type ReplyType = "comments" | "suggest";
+
+/** How the shared document was opened, so replies can be sealed the same way. */
+export interface ShareOrigin {
+  kind: PayloadKind;
+  // The key of an encrypted link or the passphrase of a protected one
+  secret: string;
+}
+
+/** A reply read from the editor's URL, still compressed and encrypted. */
+export interface SealedReply {
+  type: ReplyType;
+  kind: PayloadKind;
+  payload: string;
+  // From the fragment of replies to encrypted links
+  key: string;
+}
+
+export type ReplyParams =
+  | { status: "complete"; reply: SealedReply }
+  | { status: "partial"; type: ReplyType; received: number; total: number };
+
+export class ReplyLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplyLinkError";
+  }
+}
+
+const REPLY_TYPES: ReplyType[] = ["comments", "suggest"];
+const PAYLOAD_KINDS: PayloadKind[] = ["c", "x", "e"];
+
+const editorUrl = (params: Record<string, string>) =>
+  `${window.location.origin}/#/?${Object.entries(params)
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&")}`;
+
+const seal = async (json: string, origin: ShareOrigin): Promise<string> => {
+  const { payload } = await encodePayload(json);
+  if (origin.kind === "x") return encryptWithKey(payload, origin.secret);
+  if (origin.kind === "e") return encryptWithPassphrase(payload, origin.secret);
+  return payload;
+};
+
+/** Links carrying `value` to the author: one, or several parts when it is long. */
+export const buildReplyLinks = async (
+  type: ReplyType,
+  value: unknown,
+  origin: ShareOrigin
+): Promise<string[]> => {
+  const payload = await seal(JSON.stringify(value), origin);
+  const fragment = origin.kind === "x" ? `#${origin.secret}` : "";
+  const single = editorUrl({ [type]: payload, t: origin.kind }) + fragment;
+  if (single.length <= MAX_SHAREABLE_URL_LENGTH) return [single];
+
+  const maxDataLength =
+    MAX_SHAREABLE_URL_LENGTH -
+    editorUrl({ reply: type }).length -
+    1 -
+    partOverhead(MAX_SHARE_PARTS) -
+    fragment.length;
+  const parts = splitPayload(origin.kind, payload, maxDataLength);
+  if (!parts) {
+    throw new ReplyLinkError(`Too large: more than ${MAX_SHARE_PARTS} links would be needed.`);
+  }
+  return parts.map((part) => editorUrl({ reply: type, ...partToParams(part) }) + fragment);
+};
+
+/**
+ * Reads a reply from the editor's query parameters. Part links are collected
+ * until the set is complete; `key` is the URL fragment.
+ */
+export const readReplyParams = (params: URLSearchParams, key: string): ReplyParams | null => {
+  const partType = params.get("reply");
+  if (partType !== null) {
+    const type = REPLY_TYPES.find((t) => t === partType);
+    try {
+      const part = parsePartParams(params);
+      if (!type || !part) throw new ShareChunkError("This part link is incomplete.");
+      const parts = collectPart(part);
+      if (parts.length < part.total) {
+        return { status: "partial", type, received: parts.length, total: part.total };
+      }
+      const payload = assembleParts(parts);
+      clearCollectedParts(part.setId);
+      return { status: "complete", reply: { type, kind: part.kind, payload, key } };
+    } catch (error) {
+      if (error instanceof ShareChunkError) throw new ReplyLinkError(error.message);
+      throw error;
+    }
+  }
+
+  const type = REPLY_TYPES.find((t) => params.get(t) !== null);
+  if (!type) return null;
+  // Links from before replies were sealed carry no kind and are only compressed
+  const kind = PAYLOAD_KINDS.find((k) => k === (params.get("t") ?? "c"));
+  if (!kind) throw new ReplyLinkError("This link uses an unknown format.");
+  // Browsers turn '+' into ' ' when decoding query values
+  const payload = params.get(type)!.replace(/ /g, "+");
+  return { status: "complete", reply: { type, kind, payload, key } };
+};
+
+/**
+ * Decrypts and decompresses a reply. `secret` is the key or passphrase of the
+ * share it answers; decryption failures are thrown as DecryptionError.
+ */
+export const openReply = async (reply: SealedReply, secret: string): Promise<string> => {
+  let compressed = reply.payload;
+  if (reply.kind === "x") compressed = await decryptWithKey(reply.payload, secret);
+  if (reply.kind === "e") compressed = await decryptWithPassphrase(reply.payload, secret);
+  const json = await decodePayload(compressed);
+  if (json === null) throw new ReplyLinkError("The link is corrupted.");
+  return json;
+};
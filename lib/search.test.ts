@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyReplacements,
+  DEFAULT_SEARCH_OPTIONS,
+  findMatches,
+  SearchPatternError,
+  type SearchOptions,
+} from "./search";
+
+const replaceAll = (
+  text: string,
+  term: string,
+  replaceTerm: string,
+  options: Partial<SearchOptions>
+) =>
+  applyReplacements(
+    text,
+    findMatches(text, term, replaceTerm, { ...DEFAULT_SEARCH_OPTIONS, ...options })
+  );
+
+describe("findMatches", () => {
+  it("matches plain text case-insensitively unless asked", () => {
+    expect(findMatches("Cat cat CAT", "cat", "", DEFAULT_SEARCH_OPTIONS)).toHaveLength(3);
+    expect(
+      findMatches("Cat cat CAT", "cat", "", { ...DEFAULT_SEARCH_OPTIONS, matchCase: true })
+    ).toEqual([{ start: 4, end: 7, replacement: "" }]);
+  });
+
+  it("treats regex characters literally outside regex mode", () => {
+    expect(replaceAll("a.b axb", "a.b", "z", {})).toBe("z axb");
+  });
+
+  it("matches whole words only, including terms ending in punctuation", () => {
+    expect(replaceAll("cat catalog cat.", "cat", "dog", { wholeWord: true })).toBe(
+      "dog catalog dog."
+    );
+    expect(replaceAll("c++ c++x", "c++", "rust", { wholeWord: true })).toBe("rust c++x");
+  });
+
+  it("expands groups in regex replacements", () => {
+    const date = "(\\d+)-(?<month>\\d+)";
+    expect(replaceAll("2024-05", date, "$<month>/$1 ($$)", { regex: true })).toBe("05/2024 ($)");
+    expect(replaceAll("ab", "(a)", "$12", { regex: true })).toBe("a2b");
+  });
+
+  it("reports invalid patterns as SearchPatternError", () => {
+    expect(() => findMatches("text", "(", "", { ...DEFAULT_SEARCH_OPTIONS, regex: true })).toThrow(
+      SearchPatternError
+    );
+  });
+});
+
+describe("preserveCase", () => {
+  const preserve = (text: string, replaceTerm: string) =>
+    replaceAll(text, "phone", replaceTerm, { preserveCase: true });
+
+  it("copies UPPER and lower case", () => {
+    expect(preserve("PHONE", "handset")).toBe("HANDSET");
+    expect(preserve("phone", "Handset")).toBe("handset");
+  });
+
+  it("only capitalises the first letter of Capitalised matches", () => {
+    expect(preserve("Phone", "handset")).toBe("Handset");
+    expect(preserve("Phone", "iPhone")).toBe("IPhone");
+  });
+
+  it("leaves mixed case and caseless replacements as written", () => {
+    expect(preserve("pHoNe", "iPhone")).toBe("iPhone");
+    expect(replaceAll("123", "\\d+", "n", { regex: true, preserveCase: true })).toBe("n");
+  });
+});
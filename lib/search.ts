@@ -0,0 +1,108 @@
+// Find & replace. Terms are plain text unless regex mode is on; regex
+// replacements expand $1, $<name> and $& like String.prototype.replace. Every
+// match carries its replacement so the search bar can preview each one.
+
+export interface SearchOptions {
+  regex: boolean;
+  wholeWord: boolean;
+  matchCase: boolean;
+  // Replacements take on the capitalisation of the text they replace
+  preserveCase: boolean;
+}
+
+export interface SearchMatch {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  regex: false,
+  wholeWord: false,
+  matchCase: false,
+  preserveCase: false,
+};
+
+export class SearchPatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchPatternError";
+  }
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const buildSearchRegex = (term: string, options: SearchOptions): RegExp => {
+  const source = options.regex ? term : escapeRegExp(term);
+  // Lookarounds rather than \b, so terms starting or ending in punctuation still match
+  const bounded = options.wholeWord ? `(?<!\\w)(?:${source})(?!\\w)` : source;
+  try {
+    return new RegExp(bounded, options.matchCase ? "gm" : "gim");
+  } catch (error) {
+    const message = (error as Error).message.replace(/^Invalid regular expression: \/.*\/\w*: /, "");
+    throw new SearchPatternError(message);
+  }
+};
+
+/** Expands $$, $&, $`, $', $1–$99 and $<name> in a replacement. */
+const expandReplacement = (template: string, match: RegExpExecArray, text: string): string =>
+  template.replace(/\$(?:([$&`'])|(\d{1,2})|<([^>]*)>)/g, (token, symbol, digits, name) => {
+    if (symbol === "$") return "$";
+    if (symbol === "&") return match[0];
+    if (symbol === "`") return text.slice(0, match.index);
+    if (symbol === "'") return text.slice(match.index + match[0].length);
+    if (name !== undefined) return match.groups ? match.groups[name] ?? "" : token;
+    const group = Number(digits);
+    if (group >= 1 && group < match.length) return match[group] ?? "";
+    // $12 with fewer than 12 groups is $1 followed by "2", as in String.prototype.replace
+    const single = Number(digits[0]);
+    if (digits.length === 2 && single >= 1 && single < match.length) {
+      return (match[single] ?? "") + digits[1];
+    }
+    return token;
+  });
+
+const hasCase = (text: string) => text.toLowerCase() !== text.toUpperCase();
+
+/** Gives the replacement the matched text's case: UPPER, lower or Capitalised. */
+const matchCaseOf = (matched: string, replacement: string): string => {
+  if (!hasCase(matched)) return replacement;
+  if (matched === matched.toUpperCase()) return replacement.toUpperCase();
+  if (matched === matched.toLowerCase()) return replacement.toLowerCase();
+  const first = matched.charAt(0);
+  if (first === first.toUpperCase() && matched.slice(1) === matched.slice(1).toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+};
+
+/** Matches of the term and what each one would be replaced with; throws SearchPatternError. */
+export const findMatches = (
+  text: string,
+  term: string,
+  replaceTerm: string,
+  options: SearchOptions
+): SearchMatch[] => {
+  if (!term) return [];
+  const regex = buildSearchRegex(term, options);
+  const matches: SearchMatch[] = [];
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    const replacement = options.regex ? expandReplacement(replaceTerm, match, text) : replaceTerm;
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      replacement: options.preserveCase ? matchCaseOf(match[0], replacement) : replacement,
+    });
+    if (match.index === regex.lastIndex) regex.lastIndex++;
+  }
+  return matches;
+};
+
+export const applyReplacements = (text: string, matches: SearchMatch[]): string =>
+  [...matches]
+    .reverse()
+    .reduce(
+      (result, match) => result.slice(0, match.start) + match.replacement + result.slice(match.end),
+      text
+    );
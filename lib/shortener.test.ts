@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMockShortener,
+  DEFAULT_SHORTENER_SETTINGS,
+  saveShortenerSettings,
+  ShortenerError,
+  shortenUrl,
+  shortenWithProvider,
+} from "./shortener";
+
+const LONG_URL = "https://ghost.md/#/view?c=abc";
+
+describe("shortenWithProvider", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns the provider's short link", async () => {
+    const provider = createMockShortener();
+    const result = shortenWithProvider(provider, LONG_URL, { timeoutMs: 1000, retries: 0 });
+    await vi.runAllTimersAsync();
+    const shortUrl = await result;
+    expect(provider.resolve(shortUrl)).toBe(LONG_URL);
+    expect(provider.calls()).toBe(1);
+  });
+
+  it("retries retryable failures with backoff", async () => {
+    const provider = createMockShortener({ failures: 2 });
+    const result = shortenWithProvider(provider, LONG_URL, { timeoutMs: 1000, retries: 2 });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(provider.calls()).toBe(1);
+    await vi.runAllTimersAsync();
+    expect(provider.resolve(await result)).toBe(LONG_URL);
+    expect(provider.calls()).toBe(3);
+  });
+
+  it("gives up once the retries are used", async () => {
+    const provider = createMockShortener({ failures: 5 });
+    const result = shortenWithProvider(provider, LONG_URL, { timeoutMs: 1000, retries: 1 });
+    const assertion = expect(result).rejects.toThrow("Mock shortener failure");
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(provider.calls()).toBe(2);
+  });
+
+  it("times out a slow provider and retries it", async () => {
+    const provider = createMockShortener({ delayMs: 5000 });
+    const result = shortenWithProvider(provider, LONG_URL, { timeoutMs: 100, retries: 1 });
+    const assertion = expect(result).rejects.toThrow("Timed out after 100ms");
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(provider.calls()).toBe(2);
+  });
+
+  it("does not retry errors that aren't retryable", async () => {
+    const provider = createMockShortener();
+    provider.shorten = async () => {
+      throw new ShortenerError("HTTP error: 400");
+    };
+    await expect(
+      shortenWithProvider(provider, LONG_URL, { timeoutMs: 1000, retries: 3 })
+    ).rejects.toThrow("HTTP error: 400");
+  });
+});
+
+describe("shortenUrl", () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // The share dialog falls back to the long link or split links when this rejects
+  it("rejects when shortening is disabled", async () => {
+    saveShortenerSettings({ ...DEFAULT_SHORTENER_SETTINGS, provider: "none" });
+    await expect(shortenUrl(LONG_URL)).rejects.toThrow("URL shortening is disabled");
+  });
+
+  it("rejects without retrying when the custom endpoint is missing", async () => {
+    saveShortenerSettings({ ...DEFAULT_SHORTENER_SETTINGS, provider: "custom", endpoint: "" });
+    await expect(shortenUrl(LONG_URL)).rejects.toThrow("No shortener endpoint configured");
+  });
+});
@@ -0,0 +1,252 @@
+// Pluggable URL shorteners used when a share link exceeds MAX_SHAREABLE_URL_LENGTH.
+
+export type ShortenerProviderId = "isgd" | "custom" | "none";
+
+export interface ShortenerSettings {
+  provider: ShortenerProviderId;
+  // Generic "POST JSON" provider (e.g. self-hosted Shlink or YOURLS)
+  endpoint: string;
+  requestField: string;
+  responseField: string;
+  apiKeyHeader: string;
+  apiKey: string;
+  // Request handling
+  timeoutMs: number;
+  retries: number;
+}
+
+export interface ShortenerProvider {
+  id: string;
+  label: string;
+  shorten: (longUrl: string, signal: AbortSignal) => Promise<string>;
+}
+
+export class ShortenerError extends Error {
+  // Network failures, timeouts and 5xx responses are worth retrying; a 4xx is not
+  retryable: boolean;
+
+  constructor(message: string, retryable = false) {
+    super(message);
+    this.name = "ShortenerError";
+    this.retryable = retryable;
+  }
+}
+
+const SETTINGS_KEY = "ghost-md-shortener";
+
+export const DEFAULT_SHORTENER_SETTINGS: ShortenerSettings = {
+  provider: "isgd",
+  endpoint: "",
+  requestField: "longUrl",
+  responseField: "shortUrl",
+  apiKeyHeader: "X-Api-Key",
+  apiKey: "",
+  timeoutMs: 8000,
+  retries: 2,
+};
+
+export const SHORTENER_PROVIDERS: { id: ShortenerProviderId; label: string }[] = [
+  { id: "isgd", label: "is.gd (public)" },
+  { id: "custom", label: "Custom endpoint (POST JSON)" },
+  { id: "none", label: "None (never shorten)" },
+];
+
+export const loadShortenerSettings = (): ShortenerSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved
+      ? { ...DEFAULT_SHORTENER_SETTINGS, ...JSON.parse(saved) }
+      : DEFAULT_SHORTENER_SETTINGS;
+  } catch {
+    return DEFAULT_SHORTENER_SETTINGS;
+  }
+};
+
+export const saveShortenerSettings = (settings: ShortenerSettings) =>
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+const checkResponse = (response: Response) => {
+  if (!response.ok) {
+    throw new ShortenerError(`HTTP error: ${response.status}`, response.status >= 500);
+  }
+};
+
+// Reads a value such as "shortUrl" or "data.link" out of a JSON response
+const readField = (data: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+      data
+    );
+
+// is.gd via a CORS proxy (using POST to handle long URLs)
+export const isGdShortener: ShortenerProvider = {
+  id: "isgd",
+  label: "is.gd",
+  shorten: async (longUrl, signal) => {
+    const proxyUrl = `https://corsproxy.io/?${encodeURIComponent("https://is.gd/create.php")}`;
+
+    const formData = new URLSearchParams();
+    formData.append("format", "json");
+    formData.append("url", longUrl);
+
+    const response = await fetch(proxyUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: formData.toString(),
+      signal,
+    });
+    checkResponse(response);
+
+    const data = await response.json();
+    if (data.shorturl) {
+      return data.shorturl;
+    }
+    throw new ShortenerError(data.errormessage || "Failed to shorten URL");
+  },
+};
+
+export const createJsonShortener = (
+  settings: Pick<
+    ShortenerSettings,
+    "endpoint" | "requestField" | "responseField" | "apiKeyHeader" | "apiKey"
+  >
+): ShortenerProvider => ({
+  id: "custom",
+  label: "Custom endpoint",
+  shorten: async (longUrl, signal) => {
+    if (!settings.endpoint) {
+      throw new ShortenerError("No shortener endpoint configured");
+    }
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (settings.apiKey && settings.apiKeyHeader) {
+      headers[settings.apiKeyHeader] = settings.apiKey;
+    }
+
+    const response = await fetch(settings.endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ [settings.requestField || "url"]: longUrl }),
+      signal,
+    });
+    checkResponse(response);
+
+    const shortUrl = readField(await response.json(), settings.responseField);
+    if (typeof shortUrl === "string" && shortUrl) {
+      return shortUrl;
+    }
+    throw new ShortenerError(
+      `Response did not contain "${settings.responseField}"`
+    );
+  },
+});
+
+/**
+ * In-memory provider for tests and local development.
+ * `failures` makes the first N calls fail with a retryable error and
+ * `delayMs` simulates latency so timeouts can be exercised.
+ */
+export const createMockShortener = ({
+  delayMs = 0,
+  failures = 0,
+  baseUrl = "https://short.test/",
+}: { delayMs?: number; failures?: number; baseUrl?: string } = {}) => {
+  const links = new Map<string, string>();
+  let calls = 0;
+
+  const provider: ShortenerProvider & {
+    resolve: (shortUrl: string) => string | undefined;
+    calls: () => number;
+  } = {
+    id: "mock",
+    label: "Mock",
+    shorten: (longUrl, signal) =>
+      new Promise((resolve, reject) => {
+        calls += 1;
+        const attempt = calls;
+        const timer = setTimeout(() => {
+          if (attempt <= failures) {
+            reject(new ShortenerError("Mock shortener failure", true));
+            return;
+          }
+          const shortUrl = `${baseUrl}${links.size.toString(36)}`;
+          links.set(shortUrl, longUrl);
+          resolve(shortUrl);
+        }, delayMs);
+        signal.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(new ShortenerError("Request aborted", true));
+        });
+      }),
+    resolve: (shortUrl) => links.get(shortUrl),
+    calls: () => calls,
+  };
+  return provider;
+};
+
+export const getShortenerProvider = (
+  settings: ShortenerSettings
+): ShortenerProvider | null => {
+  switch (settings.provider) {
+    case "isgd":
+      return isGdShortener;
+    case "custom":
+      return createJsonShortener(settings);
+    default:
+      return null;
+  }
+};
+
+const attemptWithTimeout = async (
+  provider: ShortenerProvider,
+  longUrl: string,
+  timeoutMs: number
+) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await provider.shorten(longUrl, controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new ShortenerError(`Timed out after ${timeoutMs}ms`, true);
+    }
+    // fetch() rejects with a TypeError on network/CORS failures
+    if (error instanceof TypeError) {
+      throw new ShortenerError(error.message, true);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const shortenWithProvider = async (
+  provider: ShortenerProvider,
+  longUrl: string,
+  { timeoutMs, retries }: Pick<ShortenerSettings, "timeoutMs" | "retries">
+): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptWithTimeout(provider, longUrl, timeoutMs);
+    } catch (error) {
+      const retryable = error instanceof ShortenerError && error.retryable;
+      if (!retryable || attempt >= retries) throw error;
+      // Exponential backoff: 500ms, 1s, 2s...
+      await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** attempt));
+    }
+  }
+};
+
+// Shortens with the user's configured provider
+export const shortenUrl = async (longUrl: string): Promise<string> => {
+  const settings = loadShortenerSettings();
+  const provider = getShortenerProvider(settings);
+  if (!provider) {
+    throw new ShortenerError("URL shortening is disabled");
+  }
+  return shortenWithProvider(provider, longUrl, settings);
+};
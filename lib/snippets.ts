@@ -0,0 +1,104 @@
+import { generateId } from "../utils";
+import { isValidKeybinding, type KeybindingOverrides } from "./commands";
+
+// The user's snippet library. Bodies are templates: `${1:service}` is a tab
+// stop with its default text, visited in number order with Tab and Shift+Tab,
+// and `${0}` is where the cursor ends up. Snippets and keybindings are
+// exported together as one JSON file a team can share.
+
+export interface Snippet {
+  id: string;
+  name: string;
+  description: string;
+  body: string;
+}
+
+/** What a shared settings file holds. */
+export interface EditorSettingsFile {
+  version: 1;
+  keybindings: KeybindingOverrides;
+  snippets: Omit<Snippet, "id">[];
+}
+
+const SNIPPETS_KEY = "ghost-md-snippets";
+
+export class SettingsFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SettingsFileError";
+  }
+}
+
+export const loadSnippets = (): Snippet[] => {
+  try {
+    const saved = localStorage.getItem(SNIPPETS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveSnippets = (snippets: Snippet[]) =>
+  localStorage.setItem(SNIPPETS_KEY, JSON.stringify(snippets));
+
+export const createSnippet = (fields: Partial<Omit<Snippet, "id">> = {}): Snippet => ({
+  id: generateId(),
+  name: "",
+  description: "",
+  body: "",
+  ...fields,
+});
+
+export const exportSettingsFile = (
+  keybindings: KeybindingOverrides,
+  snippets: Snippet[]
+): string => {
+  const file: EditorSettingsFile = {
+    version: 1,
+    keybindings,
+    snippets: snippets.map(({ name, description, body }) => ({ name, description, body })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Reads a settings file, dropping keybindings that aren't well formed. */
+export const parseSettingsFile = (
+  json: string
+): { keybindings: KeybindingOverrides; snippets: Omit<Snippet, "id">[] } => {
+  let file: Partial<EditorSettingsFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new SettingsFileError("The settings file isn't valid JSON.");
+  }
+  if (file?.version !== 1) throw new SettingsFileError("Unsupported settings file.");
+
+  const keybindings: KeybindingOverrides = {};
+  for (const [id, bindings] of Object.entries(file.keybindings ?? {})) {
+    if (!Array.isArray(bindings)) continue;
+    keybindings[id] = bindings.filter(
+      (binding): binding is string => typeof binding === "string" && isValidKeybinding(binding)
+    );
+  }
+  const snippets = (Array.isArray(file.snippets) ? file.snippets : [])
+    .filter((snippet) => typeof snippet?.name === "string" && typeof snippet.body === "string")
+    .map(({ name, description, body }) => ({
+      name,
+      description: typeof description === "string" ? description : "",
+      body,
+    }));
+  return { keybindings, snippets };
+};
+
+/** Snippets from a settings file replace the library's snippets of the same name. */
+export const mergeSnippets = (library: Snippet[], imported: Omit<Snippet, "id">[]): Snippet[] => {
+  const byName = new Map(imported.map((snippet) => [snippet.name, snippet]));
+  return [
+    ...library.map((snippet) =>
+      byName.has(snippet.name) ? { ...snippet, ...byName.get(snippet.name) } : snippet
+    ),
+    ...imported
+      .filter((snippet) => !library.some((existing) => existing.name === snippet.name))
+      .map((snippet) => createSnippet(snippet)),
+  ];
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  createSuggestionSet,
+  diffProposal,
+  discardChange,
+  locateSuggestion,
+  parseSuggestionSet,
+  SuggestionsLinkError,
+} from "./suggestions";
+
+const ORIGINAL = "The quick brown fox jumps over the lazy dog.";
+
+const apply = (markdown: string, start: number, end: number, insert: string) =>
+  markdown.slice(0, start) + insert + markdown.slice(end);
+
+describe("diffProposal", () => {
+  it("groups a deletion next to an insertion into one replacement", () => {
+    const proposed = "The quick red fox jumps over the lazy dog.";
+    expect(diffProposal(ORIGINAL, proposed)).toEqual([
+      { start: 10, end: 15, insert: "red", at: 10 },
+    ]);
+  });
+
+  it("reports insertions and deletions with offsets in both copies", () => {
+    const proposed = "The very quick brown fox jumps over the dog.";
+    const changes = diffProposal(ORIGINAL, proposed);
+    expect(changes.map(({ start, end, insert }) => [ORIGINAL.slice(start, end), insert])).toEqual([
+      ["", "very "],
+      ["lazy ", ""],
+    ]);
+    expect(changes.reduceRight((text, c) => apply(text, c.start, c.end, c.insert), ORIGINAL)).toBe(
+      proposed
+    );
+    expect(proposed.slice(changes[0].at, changes[0].at + 5)).toBe("very ");
+  });
+
+  it("finds nothing when the copies match", () => {
+    expect(diffProposal(ORIGINAL, ORIGINAL)).toEqual([]);
+  });
+});
+
+describe("discardChange", () => {
+  it("puts back the original text of one change only", () => {
+    const proposed = "A quick red fox jumps over the lazy dog.";
+    const [article, colour] = diffProposal(ORIGINAL, proposed);
+    expect(discardChange(ORIGINAL, proposed, colour)).toBe(
+      "A quick brown fox jumps over the lazy dog."
+    );
+    expect(discardChange(ORIGINAL, proposed, article)).toBe(
+      "The quick red fox jumps over the lazy dog."
+    );
+  });
+});
+
+describe("locateSuggestion", () => {
+  const suggest = (proposed: string) =>
+    createSuggestionSet(ORIGINAL, diffProposal(ORIGINAL, proposed), " ", null).suggestions[0];
+
+  it("finds a replacement after the author edited around it", () => {
+    const suggestion = suggest("The quick red fox jumps over the lazy dog.");
+    const edited = `Intro.\n\n${ORIGINAL}`;
+    const range = locateSuggestion(edited, suggestion)!;
+    expect(edited.slice(range.start, range.end)).toBe("brown");
+  });
+
+  it("finds an insertion by its context", () => {
+    const suggestion = suggest("The quick brown fox jumps over the very lazy dog.");
+    const edited = ORIGINAL.replace("The quick", "A slow");
+    const range = locateSuggestion(edited, suggestion)!;
+    expect(range.start).toBe(range.end);
+    expect(apply(edited, range.start, range.end, suggestion.insert)).toBe(
+      "A slow brown fox jumps over the very lazy dog."
+    );
+  });
+
+  it("gives up when the text is gone", () => {
+    const suggestion = suggest("The quick red fox jumps over the lazy dog.");
+    expect(locateSuggestion("Something else entirely.", suggestion)).toBeNull();
+  });
+});
+
+describe("suggestion sets", () => {
+  it("default the author and read back from JSON", () => {
+    const set = createSuggestionSet(ORIGINAL, diffProposal(ORIGINAL, "The dog."), " ", "doc-1");
+    expect(set.author).toBe("Anonymous");
+    expect(parseSuggestionSet(JSON.stringify(set))).toEqual(set);
+  });
+
+  it("treats sets without a document id as unaddressed", () => {
+    const { documentId: _, ...legacy } = createSuggestionSet(ORIGINAL, [], "Ada", "doc-1");
+    expect(parseSuggestionSet(JSON.stringify(legacy)).documentId).toBeNull();
+  });
+
+  it("rejects corrupted sets", () => {
+    expect(() => parseSuggestionSet("{}")).toThrow(SuggestionsLinkError);
+    expect(() => parseSuggestionSet("not json")).toThrow(SuggestionsLinkError);
+  });
+});
@@ -0,0 +1,141 @@
+import { diffWordsWithSpace } from "diff";
+import { createAnchor, findAnchor, type CommentAnchor } from "./comments";
+import { generateId } from "../utils";
+
+// Suggested changes (track changes). A reviewer edits a copy of a shared
+// document; the word-level differences become suggestions, each one a range of
+// the original text and its replacement. They travel in a link (see
+// lib/replyLinks) that opens the shared document in the author's editor, where
+// every suggestion is located again by its quote and context (the author may
+// have edited since sharing) and accepted or rejected.
+
+export interface Suggestion {
+  id: string;
+  // Original text to replace, empty for insertions, with its context
+  anchor: CommentAnchor;
+  insert: string;
+}
+
+export interface SuggestionSet {
+  // The author's document the shared link was made from, if it said
+  documentId: string | null;
+  author: string;
+  createdAt: number;
+  suggestions: Suggestion[];
+}
+
+/** A change between the original and the reviewer's copy, with offsets in both. */
+export interface ProposedChange {
+  start: number;
+  end: number;
+  insert: string;
+  // Where the inserted text sits in the reviewer's copy
+  at: number;
+}
+
+export class SuggestionsLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SuggestionsLinkError";
+  }
+}
+
+/** Groups the word diff into changes; a deletion next to an insertion is one replacement. */
+export const diffProposal = (original: string, proposed: string): ProposedChange[] => {
+  const changes: ProposedChange[] = [];
+  let position = 0;
+  let proposedPosition = 0;
+  let current: ProposedChange | null = null;
+
+  for (const part of diffWordsWithSpace(original, proposed)) {
+    if (!part.added && !part.removed) {
+      if (current) changes.push(current);
+      current = null;
+      position += part.value.length;
+      proposedPosition += part.value.length;
+      continue;
+    }
+    current ??= { start: position, end: position, insert: "", at: proposedPosition };
+    if (part.removed) {
+      position += part.value.length;
+      current.end = position;
+    } else {
+      current.insert += part.value;
+      proposedPosition += part.value.length;
+    }
+  }
+  if (current) changes.push(current);
+  return changes;
+};
+
+/** Puts the original text of one change back into the reviewer's copy. */
+export const discardChange = (original: string, proposed: string, change: ProposedChange) =>
+  proposed.slice(0, change.at) +
+  original.slice(change.start, change.end) +
+  proposed.slice(change.at + change.insert.length);
+
+export const createSuggestionSet = (
+  original: string,
+  changes: ProposedChange[],
+  author: string,
+  documentId: string | null
+): SuggestionSet => ({
+  documentId,
+  author: author.trim() || "Anonymous",
+  createdAt: Date.now(),
+  suggestions: changes.map((change) => ({
+    id: generateId(),
+    anchor: createAnchor(original, change.start, change.end),
+    insert: change.insert,
+  })),
+});
+
+const occurrences = (text: string, search: string): number[] => {
+  const found: number[] = [];
+  if (!search) return found;
+  for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + 1)) {
+    found.push(index);
+  }
+  return found;
+};
+
+/** The occurrence nearest to where the text used to be. */
+const nearest = (candidates: number[], expected: number) =>
+  candidates.length === 0
+    ? null
+    : candidates.reduce((a, b) => (Math.abs(b - expected) < Math.abs(a - expected) ? b : a));
+
+/**
+ * Finds the range a suggestion replaces in the current document, or null when
+ * its text is gone.
+ */
+export const locateSuggestion = (
+  markdown: string,
+  { anchor }: Suggestion
+): { start: number; end: number } | null => {
+  const { quote, prefix, suffix } = anchor;
+  const exact = nearest(occurrences(markdown, prefix + quote + suffix), anchor.start - prefix.length);
+  if (exact !== null) {
+    const start = exact + prefix.length;
+    return { start, end: start + quote.length };
+  }
+  if (quote) return findAnchor(markdown, anchor);
+
+  // Insertions have no text of their own; either side of the context will do
+  const before = nearest(occurrences(markdown, prefix), anchor.start - prefix.length);
+  if (before !== null && prefix) return { start: before + prefix.length, end: before + prefix.length };
+  const after = nearest(occurrences(markdown, suffix), anchor.start);
+  if (after !== null) return { start: after, end: after };
+  return null;
+};
+
+/** Reads the set carried by a suggestions link; see lib/replyLinks. */
+export const parseSuggestionSet = (json: string): SuggestionSet => {
+  try {
+    const set = JSON.parse(json) as SuggestionSet;
+    if (!Array.isArray(set.suggestions)) throw new Error("Missing suggestions");
+    return { ...set, documentId: set.documentId ?? null };
+  } catch {
+    throw new SuggestionsLinkError("The suggestions link is corrupted.");
+  }
+};
@@ -0,0 +1,284 @@
+import { generateId } from "../utils";
+import { deleteRecord, getAllRecords, putRecord } from "./db";
+import { loadCommentAuthor } from "./comments";
+
+// Templates for new documents. The built-in ones ship with the app; documents
+// saved as templates are kept in IndexedDB. `{{name}}` placeholders are asked
+// for when a document is created from a template and filled in everywhere.
+
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  description: string;
+  content: string;
+  // Built-in templates can't be deleted
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  {
+    id: "readme",
+    name: "README",
+    description: "Project overview, setup and usage",
+    content: `# {{title}}
+
+{{summary}}
+
+## Getting Started
+
+### Prerequisites
+
+- Node.js 20+
+
+### Installation
+
+\`\`\`bash
+git clone https://github.com/{{owner}}/{{title}}.git
+cd {{title}}
+npm install
+\`\`\`
+
+## Usage
+
+\`\`\`bash
+npm start
+\`\`\`
+
+## Contributing
+
+Pull requests are welcome. For major changes, please open an issue first to discuss what you would like to change.
+
+## License
+
+MIT © {{year}} {{author}}
+`,
+  },
+  {
+    id: "adr",
+    name: "ADR",
+    description: "Architecture decision record",
+    content: `# ADR {{number}}: {{title}}
+
+- **Status:** Proposed
+- **Date:** {{date}}
+- **Deciders:** {{author}}
+
+## Context
+
+What is the issue that we're seeing that is motivating this decision or change?
+
+## Decision
+
+What is the change that we're proposing and/or doing?
+
+## Consequences
+
+What becomes easier or more difficult to do because of this change?
+
+### Positive
+
+-
+
+### Negative
+
+-
+
+## Alternatives Considered
+
+| Option | Pros | Cons |
+| --- | --- | --- |
+| | | |
+`,
+  },
+  {
+    id: "meeting-notes",
+    name: "Meeting Notes",
+    description: "Agenda, notes, decisions and action items",
+    content: `# {{title}}
+
+**Date:** {{date}}
+**Facilitator:** {{author}}
+**Attendees:**
+
+## Agenda
+
+1.
+
+## Notes
+
+-
+
+## Decisions
+
+-
+
+## Action Items
+
+- [ ] Owner: task (due date)
+`,
+  },
+  {
+    id: "incident-postmortem",
+    name: "Incident Postmortem",
+    description: "Blameless review of an outage",
+    content: `# Postmortem: {{title}}
+
+| | |
+| --- | --- |
+| **Date** | {{date}} |
+| **Service** | {{service}} |
+| **Severity** | {{severity}} |
+| **Author** | {{author}} |
+
+## Summary
+
+What happened, in two or three sentences.
+
+## Impact
+
+Who was affected, for how long, and how badly.
+
+## Timeline
+
+| Time (UTC) | Event |
+| --- | --- |
+| | Incident detected |
+| | Mitigation applied |
+| | Incident resolved |
+
+## Root Cause
+
+## Resolution
+
+## What Went Well
+
+-
+
+## What Went Wrong
+
+-
+
+## Action Items
+
+- [ ] Owner: follow-up
+`,
+  },
+  {
+    id: "changelog",
+    name: "Changelog",
+    description: "Keep a Changelog format",
+    content: `# Changelog
+
+All notable changes to {{title}} are documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+
+## [Unreleased]
+
+## [{{version}}] - {{date}}
+
+### Added
+
+-
+
+### Changed
+
+-
+
+### Fixed
+
+-
+`,
+  },
+  {
+    id: "rfc",
+    name: "RFC",
+    description: "Request for comments on a proposal",
+    content: `# RFC: {{title}}
+
+- **Author:** {{author}}
+- **Created:** {{date}}
+- **Status:** Draft
+
+## Summary
+
+One paragraph explanation of the proposal.
+
+## Motivation
+
+Why are we doing this? What problems does it solve?
+
+## Detailed Design
+
+## Drawbacks
+
+## Alternatives
+
+## Unresolved Questions
+
+-
+`,
+  },
+].map((template) => ({ ...template, builtIn: true, createdAt: 0 }));
+
+/** Custom templates, oldest first. */
+export const listTemplates = async (): Promise<DocumentTemplate[]> =>
+  (await getAllRecords<DocumentTemplate>("templates")).sort((a, b) => a.createdAt - b.createdAt);
+
+export const saveTemplate = (
+  init: Pick<DocumentTemplate, "name" | "description" | "content">
+): Promise<DocumentTemplate> =>
+  putRecord<DocumentTemplate>("templates", {
+    id: generateId(),
+    name: init.name,
+    description: init.description,
+    content: init.content,
+    createdAt: Date.now(),
+  });
+
+/**
+ * Saves a document's content as a custom template named `name`. Resolves to
+ * null without saving when the name is blank.
+ */
+export const saveDocumentAsTemplate = async (
+  name: string,
+  content: string
+): Promise<DocumentTemplate | null> => {
+  const trimmed = name.trim();
+  if (!trimmed) return null;
+  return saveTemplate({ name: trimmed, description: "Saved from a document", content });
+};
+
+export const deleteTemplate = (id: string) => deleteRecord("templates", id);
+
+/** Names of the template's variables, in order of first use. */
+export const templateVariables = (content: string): string[] => [
+  ...new Set(Array.from(content.matchAll(VARIABLE_PATTERN), (match) => match[1])),
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** What a variable starts out as in the form. */
+export const defaultVariableValue = (name: string): string => {
+  const now = new Date();
+  switch (name) {
+    case "date":
+      return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+    case "time":
+      return `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+    case "year":
+      return String(now.getFullYear());
+    case "author":
+      return loadCommentAuthor();
+    default:
+      return "";
+  }
+};
+
+// Variables left blank keep their placeholder, so they are easy to find and fill in later
+export const fillTemplate = (content: string, values: Record<string, string>): string =>
+  content.replace(VARIABLE_PATTERN, (match, name: string) => values[name] || match);
@@ -0,0 +1,41 @@
+import { decodePayload } from "./codec";
+import { decryptWithKey } from "./crypto";
+import { parsePartParams } from "./chunks";
+import { detachComments } from "./comments";
+
+// Reads the markdown out of a pasted `/view` link without opening the viewer.
+// Standard and key-encrypted links are self-contained; passphrase-protected
+// and multi-part links need the viewer's prompts and are rejected.
+
+export class ViewLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ViewLinkError";
+  }
+}
+
+export const readViewLink = async (link: string): Promise<string> => {
+  const start = link.indexOf("?");
+  if (start === -1) throw new ViewLinkError("That is not a GHOST.md share link.");
+  // Encrypted links carry their key in the fragment after the query
+  const [query, key = ""] = link.slice(start + 1).split("#");
+  const params = new URLSearchParams(query);
+
+  if (parsePartParams(params)) {
+    throw new ViewLinkError("Multi-part links must be opened in the viewer first.");
+  }
+  if (params.has("e")) {
+    throw new ViewLinkError("Passphrase-protected links must be opened in the viewer first.");
+  }
+
+  let payload = params.get("c");
+  if (params.has("x")) {
+    if (!key) throw new ViewLinkError("This encrypted link is missing its key.");
+    payload = await decryptWithKey(params.get("x")!, key);
+  }
+  if (!payload) throw new ViewLinkError("No content found in the link.");
+
+  const markdown = await decodePayload(payload);
+  if (markdown === null) throw new ViewLinkError("The link data is corrupted.");
+  return detachComments(markdown).markdown;
+};
@@ -0,0 +1,164 @@
+import { DEFAULT_MARKDOWN, generateId } from "../utils";
+import { deleteRecord, getAllRecords, getRecord, putRecord } from "./db";
+import { deleteRevisions } from "./history";
+import type { CommentThread } from "./comments";
+
+export interface WorkspaceDocument {
+  id: string;
+  fileName: string;
+  content: string;
+  folderId: string | null;
+  // Review threads; missing on documents that never had any
+  comments?: CommentThread[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WorkspaceFolder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: number;
+}
+
+export interface Workspace {
+  documents: WorkspaceDocument[];
+  folders: WorkspaceFolder[];
+}
+
+// Single-document slot used before the workspace existed; migrated on first load.
+const LEGACY_STORAGE_KEY = "ghost-md-draft";
+const ACTIVE_DOCUMENT_KEY = "ghost-md-active-document";
+
+// Links between documents, e.g. `[Setup](doc://<id>#install)`
+export const DOCUMENT_LINK_PROTOCOL = "doc://";
+
+export const isDocumentLink = (url: string) => url.startsWith(DOCUMENT_LINK_PROTOCOL);
+
+export const documentIdFromLink = (url: string) =>
+  url.slice(DOCUMENT_LINK_PROTOCOL.length).split("#")[0];
+
+export const loadActiveDocumentId = () => localStorage.getItem(ACTIVE_DOCUMENT_KEY);
+
+export const storeActiveDocumentId = (id: string) =>
+  localStorage.setItem(ACTIVE_DOCUMENT_KEY, id);
+
+export const sortDocuments = (documents: WorkspaceDocument[]) =>
+  [...documents].sort((a, b) =>
+    a.fileName.localeCompare(b.fileName, undefined, { numeric: true })
+  );
+
+export const loadWorkspace = async (): Promise<Workspace> => {
+  let documents = await getAllRecords<WorkspaceDocument>("documents");
+  const folders = await getAllRecords<WorkspaceFolder>("folders");
+
+  if (documents.length === 0) {
+    const legacyDraft = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const first = await createDocument({
+      fileName: "document",
+      content: legacyDraft || DEFAULT_MARKDOWN,
+    });
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    documents = [first];
+  }
+
+  return { documents: sortDocuments(documents), folders };
+};
+
+export const createDocument = (
+  init: Partial<Pick<WorkspaceDocument, "fileName" | "content" | "folderId" | "comments">> = {}
+): Promise<WorkspaceDocument> => {
+  const now = Date.now();
+  return putRecord<WorkspaceDocument>("documents", {
+    id: generateId(),
+    fileName: init.fileName ?? "untitled",
+    content: init.content ?? "",
+    folderId: init.folderId ?? null,
+    ...(init.comments && { comments: init.comments }),
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const updateDocument = async (
+  id: string,
+  patch: Partial<Pick<WorkspaceDocument, "fileName" | "content" | "folderId" | "comments">>
+): Promise<WorkspaceDocument | null> => {
+  const existing = await getRecord<WorkspaceDocument>("documents", id);
+  if (!existing) return null;
+  return putRecord<WorkspaceDocument>("documents", {
+    ...existing,
+    ...patch,
+    updatedAt: Date.now(),
+  });
+};
+
+export const duplicateDocument = async (
+  id: string
+): Promise<WorkspaceDocument | null> => {
+  const source = await getRecord<WorkspaceDocument>("documents", id);
+  if (!source) return null;
+  return createDocument({
+    fileName: `${source.fileName} copy`,
+    content: source.content,
+    folderId: source.folderId,
+    comments: source.comments,
+  });
+};
+
+export const deleteDocument = async (id: string) => {
+  await deleteRecord("documents", id);
+  await deleteRevisions(id);
+};
+
+export const createFolder = (
+  name: string,
+  parentId: string | null = null
+): Promise<WorkspaceFolder> =>
+  putRecord<WorkspaceFolder>("folders", {
+    id: generateId(),
+    name,
+    parentId,
+    createdAt: Date.now(),
+  });
+
+export const renameFolder = async (
+  id: string,
+  name: string
+): Promise<WorkspaceFolder | null> => {
+  const existing = await getRecord<WorkspaceFolder>("folders", id);
+  if (!existing) return null;
+  return putRecord<WorkspaceFolder>("folders", { ...existing, name });
+};
+
+/**
+ * Deletes a folder and everything nested inside it.
+ * Returns the ids of every removed folder and document so callers can update open state.
+ */
+export const deleteFolder = async (
+  id: string,
+  workspace: Workspace
+): Promise<{ folderIds: string[]; documentIds: string[] }> => {
+  const folderIds = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const folder of workspace.folders) {
+      if (folder.parentId && folderIds.has(folder.parentId) && !folderIds.has(folder.id)) {
+        folderIds.add(folder.id);
+        grew = true;
+      }
+    }
+  }
+
+  const removedDocuments = workspace.documents
+    .filter((doc) => doc.folderId && folderIds.has(doc.folderId))
+    .map((doc) => doc.id);
+
+  await Promise.all([
+    ...removedDocuments.map(deleteDocument),
+    ...[...folderIds].map((folderId) => deleteRecord("folders", folderId)),
+  ]);
+
+  return { folderIds: [...folderIds], documentIds: removedDocuments };
+};
@@ -0,0 +1,102 @@
+// Minimal publish/subscribe relay for collaborative editing sessions.
+//
+// Clients subscribe to a room topic and every message published to it is
+// forwarded to all subscribers. The relay never looks inside the messages and
+// keeps nothing once a room is empty, so there is no database to run. The
+// protocol matches y-webrtc's signaling server, which lets the same relay carry
+// Yjs updates for the WebSocket transport and WebRTC signaling.
+//
+//   npm run relay            # ws://localhost:4444
+//   PORT=8080 npm run relay
+
+import http from "node:http";
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.PORT) || 4444;
+// Connections that miss a ping for this long are dropped
+const PING_INTERVAL_MS = 30000;
+
+/** @type {Map<string, Set<import("ws").WebSocket>>} */
+const topics = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState !== socket.OPEN) return;
+  try {
+    socket.send(JSON.stringify(message));
+  } catch {
+    socket.close();
+  }
+};
+
+const server = http.createServer((_request, response) => {
+  response.writeHead(200, { "Content-Type": "text/plain" });
+  response.end("GHOST.md relay");
+});
+
+const wss = new WebSocketServer({ server });
+
+wss.on("connection", (socket) => {
+  const subscribed = new Set();
+  let isAlive = true;
+
+  const pingTimer = setInterval(() => {
+    if (!isAlive) {
+      socket.terminate();
+      return;
+    }
+    isAlive = false;
+    socket.ping();
+  }, PING_INTERVAL_MS);
+
+  socket.on("pong", () => {
+    isAlive = true;
+  });
+
+  const unsubscribe = (topic) => {
+    const subscribers = topics.get(topic);
+    subscribers?.delete(socket);
+    if (subscribers?.size === 0) topics.delete(topic);
+    subscribed.delete(topic);
+  };
+
+  socket.on("close", () => {
+    clearInterval(pingTimer);
+    subscribed.forEach(unsubscribe);
+  });
+
+  socket.on("message", (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    switch (message?.type) {
+      case "subscribe":
+        for (const topic of message.topics ?? []) {
+          if (typeof topic !== "string") continue;
+          if (!topics.has(topic)) topics.set(topic, new Set());
+          topics.get(topic).add(socket);
+          subscribed.add(topic);
+        }
+        break;
+      case "unsubscribe":
+        for (const topic of message.topics ?? []) unsubscribe(topic);
+        break;
+      case "publish": {
+        const subscribers = topics.get(message.topic);
+        if (!subscribers) break;
+        message.clients = subscribers.size;
+        subscribers.forEach((subscriber) => send(subscriber, message));
+        break;
+      }
+      case "ping":
+        send(socket, { type: "pong" });
+        break;
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`GHOST.md relay listening on ws://localhost:${PORT}`);
+});
@@ -7,10 +7,22 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// Short unique id for locally stored records
+export const generateId = (): string =>
+  Date.now().toString(36) + Math.random().toString(36).substring(2, 9);
+
 // URL Length Limit for Sharing
 // Most browsers support ~2000-8000 chars, social media/SMS support less
 export const MAX_SHAREABLE_URL_LENGTH = 2000;
 
+// Builds a link to the read-only viewer. Values must already be URL-safe.
+export const buildViewUrl = (params: Record<string, string>): string => {
+  const query = Object.entries(params)
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  return `${window.location.origin}/#/view?${query}`;
+};
+
 // Compression Logic
 export const compressMarkdown = (markdown: string): string => {
   if (!markdown) return "";
@@ -26,35 +38,21 @@ export const decompressMarkdown = (compressed: string): string | null => {
   return LZString.decompressFromEncodedURIComponent(safeCompressed);
 };
 
-// URL Shortening via is.gd API (using POST to handle long URLs)
-export const shortenUrl = async (longUrl: string): Promise<string> => {
-  // Use CORS proxy for client-side requests
-  const proxyUrl = `https://corsproxy.io/?${encodeURIComponent('https://is.gd/create.php')}`;
-  
-  // Use POST with form data to handle very long URLs
-  const formData = new URLSearchParams();
-  formData.append('format', 'json');
-  formData.append('url', longUrl);
-  
-  const response = await fetch(proxyUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: formData.toString(),
-  });
-  
-  if (!response.ok) {
-    throw new Error(`HTTP error: ${response.status}`);
+// Base64url helpers for binary payloads carried in URLs
+export const bytesToBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
-  
-  const data = await response.json();
-  
-  if (data.shorturl) {
-    return data.shorturl;
-  }
-  
-  throw new Error(data.errormessage || 'Failed to shorten URL');
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+export const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
 };
 
 // Default Markdown Template
@@ -50,11 +50,15 @@ export default defineConfig({
             }
             // Code editor
             if (
-              id.includes("react-simple-code-editor") ||
-              id.includes("prismjs")
+              id.includes("@codemirror") ||
+              id.includes("@lezer")
             ) {
               return "editor";
             }
+            // Vim & Emacs keymaps, loaded when picked
+            if (id.includes("@replit/codemirror")) {
+              return "editor-keymaps";
+            }
             // Other vendor libraries
             return "vendor";
           }